@@ -0,0 +1,94 @@
+/**
+ * HyperMap Anomalies Report
+ * Usage: npm run hypermap -- anomalies [--limit=50] [--rebuild]
+ *    or: npm run anomalies -- [--limit=50] [--rebuild]
+ *
+ * Options:
+ *   --limit=<count>    Number of anomalies listed, newest first (defaults to 50)
+ *   --rebuild          Find the anomalies again from the stored Fact events first
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Facts are write-once: the first Fact event of an entry and label (in chain order)
+ * sets the fact, and every later Fact event of it is recorded as an anomaly instead of
+ * overwriting it, either with another value (conflicting-value) or the same one
+ * (repeated-value). Anomalies point at indexing bugs or unexpected contract behaviour.
+ * This lists them with the value that was kept. --rebuild is for databases indexed
+ * before facts were write-once: it also restores facts that were overwritten.
+ * No RPC requests are made.
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import {
+  initMongoConnection,
+  getFactAnomalies,
+  countFactAnomalies,
+  rebuildFactAnomalies
+} from '../src/lib/services/mongodb.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { runCommand, isMainModule, requireEnv } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues } from '../src/types/index.js';
+
+export const anomaliesCommand: CliCommand = {
+  name: 'anomalies',
+  script: 'anomalies',
+  summary: 'List the Fact events that tried to set an already set fact',
+  options: [
+    { name: 'limit', type: 'number', value: '<count>', description: 'Number of anomalies listed, newest first (defaults to 50)' },
+    { name: 'rebuild', type: 'boolean', description: 'Find the anomalies again from the stored Fact events first' }
+  ],
+  run: reportAnomalies
+};
+
+// Main report function
+async function reportAnomalies(values: CliValues): Promise<CliResult> {
+  const deployment = getActiveDeployment();
+  const mongoUri = requireEnv('MONGODB_URI');
+  const limit = (values.limit as number | undefined) ?? 50;
+
+  console.log(`Checking fact anomalies of ${deployment.name} (chain ${deployment.chainId})...`);
+  await initMongoConnection(mongoUri);
+
+  try {
+    let rebuilt: { facts: number; anomalies: number; restoredFacts: number } | null = null;
+    if (values.rebuild) {
+      console.log('Finding anomalies in the stored Fact events...');
+      rebuilt = await rebuildFactAnomalies();
+      console.log(`${rebuilt.facts.toLocaleString()} facts were set more than once, ${rebuilt.restoredFacts.toLocaleString()} entry facts restored to their first value`);
+    }
+
+    const counts = await countFactAnomalies();
+    const anomalies = await getFactAnomalies(limit);
+
+    console.log(`\n=== FACT ANOMALIES ===`);
+    if (anomalies.length === 0) {
+      console.log('No anomalies found');
+    }
+    for (const anomaly of anomalies) {
+      console.log(`Block ${anomaly.blockNumber.toLocaleString()} ${anomaly.transactionHash} (log ${anomaly.logIndex}): ${anomaly.kind}`);
+      console.log(`  fact ${anomaly.label} of ${anomaly.namehash}`);
+      console.log(`  kept ${anomaly.kept.data} (block ${anomaly.kept.blockNumber.toLocaleString()}), ignored ${anomaly.data}`);
+    }
+
+    const total = counts['conflicting-value'] + counts['repeated-value'];
+    console.log('\n=============== FINAL RESULTS ===============');
+    console.log(`ANOMALIES: ${total.toLocaleString()} Fact events tried to set a fact again`);
+    console.log(`${counts['conflicting-value'].toLocaleString()} with another value, ${counts['repeated-value'].toLocaleString()} with the same value`);
+    if (total > anomalies.length) {
+      console.log(`Listed the newest ${anomalies.length.toLocaleString()} (use --limit to list more)`);
+    }
+    console.log('=============================================');
+
+    return {
+      status: 'ok',
+      data: { deployment: deployment.name, chainId: deployment.chainId, counts, rebuilt, anomalies }
+    };
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the report when started directly (npm run anomalies)
+if (isMainModule(import.meta.url)) {
+  runCommand(anomaliesCommand, process.argv.slice(2));
+}
@@ -0,0 +1,118 @@
+/**
+ * HyperMap Timestamp Backfill
+ * Usage: npm run hypermap -- backfill-timestamps [--batch=500]
+ *    or: npm run backfill-timestamps -- [--batch=500]
+ *
+ * Options:
+ *   --batch=<count>    Number of blocks looked up per batch (defaults to 500)
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Finds stored events without a timestamp (e.g. after rate-limit failures during
+ * ingestion), looks up the timestamps of their blocks through the event service's
+ * block cache (blockheaders collection first, then batched RPC requests) and
+ * updates the events. Exits with code 3 if the timestamps of some blocks could not
+ * be found.
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import {
+  createProvider,
+  getBlockTimestamps,
+  setBlockHeaderStore
+} from '../src/lib/services/events.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import {
+  initMongoConnection,
+  getBlocksMissingTimestamps,
+  setEventTimestamps,
+  mongoBlockHeaderStore
+} from '../src/lib/services/mongodb.js';
+import { runCommand, isMainModule, requireEnv, requireRpcUrls, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues } from '../src/types/index.js';
+
+export const backfillTimestampsCommand: CliCommand = {
+  name: 'backfill-timestamps',
+  script: 'backfill-timestamps',
+  summary: 'Look up the missing timestamps of stored events',
+  options: [
+    { name: 'batch', type: 'number', value: '<count>', description: 'Number of blocks looked up per batch (defaults to 500)' }
+  ],
+  run: backfillTimestamps
+};
+
+// Main backfill function
+async function backfillTimestamps(values: CliValues): Promise<CliResult> {
+  const batchSize = (values.batch as number | undefined) ?? 500;
+  if (batchSize < 1) {
+    throw usageError('--batch must be at least 1');
+  }
+
+  // Deployment to index (HYPERMAP_DEPLOYMENT, defaults to Base mainnet)
+  const deployment = getActiveDeployment();
+
+  // Check for required configuration
+  requireRpcUrls(deployment);
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  // Setup provider
+  const provider = createProvider();
+
+  console.log('Starting timestamp backfill...');
+  await initMongoConnection(mongoUri);
+
+  // Reuse and persist block timestamps through the blockheaders collection
+  setBlockHeaderStore(mongoBlockHeaderStore);
+
+  let totalBlocks = 0;
+  let totalEvents = 0;
+  let failedBlocks = 0;
+  const failed = new Set<number>();
+
+  try {
+    while (true) {
+      // Skip blocks that already failed in this run so the loop always terminates
+      const blockNumbers = (await getBlocksMissingTimestamps(batchSize + failed.size))
+        .filter(blockNumber => !failed.has(blockNumber))
+        .slice(0, batchSize);
+      if (blockNumbers.length === 0) break;
+
+      console.log(`Looking up ${blockNumbers.length} blocks (${blockNumbers[0]} - ${blockNumbers[blockNumbers.length - 1]})...`);
+      const timestamps = await getBlockTimestamps(provider, blockNumbers);
+
+      const found = new Map<number, number>();
+      for (const [blockNumber, timestamp] of timestamps) {
+        if (timestamp === null) {
+          failed.add(blockNumber);
+          failedBlocks++;
+        } else {
+          found.set(blockNumber, timestamp);
+        }
+      }
+
+      const updated = await setEventTimestamps(found);
+      totalBlocks += found.size;
+      totalEvents += updated;
+      console.log(`Updated ${updated} events in ${found.size} blocks`);
+    }
+  } finally {
+    await mongoose.disconnect();
+  }
+
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`BACKFILL COMPLETE: Updated ${totalEvents} events in ${totalBlocks} blocks`);
+  if (failedBlocks > 0) {
+    console.log(`Could not get timestamps for ${failedBlocks} blocks, run again later`);
+  }
+  console.log('=============================================');
+
+  return {
+    status: failedBlocks > 0 ? 'partial' : 'ok',
+    data: { deployment: deployment.name, chainId: deployment.chainId, updatedEvents: totalEvents, updatedBlocks: totalBlocks, failedBlocks }
+  };
+}
+
+// Run the backfill when started directly (npm run backfill-timestamps)
+if (isMainModule(import.meta.url)) {
+  runCommand(backfillTimestampsCommand, process.argv.slice(2));
+}
@@ -0,0 +1,356 @@
+/**
+ * HyperMap Parallel Backfill
+ * Usage: npm run hypermap -- backfill <plan|work|materialize|status> [options]
+ *    or: npm run backfill -- <plan|work|materialize|status> [options]
+ *
+ * Actions:
+ *   plan          Split the historical range into leases
+ *                   --from=<block>        First block (defaults to the block after the 'extract' checkpoint)
+ *                   --to=<block>          Last block (defaults to the chain head minus the reorg window)
+ *                   --lease-size=<blocks> Blocks per lease (defaults to 100000)
+ *   work          Claim and process leases until none are left (run several in parallel)
+ *                   --worker=<id>         Worker id (defaults to hostname-pid)
+ *   materialize   Apply the stored events to entries in block order, up to the 'extract' checkpoint
+ *   status        Show lease counts, checkpoints and failed leases
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Workers store raw events only. Each lease is claimed for LEASE_DURATION_MS and the
+ * claim is renewed after every chunk, so leases of crashed workers expire and are
+ * taken over by other workers. Completed leases advance the 'extract' checkpoint up to
+ * the first gap; 'materialize' then updates entries in block order behind it and moves
+ * the 'index' checkpoint along, so index-events continues where the backfill ended.
+ * Only 'plan' and 'work' make RPC requests.
+ *
+ * 'work' exits with code 3 if any lease it claimed failed (run 'plan' again to queue
+ * failed leases again).
+ */
+
+// Import libraries
+import { ethers } from 'ethers';
+import mongoose from 'mongoose';
+import os from 'os';
+import {
+  createProvider,
+  createContract,
+  parseLogsToEvents,
+  setBlockHeaderStore,
+  setRawLogArchive,
+  setQuarantineStore
+} from '../src/lib/services/events.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { createRangePlanner } from '../src/lib/services/ranges.js';
+import { withRetry, getRetryMetrics, getErrorMessage, sleep, RetryDecision } from '../src/lib/services/retry.js';
+import { getConfiguredRawLogArchive } from '../src/lib/services/archive.js';
+import {
+  initMongoConnection,
+  storeEvents,
+  processEventsToEntries,
+  getCheckpoint,
+  resolveStartBlock,
+  saveCheckpoint,
+  recordCoverage,
+  recordCoverageFailure,
+  getEventsInBlockRange,
+  planLeases,
+  claimLease,
+  renewLease,
+  completeLease,
+  failLease,
+  getLeases,
+  getLeaseSummary,
+  advanceCheckpointFromLeases,
+  mongoBlockHeaderStore,
+  mongoQuarantineStore
+} from '../src/lib/services/mongodb.js';
+import { LEASE_DURATION_MS, LEASE_SIZE_BLOCKS, MATERIALIZE_BATCH_BLOCKS, REORG_WINDOW_BLOCKS } from '../src/constants.js';
+import { runCommand, isMainModule, requireEnv, requireRpcUrls, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, HypermapEvent, LeaseSummary, RangeLease } from '../src/types/index.js';
+
+export const backfillCommand: CliCommand = {
+  name: 'backfill',
+  script: 'backfill',
+  summary: 'Backfill history with parallel workers: plan leases, work them, then materialize entries',
+  actions: [
+    { name: 'plan', description: 'Split the historical range into leases' },
+    { name: 'work', description: 'Claim and process leases until none are left (run several in parallel)' },
+    { name: 'materialize', description: "Apply the stored events to entries in block order, up to the 'extract' checkpoint" },
+    { name: 'status', description: 'Show lease counts, checkpoints and failed leases' }
+  ],
+  options: [
+    { name: 'from', type: 'number', value: '<block>', description: "plan: First block (defaults to the block after the 'extract' checkpoint)" },
+    { name: 'to', type: 'number', value: '<block>', description: 'plan: Last block (defaults to the chain head minus the reorg window)' },
+    { name: 'lease-size', type: 'number', value: '<blocks>', description: `plan: Blocks per lease (defaults to ${LEASE_SIZE_BLOCKS})` },
+    { name: 'worker', type: 'string', value: '<id>', description: 'work: Worker id (defaults to hostname-pid)' }
+  ],
+  run: backfill
+};
+
+// How often an idle worker checks for expired leases of other workers
+const IDLE_POLL_MS = Math.min(LEASE_DURATION_MS / 10, 30000);
+
+// Main backfill function
+async function backfill(values: CliValues): Promise<CliResult> {
+  const action = values.action as string;
+
+  // Only planning and working leases need the RPC
+  if (action === 'plan' || action === 'work') {
+    requireRpcUrls(getActiveDeployment());
+  }
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  const leaseSize = (values['lease-size'] as number | undefined) ?? LEASE_SIZE_BLOCKS;
+  if (leaseSize < 1) {
+    throw usageError('--lease-size must be at least 1');
+  }
+
+  await initMongoConnection(mongoUri);
+
+  try {
+    switch (action) {
+      case 'plan':
+        return await plan(values.from as number | undefined, values.to as number | undefined, leaseSize);
+      case 'work':
+        return await work((values.worker as string | undefined) ?? `${os.hostname()}-${process.pid}`);
+      case 'materialize':
+        return await materialize();
+      default:
+        return await status();
+    }
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Split the range into leases
+async function plan(requestedFromBlock: number | undefined, requestedToBlock: number | undefined, leaseSize: number): Promise<CliResult> {
+  const provider = createProvider();
+  const headBlock = await provider.getBlockNumber();
+
+  // Recent blocks can still reorganize - leave them to index-events
+  const fromBlock = requestedFromBlock ?? await resolveStartBlock('extract');
+  const toBlock = requestedToBlock ?? headBlock - REORG_WINDOW_BLOCKS;
+
+  console.log(`Planning leases of ${leaseSize.toLocaleString()} blocks from ${fromBlock.toLocaleString()} to ${toBlock.toLocaleString()}...`);
+  const created = await planLeases(fromBlock, toBlock, leaseSize);
+  console.log(`Created ${created} new leases`);
+
+  const summary = await getLeaseSummary();
+  printSummary(summary);
+
+  return { status: 'ok', data: { action: 'plan', fromBlock, toBlock, leaseSize, created, leases: summary } };
+}
+
+// Process a lease in chunks, storing raw events and renewing the claim after every chunk
+async function processLease(
+  lease: RangeLease,
+  workerId: string,
+  provider: ethers.JsonRpcProvider,
+  contract: ethers.Contract,
+  planner: ReturnType<typeof createRangePlanner>
+): Promise<number> {
+  const deployment = getActiveDeployment();
+  let eventCount = 0;
+  let startBlock = lease.fromBlock;
+
+  while (startBlock <= lease.toBlock) {
+    const endBlock = planner.nextEnd(startBlock, lease.toBlock);
+    let events: HypermapEvent[];
+
+    try {
+      events = await withRetry(async () => {
+        const logs = await provider.getLogs({
+          address: deployment.contractAddress,
+          fromBlock: startBlock,
+          toBlock: endBlock
+        });
+        return parseLogsToEvents(logs, contract, provider);
+      }, {
+        onRetry: (_error: unknown, decision: RetryDecision, retry: number) => {
+          console.log(`  [${workerId}] ${decision.category} error on blocks ${startBlock}-${endBlock}, retry #${retry} in ${Math.round(decision.delayMs / 1000)}s...`);
+        }
+      });
+    } catch (error) {
+      // Shrink the range and retry right away if the RPC rejected its size
+      if (planner.recordRangeError(error)) continue;
+      await recordCoverageFailure('extract', startBlock, endBlock, getErrorMessage(error));
+      throw error;
+    }
+
+    planner.recordSuccess();
+    await storeEvents(events);
+    await recordCoverage('extract', startBlock, endBlock);
+    eventCount += events.length;
+
+    if (!await renewLease(lease, workerId)) {
+      throw new Error(`Lease ${lease.fromBlock}-${lease.toBlock} was taken over by another worker`);
+    }
+
+    startBlock = endBlock + 1;
+  }
+
+  return eventCount;
+}
+
+// Claim and process leases until none are left
+async function work(workerId: string): Promise<CliResult> {
+  const provider = createProvider();
+  const contract = createContract(provider);
+
+  // Reuse and persist block timestamps through the blockheaders collection
+  setBlockHeaderStore(mongoBlockHeaderStore);
+  // Quarantine logs that fail to decode
+  setQuarantineStore(mongoQuarantineStore);
+  // Archive raw logs when RAW_LOG_ARCHIVE is set
+  setRawLogArchive(getConfiguredRawLogArchive());
+
+  const planner = createRangePlanner(); // Chunk sizes adapt to the RPC's range limits
+  let leasesDone = 0;
+  let totalEvents = 0;
+  const failedLeases: { fromBlock: number; toBlock: number; error: string }[] = [];
+
+  console.log(`Worker ${workerId} started`);
+
+  while (true) {
+    const lease = await claimLease(workerId);
+
+    if (!lease) {
+      const summary = await getLeaseSummary();
+      if (summary.pending === 0 && summary.claimed === 0 && summary.expired === 0) break;
+
+      // Other workers hold the remaining leases - wait in case one of them expires
+      await sleep(IDLE_POLL_MS);
+      continue;
+    }
+
+    console.log(`[${workerId}] Claimed lease ${lease.fromBlock.toLocaleString()}-${lease.toBlock.toLocaleString()} (attempt ${lease.attempts})`);
+    const started = Date.now();
+
+    try {
+      const eventCount = await processLease(lease, workerId, provider, contract, planner);
+
+      if (await completeLease(lease, workerId, eventCount)) {
+        leasesDone++;
+        totalEvents += eventCount;
+        const extracted = await advanceCheckpointFromLeases();
+        console.log(`[${workerId}] Completed lease ${lease.fromBlock.toLocaleString()}-${lease.toBlock.toLocaleString()}: ${eventCount} events in ${Math.round((Date.now() - started) / 1000)}s (extracted through ${extracted?.toLocaleString() ?? 'none'})`);
+      } else {
+        console.warn(`[${workerId}] Lease ${lease.fromBlock}-${lease.toBlock} was taken over by another worker`);
+      }
+    } catch (error) {
+      const message = getErrorMessage(error);
+      console.error(`[${workerId}] Lease ${lease.fromBlock}-${lease.toBlock} failed: ${message}`);
+      await failLease(lease, workerId, message);
+      failedLeases.push({ fromBlock: lease.fromBlock, toBlock: lease.toBlock, error: message });
+    }
+  }
+
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`WORKER ${workerId} DONE: ${leasesDone} leases, ${totalEvents} events`);
+
+  // RPC errors by category for this run
+  const retryMetrics = getRetryMetrics().filter(metric => metric.errors > 0);
+  if (retryMetrics.length > 0) {
+    console.log('RPC errors:');
+    retryMetrics.forEach(metric => {
+      console.log(`  ${metric.category.padEnd(15)}: ${metric.errors} (${metric.retries} retried, ${metric.failures} given up)`);
+    });
+  }
+
+  if (failedLeases.length > 0) {
+    console.log(`Failed leases: ${failedLeases.length} (run plan again to queue them again)`);
+  }
+
+  console.log('=============================================');
+
+  return {
+    status: failedLeases.length > 0 ? 'partial' : 'ok',
+    data: { action: 'work', workerId, leasesDone, totalEvents, failedLeases, retryMetrics }
+  };
+}
+
+// Apply stored events to entries in block order, up to the extract checkpoint
+async function materialize(): Promise<CliResult> {
+  const extracted = await getCheckpoint('extract');
+  if (!extracted) {
+    console.log('No extracted blocks yet - run the workers first');
+    return { status: 'ok', data: { action: 'materialize', fromBlock: null, toBlock: null, totalEvents: 0 } };
+  }
+
+  const startBlock = await resolveStartBlock('materialize');
+  let fromBlock = startBlock;
+  let totalEvents = 0;
+  console.log(`Materializing entries from block ${fromBlock.toLocaleString()} to ${extracted.lastBlock.toLocaleString()}...`);
+
+  while (fromBlock <= extracted.lastBlock) {
+    const toBlock = Math.min(fromBlock + MATERIALIZE_BATCH_BLOCKS - 1, extracted.lastBlock);
+
+    const events = await getEventsInBlockRange(fromBlock, toBlock);
+    await processEventsToEntries(events);
+    totalEvents += events.length;
+
+    await saveCheckpoint('materialize', fromBlock, toBlock);
+    // Events and entries are now complete up to toBlock, which is where index-events resumes
+    await saveCheckpoint('index', fromBlock, toBlock);
+
+    if (events.length > 0) {
+      console.log(`Blocks ${fromBlock.toLocaleString()}-${toBlock.toLocaleString()}: applied ${events.length} events`);
+    }
+    fromBlock = toBlock + 1;
+  }
+
+  console.log(`MATERIALIZE COMPLETE: Applied ${totalEvents} events`);
+
+  return { status: 'ok', data: { action: 'materialize', fromBlock: startBlock, toBlock: extracted.lastBlock, totalEvents } };
+}
+
+// Print lease counts as a table
+function printSummary(summary: LeaseSummary) {
+  console.log(`\n=== LEASES ===`);
+  console.log(`Planned range: ${summary.fromBlock?.toLocaleString() ?? '-'} to ${summary.toBlock?.toLocaleString() ?? '-'}`);
+  console.log("╔════════════╦════════════╗");
+  console.log("║ STATUS     ║    COUNT   ║");
+  console.log("╠════════════╬════════════╣");
+
+  (['pending', 'claimed', 'expired', 'done', 'failed', 'total'] as const).forEach(status => {
+    console.log(`║ ${status.padEnd(10)} ║ ${String(summary[status]).padStart(10)} ║`);
+  });
+
+  console.log("╚════════════╩════════════╝");
+}
+
+// Show lease counts, checkpoints and failed leases
+async function status(): Promise<CliResult> {
+  const summary = await getLeaseSummary();
+  printSummary(summary);
+
+  console.log(`\n=== CHECKPOINTS ===`);
+  const checkpoints: Record<string, number | null> = {};
+  for (const stage of ['extract', 'materialize', 'index'] as const) {
+    const checkpoint = await getCheckpoint(stage);
+    checkpoints[stage] = checkpoint?.lastBlock ?? null;
+    console.log(`${stage.padEnd(12)}: ${checkpoint ? `block ${checkpoint.lastBlock.toLocaleString()}` : 'none'}`);
+  }
+
+  const failed = await getLeases('failed');
+  if (failed.length > 0) {
+    console.log(`\n=== FAILED LEASES (run plan again to retry) ===`);
+    failed.forEach(lease => {
+      console.log(`${lease.fromBlock}-${lease.toBlock} after ${lease.attempts} attempts: ${lease.lastError || 'unknown error'}`);
+    });
+  }
+
+  return {
+    status: 'ok',
+    data: {
+      action: 'status',
+      leases: summary,
+      checkpoints,
+      failedLeases: failed.map(lease => ({ fromBlock: lease.fromBlock, toBlock: lease.toBlock, attempts: lease.attempts, error: lease.lastError ?? null }))
+    }
+  };
+}
+
+// Run the backfill when started directly (npm run backfill)
+if (isMainModule(import.meta.url)) {
+  runCommand(backfillCommand, process.argv.slice(2));
+}
@@ -0,0 +1,89 @@
+/**
+ * HyperMap Event Enrichment
+ * Usage: npm run hypermap -- enrich [--batch=200]
+ *    or: npm run enrich-events -- [--batch=200]
+ *
+ * Options:
+ *   --batch=<count>    Number of transactions looked up per batch (defaults to 200)
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Optional pipeline stage that adds transaction details to stored events: finds
+ * events without them (new events, or events re-ingested after a reorg), fetches
+ * the transaction and receipt of each of their transactions (batched and cached
+ * per transaction, see src/lib/services/enrichment.ts) and stores the sender
+ * (txFrom), the called address (txTo), gas used, effective gas price and receipt
+ * status on every event of the transaction. Run it after indexing, as often as needed.
+ * Exits with code 3 if some transactions could not be looked up.
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import { createProvider } from '../src/lib/services/events.js';
+import { enrichStoredEvents } from '../src/lib/services/enrichment.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { initMongoConnection } from '../src/lib/services/mongodb.js';
+import { runCommand, isMainModule, requireEnv, requireRpcUrls, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, EnrichmentResult } from '../src/types/index.js';
+
+export const enrichCommand: CliCommand = {
+  name: 'enrich',
+  script: 'enrich-events',
+  summary: 'Add transaction details (sender, gas, receipt status) to stored events',
+  options: [
+    { name: 'batch', type: 'number', value: '<count>', description: 'Number of transactions looked up per batch (defaults to 200)' }
+  ],
+  run: enrichEvents
+};
+
+// Main enrichment function
+async function enrichEvents(values: CliValues): Promise<CliResult> {
+  const batchSize = (values.batch as number | undefined) ?? 200;
+  if (batchSize < 1) {
+    throw usageError('--batch must be at least 1');
+  }
+
+  // Deployment to enrich (HYPERMAP_DEPLOYMENT, defaults to Base mainnet)
+  const deployment = getActiveDeployment();
+
+  // Check for required configuration
+  requireRpcUrls(deployment);
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  // Setup provider
+  const provider = createProvider();
+
+  console.log(`Starting event enrichment for ${deployment.name} (chain ${deployment.chainId})...`);
+  await initMongoConnection(mongoUri);
+
+  let result: EnrichmentResult;
+  try {
+    result = await enrichStoredEvents(provider, batchSize);
+  } finally {
+    await mongoose.disconnect();
+  }
+
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`ENRICHMENT COMPLETE: Updated ${result.updatedEvents} events in ${result.updatedTransactions} transactions`);
+  console.log(`${result.viaOtherContracts} transactions called the contract through another address (e.g. a TBA)`);
+  if (result.reverted > 0) {
+    console.log(`${result.reverted} transactions have a failed receipt status`);
+  }
+  if (result.failedTransactions > 0) {
+    console.log(`Could not get ${result.failedTransactions} transactions, run again later`);
+  }
+  console.log('=============================================');
+
+  return {
+    status: result.failedTransactions > 0 ? 'partial' : 'ok',
+    data: {
+      deployment: deployment.name,
+      chainId: deployment.chainId,
+      ...result
+    }
+  };
+}
+
+// Run the enrichment when started directly (npm run enrich-events)
+if (isMainModule(import.meta.url)) {
+  runCommand(enrichCommand, process.argv.slice(2));
+}
@@ -1,186 +1,138 @@
 /**
  * HyperMap Event Extractor
- * Usage: npm run extract-events -- --from=27270000 [--to=27280000]
+ * Usage: npm run hypermap -- extract [--from=27270000] [--to=27280000] [--logs=<path>] [--headers=<path>]
+ *    or: npm run extract-events -- [--from=27270000] [--to=27280000] [--logs=<path>] [--headers=<path>]
  * 
  * Options:
- *   --from=<block>     Starting block number (defaults to 27270000)
+ *   --from=<block>     Starting block number (defaults to the block after the 'extract' checkpoint,
+ *                      or 27270000 if there is no checkpoint yet)
  *   --to=<block>       Ending block number (defaults to 'latest')
+ *   --logs=<path>      Read logs from exported NDJSON/JSON files (a file or a directory)
+ *                      instead of the RPC; --to defaults to the newest exported block
+ *   --headers=<path>   Block header files with the timestamps of the exported logs
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
  * 
- * Scans for events from the HyperMap contract on Base within the specified block range
+ * Scans for events from the HyperMap contract of the active deployment within the specified block range
  * and stores ONLY the events in the database (no entry processing).
- * Uses event ID as MongoDB _id for upsert support.
+ * Events are upserted by chain, transaction hash and log index, so extracting a range again
+ * does not duplicate them.
+ * The 'extract' checkpoint is advanced after every stored chunk, and reorganized
+ * recent blocks are rolled back before extraction starts.
+ *
+ * With --logs no RPC requests are made (see docs/SCRIPTS.md for the file formats):
+ * the reorg check and block hash tracking are skipped, and timestamps missing from
+ * the files are looked up in the blockheaders collection.
+ *
+ * Exits with code 3 if any block range had to be given up on (it is recorded as a
+ * coverage gap, see npm run gaps).
  */
 
 // Import libraries
-import { ethers } from 'ethers';
-import { MongoClient } from 'mongodb';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
+import mongoose from 'mongoose';
 import {
   createProvider,
   createContract,
   parseLogsToEvents,
-  CONTRACT_ADDRESS
+  setBlockHeaderStore,
+  setRawLogArchive,
+  setQuarantineStore
 } from '../src/lib/services/events.js';
-import { HypermapEvent } from '../src/types/index.js';
-
-// Get current directory
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const rootDir = path.resolve(__dirname, '..');
-
-// Load .env.local only - simple direct approach
-const envLocalPath = path.resolve(rootDir, '.env.local');
-const envContent = fs.readFileSync(envLocalPath, 'utf8');
-const envLines = envContent.split('\n');
-
-for (const line of envLines) {
-  if (!line || line.startsWith('#')) continue;
-  
-  const [key, ...valueParts] = line.split('=');
-  if (key && valueParts.length > 0) {
-    const value = valueParts.join('=').trim();
-    process.env[key.trim()] = value;
-  }
-}
-
-console.log(`Loaded environment from: ${envLocalPath}`);
-console.log('BASE_RPC_URL:', process.env.BASE_RPC_URL);
-
-// Check for required environment variables
-if (!process.env.BASE_RPC_URL) {
-  console.error('Error: BASE_RPC_URL is not defined in .env or .env.local file');
-  process.exit(1);
-}
-
-if (!process.env.MONGODB_URI) {
-  console.error('Error: MONGODB_URI is not defined in .env or .env.local file');
-  process.exit(1);
-}
-
-// Constants
-const DEFAULT_START_BLOCK = 27270000; // First block of HyperMap deployment
-
-// Parse command line arguments
-const args = process.argv.slice(2);
-let fromBlock = DEFAULT_START_BLOCK;
-let toBlock: number | 'latest' = 'latest';
+import { getActiveDeployment, getDeploymentRpcUrls } from '../src/lib/services/deployments.js';
+import { createRpcLogSource, createFileLogSource } from '../src/lib/services/log-source.js';
+import { createRangePlanner } from '../src/lib/services/ranges.js';
+import { getRetryPolicy, getRetryDecision, getRetryMetrics, sleep } from '../src/lib/services/retry.js';
+import { getConfiguredRawLogArchive } from '../src/lib/services/archive.js';
+import {
+  initMongoConnection,
+  storeEvents,
+  resolveStartBlock,
+  saveCheckpoint,
+  recordCoverage,
+  recordCoverageFailure,
+  mongoBlockHeaderStore,
+  mongoQuarantineStore
+} from '../src/lib/services/mongodb.js';
+import { checkForReorg, recordChunkBlocks } from '../src/lib/services/reorgs.js';
+import { promoteFinalizedEvents } from '../src/lib/services/finality.js';
+import { runCommand, isMainModule, requireEnv, requireRpcUrls } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, HypermapEvent, LogSource } from '../src/types/index.js';
 
 // Always extract all event types
 const eventTypes = ['Mint', 'Fact', 'Note', 'Gene', 'Transfer', 'Zero', 'Upgraded'];
-console.log("Extracting ALL event types");
-
-// Parse arguments
-args.forEach(arg => {
-  if (arg.startsWith('--from=')) {
-    fromBlock = parseInt(arg.split('=')[1]);
-  } else if (arg.startsWith('--to=')) {
-    const value = arg.split('=')[1];
-    toBlock = value === 'latest' ? 'latest' : parseInt(value);
-  }
-});
 
-// Setup provider and contract
-const provider = createProvider(process.env.BASE_RPC_URL as string);
-const contract = createContract(provider);
+export const extractCommand: CliCommand = {
+  name: 'extract',
+  script: 'extract-events',
+  summary: 'Store the events of a block range without updating entries',
+  options: [
+    { name: 'from', type: 'number', value: '<block>', description: "Starting block number (defaults to the block after the 'extract' checkpoint)" },
+    { name: 'to', type: 'block', value: '<block>', description: "Ending block number (defaults to 'latest')" },
+    { name: 'logs', type: 'string', value: '<path>', description: 'Read logs from exported NDJSON/JSON files instead of the RPC' },
+    { name: 'headers', type: 'string', value: '<path>', description: 'Block header files with the timestamps of the exported logs' }
+  ],
+  run: extractEvents
+};
 
-// Generate a unique ID for each event based on its properties
-function generateEventId(event: HypermapEvent): string {
-  return `${event.transactionHash}_${event.logIndex}`;
-}
-
-// Store events in MongoDB with _id as the event-specific ID
-// Using native MongoDB driver to avoid Mongoose issues
-async function storeEvents(events: HypermapEvent[], collection: any): Promise<void> {
-  if (!events.length) return;
+// Main extractor function
+async function extractEvents(options: CliValues): Promise<CliResult> {
+  const requestedFromBlock = options.from as number | undefined; // Resolved from the checkpoint when not given
+  let toBlock = (options.to as number | 'latest' | undefined) ?? 'latest';
+  const logsPath = options.logs as string | undefined;       // Exported logs to read instead of the RPC
+  const headersPath = options.headers as string | undefined; // Exported block headers for timestamps
   
-  try {
-    // Prepare events with _id field set to event-specific ID
-    const eventsWithId = events.map(event => {
-      const eventWithId = {
-        ...event,
-        _id: generateEventId(event)
-      };
-      return eventWithId;
-    });
-    
-    // Use bulkWrite with updateOne operations (upsert)
-    const operations = eventsWithId.map(event => ({
-      updateOne: {
-        filter: { _id: event._id },
-        update: { $set: event },
-        upsert: true
-      }
-    }));
-
-    console.log(`Preparing to store ${operations.length} events...`);
-    
-    // Log the first operation for debugging
-    if (operations.length > 0) {
-      console.log('Sample operation:', JSON.stringify(operations[0]).substring(0, 200) + '...');
-    }
-    
-    const result = await collection.bulkWrite(operations, { ordered: false });
-    
-    console.log(`MongoDB result: ${JSON.stringify(result)}`);
-    console.log(`Stored ${result.upsertedCount} new events, updated ${result.modifiedCount} existing events`);
-  } catch (error: any) {
-    // Handle duplicate key errors
-    if (error.code === 11000) {
-      console.log(`Some events already exist in database, skipped duplicates`);
-    } else {
-      console.error(`Error storing events:`, error);
-    }
+  // Deployment to index (HYPERMAP_DEPLOYMENT, defaults to Base mainnet)
+  const deployment = getActiveDeployment();
+  
+  // Check for required configuration (no RPC needed when reading exported logs)
+  if (!logsPath) {
+    requireRpcUrls(deployment);
   }
-}
-
-// Main extractor function
-async function extractEvents() {
-  console.log(`Starting event extraction from block ${fromBlock} to ${toBlock}`);
-  console.log(`Extracting events: ${eventTypes.join(', ')}`);
-  console.log(`Contract address: ${CONTRACT_ADDRESS}`);
-  console.log(`MongoDB URI: ${process.env.MONGODB_URI}`);
-  console.log(`RPC URL: ${process.env.BASE_RPC_URL}`);
-  console.log('----------------------------------------');
+  const mongoUri = requireEnv('MONGODB_URI');
   
-  // Connect to MongoDB using native driver
-  let client: MongoClient | null = null;
-  let db: any = null;
-  let collection: any = null;
+  // Setup log source, provider and contract (no provider when reading exported logs)
+  const source: LogSource = logsPath
+    ? createFileLogSource(logsPath, headersPath)
+    : createRpcLogSource(createProvider());
+  const provider = source.provider;
+  const contract = createContract(provider);
   
-  try {
-    console.log(`Connecting to MongoDB at ${process.env.MONGODB_URI}`);
-    client = new MongoClient(process.env.MONGODB_URI as string);
-    await client.connect();
-    console.log('Connected to MongoDB successfully');
-    
-    db = client.db(); // Get default database from connection string
-    
-    // Ensure the collection exists and has indexes
-    collection = db.collection('hypermapevents');
-    
-    // Ensure indexes for efficient querying
-    await collection.createIndex({ eventType: 1 });
-    await collection.createIndex({ blockNumber: 1 });
-    await collection.createIndex({ transactionHash: 1 });
-    
-    // Test connection by checking collections
-    const collections = await db.listCollections().toArray();
-    console.log(`Available collections: ${collections.map((c: any) => c.name).join(', ')}`);
-  } catch (error) {
-    console.error('Error connecting to MongoDB:', error);
-    process.exit(1);
+  // Events and checkpoints are stored through the shared MongoDB service
+  console.log(`Connecting to MongoDB at ${mongoUri}`);
+  await initMongoConnection(mongoUri);
+  
+  // Archive raw logs when RAW_LOG_ARCHIVE is set (before the reorg check, which trims the archive)
+  setRawLogArchive(getConfiguredRawLogArchive());
+  
+  // Roll back reorganized blocks first, since that may rewind the checkpoint
+  const headBlock = await source.getHeadBlock();
+  if (provider) {
+    await checkForReorg(provider, headBlock);
   }
   
+  // Reuse and persist block timestamps through the blockheaders collection
+  setBlockHeaderStore(mongoBlockHeaderStore);
+  // Quarantine logs that fail to decode
+  setQuarantineStore(mongoQuarantineStore);
+  
+  // Resume from the checkpoint unless a start block was given
+  const fromBlock = requestedFromBlock ?? await resolveStartBlock('extract');
+  
+  console.log(`Starting event extraction from block ${fromBlock} to ${toBlock}${requestedFromBlock === undefined ? ' (resumed from checkpoint)' : ''}`);
+  console.log(`Extracting events: ${eventTypes.join(', ')}`);
+  console.log(`Deployment: ${deployment.name} (chain ${deployment.chainId})`);
+  console.log(`Contract address: ${deployment.contractAddress}`);
+  console.log(`MongoDB URI: ${mongoUri}`);
+  console.log(provider ? `RPC URLs: ${getDeploymentRpcUrls(deployment)}` : `Log source: ${source.name}`);
+  console.log('----------------------------------------');
+  
   let eventCounts: Record<string, number> = {};
   let totalEvents = 0;
+  const failedRanges: { fromBlock: number; toBlock: number; error: string }[] = [];
   eventTypes.forEach(type => { eventCounts[type] = 0 });
   
   if (toBlock === 'latest') {
-    const latestBlock = await provider.getBlockNumber();
-    console.log(`Latest block: ${latestBlock}`);
-    toBlock = latestBlock;
+    console.log(`Latest block: ${headBlock}`);
+    toBlock = headBlock;
   }
   
   // Calculate the number of blocks
@@ -188,10 +140,9 @@ async function extractEvents() {
   console.log(`Scanning ${blockCount.toLocaleString()} blocks`);
   
   // Define chunk size and rate limiting parameters
-  const CHUNK_SIZE = 20000; // Process 20k blocks at a time
+  const planner = createRangePlanner(); // Chunk sizes adapt to the RPC's range limits
   const DEFAULT_DELAY = 2000; // Increase default delay to 2 seconds
-  const MAX_RETRIES = 5;
-  const BASE_RETRY_DELAY = 3000; // 3 seconds for exponential backoff
+  const retryPolicy = getRetryPolicy(); // Backoff and attempts for rate limits and transient errors
   
   // Run simple periodic status updates
   const statusInterval = setInterval(() => {
@@ -205,36 +156,28 @@ async function extractEvents() {
   let lastProcessedBlock = fromBlock;
   
   try {
-    // Process in chunks of blocks
-    for (let startBlock = fromBlock; startBlock <= (toBlock as number); startBlock += CHUNK_SIZE) {
-      const endBlock = Math.min(startBlock + CHUNK_SIZE - 1, toBlock as number);
+    // Process in chunks of blocks, sized by the range planner
+    let startBlock = fromBlock;
+    while (startBlock <= (toBlock as number)) {
+      let endBlock = planner.nextEnd(startBlock, toBlock as number);
       let retryCount = 0;
       let success = false;
       
       console.log(`\nScanning blocks ${startBlock.toLocaleString()} to ${endBlock.toLocaleString()}...`);
       
-      while (!success && retryCount <= MAX_RETRIES) {
+      while (!success && retryCount <= retryPolicy.maxRetries) {
         try {
           // Scan for all event types at once
           let totalChunkEvents = 0;
           let allProcessedEvents: HypermapEvent[] = [];
           
           // Make a single query for all events from our contract in this block range
-          try {
-            // Query with filter by contract address
-            const allEventsFilter = { address: CONTRACT_ADDRESS };
-            const events = await provider.getLogs({
-              ...allEventsFilter,
-              fromBlock: startBlock,
-              toBlock: endBlock
-            });
-            
-            // Parse logs to structured events
-            const processedEvents = await parseLogsToEvents(events, contract, provider);
-            allProcessedEvents.push(...processedEvents);
-          } catch (queryError) {
-            console.error(`    Error querying events:`, (queryError as Error).message);
-          }
+          // (errors propagate to the retry handler so a failed chunk is never checkpointed)
+          const events = await source.getLogs(startBlock, endBlock);
+          
+          // Parse logs to structured events
+          const processedEvents = await parseLogsToEvents(events, contract, provider);
+          allProcessedEvents.push(...processedEvents);
           
           // Count events by type
           for (const processedEvent of allProcessedEvents) {
@@ -247,11 +190,24 @@ async function extractEvents() {
           // Store events in database
           if (allProcessedEvents.length > 0) {
             console.log(`Storing ${allProcessedEvents.length} events in database...`);
-            await storeEvents(allProcessedEvents, collection);
+            await storeEvents(allProcessedEvents);
           } else {
             console.log('No events to store in this chunk');
           }
           
+          // Remember recent block hashes, then advance the checkpoint now that the chunk is fully stored
+          if (provider) {
+            await recordChunkBlocks(provider, allProcessedEvents, endBlock, headBlock);
+          }
+          const advanced = await saveCheckpoint('extract', startBlock, endBlock);
+          if (!advanced) {
+            console.warn(`  Checkpoint not advanced: blocks before ${startBlock.toLocaleString()} have not been extracted`);
+          }
+          await recordCoverage('extract', startBlock, endBlock);
+          
+          // Promote the events of blocks that are final by now
+          await promoteFinalizedEvents(provider, headBlock);
+          
           // Update last processed block for progress tracking
           lastProcessedBlock = endBlock;
           
@@ -287,50 +243,55 @@ async function extractEvents() {
           }
           
           console.log("╚════════════╩════════════╩════════════╝");
+          planner.recordSuccess();
           success = true;
         } catch (error) {
+          // Shrink the range and retry right away if the RPC rejected its size
+          if (planner.recordRangeError(error)) {
+            endBlock = planner.nextEnd(startBlock, toBlock as number);
+            console.log(`  Range too large, retrying blocks ${startBlock.toLocaleString()} to ${endBlock.toLocaleString()} (${planner.chunkSize} blocks)...`);
+            continue;
+          }
+          
           const errorMessage = (error as Error).toString();
-          // Rate limit detection
-          const isTooManyRequests = 
-            errorMessage.includes("Too Many Requests") || 
-            errorMessage.includes("rate limit") || 
-            errorMessage.includes("429") ||
-            errorMessage.includes("exceeded") ||
-            ((error as any).code === "SERVER_ERROR" && errorMessage.includes("limit"));
+          const decision = getRetryDecision(error, retryCount + 1, retryPolicy);
           
           // Show error details
           console.log(`\n===== ERROR DETAILS =====`);
           console.log(`Error type: ${(error as Error).constructor.name}`);
           console.log(`Error code: ${(error as any).code || 'none'}`);
           console.log(`Error message: ${errorMessage}`);
-          console.log(`Rate limit detected: ${isTooManyRequests}`);
+          console.log(`Error category: ${decision.category}`);
           console.log(`========================\n`);
           
-          if (isTooManyRequests && retryCount < MAX_RETRIES) {
+          if (decision.retry) {
             retryCount++;
-            const delay = BASE_RETRY_DELAY * Math.pow(2, retryCount) + Math.random() * 1000;
-            console.log(`  Rate limited. Waiting ${Math.round(delay/1000)} seconds before retry #${retryCount}...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            console.log(`  ${decision.category} error. Waiting ${Math.round(decision.delayMs/1000)} seconds before retry #${retryCount}...`);
+            await sleep(decision.delayMs);
           } else {
             console.error(`  Error scanning blocks ${startBlock} to ${endBlock}:`, errorMessage);
-            // Move on after MAX_RETRIES
+            // Record the range as a coverage gap and move on after the last retry or a permanent error
+            await recordCoverageFailure('extract', startBlock, endBlock, errorMessage);
+            failedRanges.push({ fromBlock: startBlock, toBlock: endBlock, error: errorMessage });
             success = true;
           }
         }
       }
       
-      // Add delay between chunks
-      await new Promise(resolve => setTimeout(resolve, DEFAULT_DELAY));
+      // Add delay between chunks (only the RPC needs it)
+      if (provider) {
+        await new Promise(resolve => setTimeout(resolve, DEFAULT_DELAY));
+      }
+      
+      startBlock = endBlock + 1;
     }
   } finally {
     // Make sure we clear the interval even if there's an error
     clearInterval(statusInterval);
     
     // Close MongoDB connection
-    if (client) {
-      await client.close();
-      console.log('Disconnected from MongoDB');
-    }
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
   }
   
   console.log('\n=============== FINAL RESULTS ===============');
@@ -352,13 +313,38 @@ async function extractEvents() {
     console.log('No events found.');
   }
   
+  // RPC errors by category for this run
+  const retryMetrics = getRetryMetrics().filter(metric => metric.errors > 0);
+  if (retryMetrics.length > 0) {
+    console.log('RPC errors:');
+    retryMetrics.forEach(metric => {
+      console.log(`  ${metric.category.padEnd(15)}: ${metric.errors} (${metric.retries} retried, ${metric.failures} given up)`);
+    });
+  }
+  
+  if (failedRanges.length > 0) {
+    console.log(`Failed block ranges: ${failedRanges.length} (recorded as coverage gaps, run: npm run gaps)`);
+    failedRanges.forEach(range => console.log(`  ${range.fromBlock}-${range.toBlock}: ${range.error}`));
+  }
+  
   console.log('=============================================');
+  
+  return {
+    status: failedRanges.length > 0 ? 'partial' : 'ok',
+    data: {
+      deployment: deployment.name,
+      chainId: deployment.chainId,
+      fromBlock,
+      toBlock,
+      totalEvents,
+      eventCounts,
+      failedRanges,
+      retryMetrics
+    }
+  };
 }
 
-// Run the extractor
-extractEvents()
-  .then(() => process.exit(0))
-  .catch(error => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
\ No newline at end of file
+// Run the extractor when started directly (npm run extract-events)
+if (isMainModule(import.meta.url)) {
+  runCommand(extractCommand, process.argv.slice(2));
+}
\ No newline at end of file
@@ -0,0 +1,251 @@
+/**
+ * HyperMap Coverage Gaps
+ * Usage: npm run hypermap -- gaps [--from=27270000] [--to=28000000] [--stage=extract|index] [--fill]
+ *    or: npm run gaps -- [--from=27270000] [--to=28000000] [--stage=extract|index] [--fill]
+ *
+ * Options:
+ *   --from=<block>     First block to check (defaults to the deployment block)
+ *   --to=<block>       Last block to check (defaults to the chain head)
+ *   --stage=<stage>    Only count ranges scanned by this stage as covered
+ *                      (defaults to both 'extract' and 'index')
+ *   --fill             Scan every gap once, then list the gaps that are left
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Lists the block ranges that the coverage ledger has no completed scan for, and the
+ * ranges whose scan was given up after retries. With --fill, each gap is scanned in
+ * adaptive chunks: events are stored and, for the 'index' stage (the default), the
+ * entries they touch are rebuilt from all of their events in chain order, since the
+ * gap lies behind blocks that were already applied. Filled ranges are recorded in
+ * the ledger and advance the stage's checkpoint when they continue it.
+ *
+ * With --fill, exits with code 3 if any gap could not be filled.
+ */
+
+// Import libraries
+import { ethers } from 'ethers';
+import mongoose from 'mongoose';
+import {
+  createProvider,
+  createContract,
+  parseLogsToEvents,
+  setBlockHeaderStore,
+  setRawLogArchive,
+  setQuarantineStore
+} from '../src/lib/services/events.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { createRangePlanner } from '../src/lib/services/ranges.js';
+import { withRetry, getRetryMetrics, getErrorMessage, RetryDecision } from '../src/lib/services/retry.js';
+import { getConfiguredRawLogArchive } from '../src/lib/services/archive.js';
+import {
+  initMongoConnection,
+  storeEvents,
+  rederiveEntries,
+  getCheckpoint,
+  saveCheckpoint,
+  recordCoverage,
+  recordCoverageFailure,
+  findCoverageGaps,
+  mongoBlockHeaderStore,
+  mongoQuarantineStore
+} from '../src/lib/services/mongodb.js';
+import { runCommand, isMainModule, requireEnv, requireRpcUrls, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, CoverageGap, HypermapEvent, PipelineStage } from '../src/types/index.js';
+
+export const gapsCommand: CliCommand = {
+  name: 'gaps',
+  script: 'gaps',
+  summary: 'List the block ranges without a completed scan, and optionally fill them',
+  options: [
+    { name: 'from', type: 'number', value: '<block>', description: 'First block to check (defaults to the deployment block)' },
+    { name: 'to', type: 'number', value: '<block>', description: 'Last block to check (defaults to the chain head)' },
+    { name: 'stage', type: 'string', value: '<extract|index>', description: "Only count ranges scanned by this stage as covered (defaults to both)" },
+    { name: 'fill', type: 'boolean', description: 'Scan every gap once, then list the gaps that are left' }
+  ],
+  run: checkGaps
+};
+
+// Scan a gap in chunks, recording each chunk in the coverage ledger
+async function fillGap(
+  gap: CoverageGap,
+  fillStage: PipelineStage,
+  provider: ethers.JsonRpcProvider,
+  contract: ethers.Contract,
+  planner: ReturnType<typeof createRangePlanner>
+): Promise<{ events: number; entries: number; failed: boolean }> {
+  const deployment = getActiveDeployment();
+  let eventCount = 0;
+  let entryCount = 0;
+  let startBlock = gap.fromBlock;
+
+  while (startBlock <= gap.toBlock) {
+    const endBlock = planner.nextEnd(startBlock, gap.toBlock);
+    let events: HypermapEvent[];
+
+    try {
+      events = await withRetry(async () => {
+        const logs = await provider.getLogs({
+          address: deployment.contractAddress,
+          fromBlock: startBlock,
+          toBlock: endBlock
+        });
+        return parseLogsToEvents(logs, contract, provider);
+      }, {
+        onRetry: (_error: unknown, decision: RetryDecision, retry: number) => {
+          console.log(`  ${decision.category} error on blocks ${startBlock}-${endBlock}, retry #${retry} in ${Math.round(decision.delayMs / 1000)}s...`);
+        }
+      });
+    } catch (error) {
+      // Shrink the range and retry right away if the RPC rejected its size
+      if (planner.recordRangeError(error)) continue;
+
+      // Leave the rest of the gap for the next run
+      const errorMessage = getErrorMessage(error);
+      console.error(`  Error scanning blocks ${startBlock} to ${endBlock}: ${errorMessage}`);
+      await recordCoverageFailure(fillStage, startBlock, endBlock, errorMessage);
+      return { events: eventCount, entries: entryCount, failed: true };
+    }
+
+    planner.recordSuccess();
+    await storeEvents(events);
+    if (fillStage === 'index') {
+      // Blocks after the gap were applied already, so rebuild the touched entries in chain order
+      entryCount += (await rederiveEntries(events)).length;
+    }
+
+    await recordCoverage(fillStage, startBlock, endBlock);
+    if (await getCheckpoint(fillStage)) {
+      await saveCheckpoint(fillStage, startBlock, endBlock);
+    }
+
+    eventCount += events.length;
+    if (events.length > 0) {
+      console.log(`  Blocks ${startBlock.toLocaleString()}-${endBlock.toLocaleString()}: ${events.length} events`);
+    }
+    startBlock = endBlock + 1;
+  }
+
+  return { events: eventCount, entries: entryCount, failed: false };
+}
+
+// Print gaps as a table
+function printGaps(gaps: CoverageGap[], fromBlock: number, toBlock: number, stage: PipelineStage | undefined) {
+  const missingBlocks = gaps.reduce((sum, gap) => sum + gap.toBlock - gap.fromBlock + 1, 0);
+
+  console.log(`\n=== COVERAGE GAPS (${stage ?? 'extract or index'}) ===`);
+  console.log(`Checked range: ${fromBlock.toLocaleString()} to ${toBlock.toLocaleString()}`);
+  console.log(`Gaps: ${gaps.length} (${missingBlocks.toLocaleString()} blocks)`);
+
+  if (gaps.length === 0) return;
+
+  console.log("╔════════════╦════════════╦════════════╦═══════════╗");
+  console.log("║ FROM       ║ TO         ║     BLOCKS ║ REASON    ║");
+  console.log("╠════════════╬════════════╬════════════╬═══════════╣");
+
+  gaps.forEach(gap => {
+    const blocks = gap.toBlock - gap.fromBlock + 1;
+    console.log(`║ ${String(gap.fromBlock).padEnd(10)} ║ ${String(gap.toBlock).padEnd(10)} ║ ${String(blocks).padStart(10)} ║ ${gap.reason.padEnd(9)} ║`);
+  });
+
+  console.log("╚════════════╩════════════╩════════════╩═══════════╝");
+
+  gaps.filter(gap => gap.error).forEach(gap => {
+    console.log(`${gap.fromBlock}-${gap.toBlock}: ${gap.error}`);
+  });
+}
+
+// Main gaps function
+async function checkGaps(values: CliValues): Promise<CliResult> {
+  const deployment = getActiveDeployment();
+  const fromBlock = (values.from as number | undefined) ?? deployment.deploymentBlock;
+  const requestedToBlock = values.to as number | undefined;
+  const stage = values.stage as PipelineStage | undefined;
+  const fill = values.fill === true;
+
+  if (stage && stage !== 'extract' && stage !== 'index') {
+    throw usageError(`--stage must be 'extract' or 'index' (got '${stage}')`);
+  }
+
+  // Check for required configuration
+  requireRpcUrls(deployment);
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  // Setup provider and contract
+  const provider = createProvider();
+  const contract = createContract(provider);
+
+  await initMongoConnection(mongoUri);
+
+  // Reuse and persist block timestamps through the blockheaders collection
+  setBlockHeaderStore(mongoBlockHeaderStore);
+  // Quarantine logs that fail to decode
+  setQuarantineStore(mongoQuarantineStore);
+  // Archive raw logs when RAW_LOG_ARCHIVE is set
+  setRawLogArchive(getConfiguredRawLogArchive());
+
+  try {
+    const toBlock = requestedToBlock ?? await provider.getBlockNumber();
+    const stages: PipelineStage[] = stage ? [stage] : ['extract', 'index'];
+
+    let gaps = await findCoverageGaps(fromBlock, toBlock, stages);
+    printGaps(gaps, fromBlock, toBlock, stage);
+
+    if (!fill || gaps.length === 0) {
+      return { status: 'ok', data: { deployment: deployment.name, chainId: deployment.chainId, fromBlock, toBlock, stages, gaps } };
+    }
+
+    // Without a stage, fill gaps completely: events and entries
+    const fillStage: PipelineStage = stage ?? 'index';
+    const planner = createRangePlanner(); // Chunk sizes adapt to the RPC's range limits
+    let totalEvents = 0;
+    let totalEntries = 0;
+    let failedGaps = 0;
+
+    for (const gap of gaps) {
+      console.log(`\nFilling blocks ${gap.fromBlock.toLocaleString()}-${gap.toBlock.toLocaleString()} (${fillStage})...`);
+      const result = await fillGap(gap, fillStage, provider, contract, planner);
+      totalEvents += result.events;
+      totalEntries += result.entries;
+      if (result.failed) failedGaps++;
+    }
+
+    console.log('\n=============== FINAL RESULTS ===============');
+    console.log(`FILL COMPLETE: Stored ${totalEvents} events${fillStage === 'index' ? `, rebuilt ${totalEntries} entries` : ''}`);
+    if (failedGaps > 0) {
+      console.log(`Could not fill ${failedGaps} gaps, run again later`);
+    }
+
+    // RPC errors by category for this run
+    const retryMetrics = getRetryMetrics().filter(metric => metric.errors > 0);
+    if (retryMetrics.length > 0) {
+      console.log('RPC errors:');
+      retryMetrics.forEach(metric => {
+        console.log(`  ${metric.category.padEnd(15)}: ${metric.errors} (${metric.retries} retried, ${metric.failures} given up)`);
+      });
+    }
+    console.log('=============================================');
+
+    const filledGaps = gaps.length;
+    gaps = await findCoverageGaps(fromBlock, toBlock, stages);
+    printGaps(gaps, fromBlock, toBlock, stage);
+
+    return {
+      status: failedGaps > 0 ? 'partial' : 'ok',
+      data: {
+        deployment: deployment.name,
+        chainId: deployment.chainId,
+        fromBlock,
+        toBlock,
+        stages,
+        fill: { stage: fillStage, gaps: filledGaps, failedGaps, totalEvents, totalEntries, retryMetrics },
+        gaps
+      }
+    };
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the gap check when started directly (npm run gaps)
+if (isMainModule(import.meta.url)) {
+  runCommand(gapsCommand, process.argv.slice(2));
+}
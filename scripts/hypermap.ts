@@ -0,0 +1,77 @@
+/**
+ * HyperMap CLI
+ * Usage: npm run hypermap -- <command> [options]
+ *
+ * Commands:
+ *   scan                  Print the events of a block range without storing them (scripts/scan-events.ts)
+ *   extract               Store the events of a block range without updating entries (scripts/extract-events.ts)
+ *   index                 Store the events of a block range and apply them to entries (scripts/index-events.ts)
+ *   status                Show what is stored for the deployment and probe its RPC endpoints (scripts/status.ts)
+ *   enrich                Add transaction details to stored events (scripts/enrich-events.ts)
+ *   backfill-timestamps   Look up the missing timestamps of stored events (scripts/backfill-timestamps.ts)
+ *   backfill              Backfill history with parallel workers: plan, work, materialize, status (scripts/backfill.ts)
+ *   gaps                  List and fill the block ranges without a completed scan (scripts/gaps.ts)
+ *   replay                Decode the archived raw logs again and replace the stored events (scripts/replay.ts)
+ *   quarantine            Show or retry the logs that failed to decode (scripts/quarantine.ts)
+ *   record-fixture        Record a block range into a fixture for the mock RPC server (scripts/record-fixture.ts)
+ *   mock-rpc              Serve a fixture as a JSON-RPC endpoint with injectable faults (scripts/mock-rpc.ts)
+ *   sanity-check          Run the ingestion end to end against a fixture (scripts/sanity-check.ts)
+ *   reconcile-owners      Recompute entry owners and ownership history from the stored Transfers (scripts/reconcile-owners.ts)
+ *   anomalies             List the Fact events that tried to set an already set fact (scripts/anomalies.ts)
+ *   migrate-chain-ids     Tag events and entries stored without a chain id (scripts/migrate-chain-ids.ts)
+ *   migrate-full-names    Resolve placeholder entries and name every entry (scripts/migrate-full-names.ts)
+ *   migrate-note-history  Record note revisions from the stored Note events (scripts/migrate-note-history.ts)
+ *   migrate-label-keys    Rewrite entry facts and notes with encoded labels (scripts/migrate-label-keys.ts)
+ *
+ * Global options:
+ *   --json                          Print the result as JSON on stdout (progress goes to stderr)
+ *   --config=<file>                 JSON config file with environment variables
+ *   --deployment=<name|chainId>     Deployment to use (overrides HYPERMAP_DEPLOYMENT)
+ *   --help, -h                      Show the options of a command
+ *
+ * Configuration precedence, exit codes and how commands are defined are described
+ * in scripts/lib/cli.ts; new commands are added to the list below.
+ */
+
+import { runCli } from './lib/cli.js';
+import { scanCommand } from './scan-events.js';
+import { extractCommand } from './extract-events.js';
+import { indexCommand } from './index-events.js';
+import { statusCommand } from './status.js';
+import { enrichCommand } from './enrich-events.js';
+import { backfillTimestampsCommand } from './backfill-timestamps.js';
+import { backfillCommand } from './backfill.js';
+import { gapsCommand } from './gaps.js';
+import { replayCommand } from './replay.js';
+import { quarantineCommand } from './quarantine.js';
+import { recordFixtureCommand } from './record-fixture.js';
+import { mockRpcCommand } from './mock-rpc.js';
+import { sanityCheckCommand } from './sanity-check.js';
+import { reconcileOwnersCommand } from './reconcile-owners.js';
+import { anomaliesCommand } from './anomalies.js';
+import { migrateChainIdsCommand } from './migrate-chain-ids.js';
+import { migrateFullNamesCommand } from './migrate-full-names.js';
+import { migrateNoteHistoryCommand } from './migrate-note-history.js';
+import { migrateLabelKeysCommand } from './migrate-label-keys.js';
+
+runCli([
+  scanCommand,
+  extractCommand,
+  indexCommand,
+  statusCommand,
+  enrichCommand,
+  backfillTimestampsCommand,
+  backfillCommand,
+  gapsCommand,
+  replayCommand,
+  quarantineCommand,
+  recordFixtureCommand,
+  mockRpcCommand,
+  sanityCheckCommand,
+  reconcileOwnersCommand,
+  anomaliesCommand,
+  migrateChainIdsCommand,
+  migrateFullNamesCommand,
+  migrateNoteHistoryCommand,
+  migrateLabelKeysCommand
+], process.argv.slice(2));
@@ -1,99 +1,105 @@
 /**
  * HyperMap Event Indexer
- * Usage: npm run index-events -- --from=27270000 [--to=27280000] [--print]
+ * Usage: npm run hypermap -- index [--from=27270000] [--to=27280000] [--print] [--follow] [--enrich] [--logs=<path>] [--headers=<path>]
+ *    or: npm run index-events -- [--from=27270000] [--to=27280000] [--print] [--follow] [--enrich] [--logs=<path>] [--headers=<path>]
  * 
  * Options:
- *   --from=<block>     Starting block number (defaults to 27270000)
+ *   --from=<block>     Starting block number (defaults to the block after the 'index' checkpoint,
+ *                      or 27270000 if there is no checkpoint yet)
  *   --to=<block>       Ending block number (defaults to 'latest')
  *   --print            Only print events, don't store in database
+ *   --follow           Keep indexing new blocks after reaching the chain head (until Ctrl+C)
+ *   --enrich           Add transaction details to the stored events after indexing
+ *                      (and after every new head with --follow), like npm run enrich-events
+ *   --logs=<path>      Read logs from exported NDJSON/JSON files (a file or a directory)
+ *                      instead of the RPC; --to defaults to the newest exported block
+ *   --headers=<path>   Block header files with the timestamps of the exported logs
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
  * 
- * Scans for events from the HyperMap contract on Base within the specified block range
- * and stores them in the database.
+ * Scans for events from the HyperMap contract of the active deployment within the specified block range
+ * and stores them in the database. The 'index' checkpoint is advanced after every
+ * completed chunk, so running without --from resumes where the last run stopped.
+ * Before indexing, recently ingested blocks are re-checked against the canonical chain
+ * and any reorganized blocks are rolled back.
+ *
+ * In follow mode new heads and contract logs arrive through a WebSocket subscription
+ * (BASE_WS_URL, or <prefix>_WS_URL of another deployment); each of them indexes all blocks
+ * after the checkpoint up to its block, which also backfills any gap left by a disconnect.
+ * Without BASE_WS_URL, or while the WebSocket is down, the chain head is polled instead.
+ *
+ * Transaction details (sender, gas, receipt status) are a separate stage (npm run
+ * enrich-events) unless --enrich is given; either way the events re-ingested after a
+ * reorg are enriched again, since their details are removed with the rolled back events.
+ *
+ * With --logs no RPC requests are made (see docs/SCRIPTS.md for the file formats):
+ * the reorg check and block hash tracking are skipped, and timestamps missing from
+ * the files are looked up in the blockheaders collection.
+ *
+ * Exits with code 3 if any block range had to be given up on (it is recorded as a
+ * coverage gap, see npm run gaps).
  */
 
 // Import libraries
 import { ethers } from 'ethers';
 import mongoose from 'mongoose';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import {
   createProvider,
   createContract,
   parseLogsToEvents,
-  formatTimestamp,
-  formatHex,
-  CONTRACT_ADDRESS
+  setBlockHeaderStore,
+  setRawLogArchive,
+  setQuarantineStore
 } from '../src/lib/services/events.js';
+import { getActiveDeployment, getDeploymentRpcUrls, getDeploymentWsUrl } from '../src/lib/services/deployments.js';
+import { createRpcLogSource, createFileLogSource } from '../src/lib/services/log-source.js';
+import { createRangePlanner, RangePlanner } from '../src/lib/services/ranges.js';
+import { getRetryPolicy, getRetryDecision, getRetryMetrics, sleep, RetryPolicy } from '../src/lib/services/retry.js';
+import { getConfiguredRawLogArchive } from '../src/lib/services/archive.js';
 import {
   initMongoConnection,
   storeEvents,
-  processEventsToEntries
+  processEventsToEntries,
+  resolveStartBlock,
+  saveCheckpoint,
+  recordCoverage,
+  recordCoverageFailure,
+  mongoBlockHeaderStore,
+  mongoQuarantineStore
 } from '../src/lib/services/mongodb.js';
-import { HypermapEvent } from '../src/types/index.js';
-
-// Get current directory
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const rootDir = path.resolve(__dirname, '..');
-
-// Load .env.local only - simple direct approach
-const envLocalPath = path.resolve(rootDir, '.env.local');
-const envContent = fs.readFileSync(envLocalPath, 'utf8');
-const envLines = envContent.split('\n');
-
-for (const line of envLines) {
-  if (!line || line.startsWith('#')) continue;
-  
-  const [key, ...valueParts] = line.split('=');
-  if (key && valueParts.length > 0) {
-    const value = valueParts.join('=').trim();
-    process.env[key.trim()] = value;
-  }
-}
-
-console.log(`Loaded environment from: ${envLocalPath}`);
-console.log('BASE_RPC_URL:', process.env.BASE_RPC_URL);
-
-// Check for required environment variables
-if (!process.env.BASE_RPC_URL) {
-  console.error('Error: BASE_RPC_URL is not defined in .env or .env.local file');
-  process.exit(1);
-}
-
-if (!process.env.MONGODB_URI) {
-  console.error('Error: MONGODB_URI is not defined in .env or .env.local file');
-  process.exit(1);
-}
-
-// Constants
-const DEFAULT_START_BLOCK = 27270000; // First block of HyperMap deployment
-
-// Parse command line arguments
-const args = process.argv.slice(2);
-let fromBlock = DEFAULT_START_BLOCK;
-let toBlock: number | 'latest' = 'latest';
-let onlyPrint = false;
+import { checkForReorg, recordChunkBlocks } from '../src/lib/services/reorgs.js';
+import { promoteFinalizedEvents } from '../src/lib/services/finality.js';
+import { followHead } from '../src/lib/services/follower.js';
+import { enrichStoredEvents } from '../src/lib/services/enrichment.js';
+import { runCommand, isMainModule, requireEnv, requireRpcUrls, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, Deployment, EnrichmentResult, HypermapEvent, LogSource } from '../src/types/index.js';
 
 // Always index all event types
 const eventTypes = ['Mint', 'Fact', 'Note', 'Gene', 'Transfer', 'Zero', 'Upgraded'];
-console.log("Indexing ALL event types regardless of command line arguments");
 
-// Parse arguments
-args.forEach(arg => {
-  if (arg.startsWith('--from=')) {
-    fromBlock = parseInt(arg.split('=')[1]);
-  } else if (arg.startsWith('--to=')) {
-    const value = arg.split('=')[1];
-    toBlock = value === 'latest' ? 'latest' : parseInt(value);
-  } else if (arg === '--print') {
-    onlyPrint = true;
-  }
-});
+export const indexCommand: CliCommand = {
+  name: 'index',
+  script: 'index-events',
+  summary: 'Store the events of a block range and apply them to entries',
+  options: [
+    { name: 'from', type: 'number', value: '<block>', description: "Starting block number (defaults to the block after the 'index' checkpoint)" },
+    { name: 'to', type: 'block', value: '<block>', description: "Ending block number (defaults to 'latest')" },
+    { name: 'print', type: 'boolean', description: "Only print events, don't store in database" },
+    { name: 'follow', type: 'boolean', description: 'Keep indexing new blocks after reaching the chain head (until Ctrl+C)' },
+    { name: 'enrich', type: 'boolean', description: 'Add transaction details to the stored events after indexing (see enrich-events)' },
+    { name: 'logs', type: 'string', value: '<path>', description: 'Read logs from exported NDJSON/JSON files instead of the RPC' },
+    { name: 'headers', type: 'string', value: '<path>', description: 'Block header files with the timestamps of the exported logs' }
+  ],
+  run: indexEvents
+};
 
-// Setup provider and contract
-const provider = createProvider(process.env.BASE_RPC_URL as string);
-const contract = createContract(provider);
+// Run settings and services, set up at the start of indexEvents
+let deployment: Deployment;
+let onlyPrint = false;
+let follow = false;
+let enrich = false;
+let source: LogSource;
+let provider: ethers.JsonRpcProvider | null;
+let contract: ethers.Contract;
 
 // Store events in the database (wrapper for print-only mode)
 async function storeEventsWithPrintMode(events: HypermapEvent[]) {
@@ -107,45 +113,107 @@ async function storeEventsWithPrintMode(events: HypermapEvent[]) {
   await storeEvents(events);
 }
 
+// Running totals for the whole run
+const eventCounts: Record<string, number> = {};
+let totalEvents = 0;
+eventTypes.forEach(type => { eventCounts[type] = 0 });
+
+// Transaction details added with --enrich
+const enrichment: EnrichmentResult = { updatedEvents: 0, updatedTransactions: 0, viaOtherContracts: 0, reverted: 0, failedTransactions: 0 };
+
+// Block ranges given up on after the last retry or a permanent error
+const failedRanges: { fromBlock: number; toBlock: number; error: string }[] = [];
+
+// Define chunk size and rate limiting parameters (read once the configuration is loaded)
+let planner: RangePlanner; // Chunk sizes adapt to the RPC's range limits
+const DEFAULT_DELAY = 2000; // Increase default delay to 2 seconds
+let retryPolicy: RetryPolicy; // Backoff and attempts for rate limits and transient errors
+
+// Track the last processed block to calculate progress
+let lastProcessedBlock = 0;
+
+// Set once the initial range is indexed and the indexer follows the chain head
+let following = false;
+
 // Main indexer function
-async function indexEvents() {
-  console.log(`Starting event indexing from block ${fromBlock} to ${toBlock}`);
-  console.log(`Indexing events: ${eventTypes.join(', ')}`);
-  console.log(`Contract address: ${CONTRACT_ADDRESS}`);
-  console.log(`MongoDB URI: ${process.env.MONGODB_URI}`);
-  console.log(`RPC URL: ${process.env.BASE_RPC_URL}`);
-  console.log(`Print only mode: ${onlyPrint ? 'Yes' : 'No'}`);
-  console.log('----------------------------------------');
+async function indexEvents(options: CliValues): Promise<CliResult> {
+  const requestedFromBlock = options.from as number | undefined; // Resolved from the checkpoint when not given
+  let toBlock = (options.to as number | 'latest' | undefined) ?? 'latest';
+  const logsPath = options.logs as string | undefined;       // Exported logs to read instead of the RPC
+  const headersPath = options.headers as string | undefined; // Exported block headers for timestamps
+  onlyPrint = options.print === true;
+  follow = options.follow === true;
+  enrich = options.enrich === true;
+  
+  if (follow && toBlock !== 'latest') {
+    throw usageError('--follow cannot be combined with --to');
+  }
+  if (follow && logsPath) {
+    throw usageError('--follow cannot be combined with --logs');
+  }
+  if (enrich && (onlyPrint || logsPath)) {
+    throw usageError('--enrich cannot be combined with --print or --logs');
+  }
+  
+  // Deployment to index (HYPERMAP_DEPLOYMENT, defaults to Base mainnet)
+  deployment = getActiveDeployment();
+  
+  // Check for required configuration (no RPC needed when reading exported logs)
+  if (!logsPath) {
+    requireRpcUrls(deployment);
+  }
+  const mongoUri = requireEnv('MONGODB_URI');
+  
+  // Setup log source, provider and contract (no provider when reading exported logs)
+  source = logsPath
+    ? createFileLogSource(logsPath, headersPath)
+    : createRpcLogSource(createProvider());
+  provider = source.provider;
+  contract = createContract(provider);
+  planner = createRangePlanner();
+  retryPolicy = getRetryPolicy();
   
   // Connect to MongoDB using our service
-  try {
-    await initMongoConnection(process.env.MONGODB_URI as string);
-    console.log('Connected to MongoDB');
-  } catch (error) {
-    console.error('Error connecting to MongoDB:', error);
-    process.exit(1);
+  await initMongoConnection(mongoUri);
+  console.log('Connected to MongoDB');
+  
+  // Roll back reorganized blocks first, since that may rewind the checkpoint
+  const headBlock = await source.getHeadBlock();
+  if (!onlyPrint) {
+    // Archive raw logs when RAW_LOG_ARCHIVE is set (before the reorg check, which trims the archive)
+    setRawLogArchive(getConfiguredRawLogArchive());
+    
+    if (provider) {
+      await checkForReorg(provider, headBlock);
+    }
+    
+    // Reuse and persist block timestamps through the blockheaders collection
+    setBlockHeaderStore(mongoBlockHeaderStore);
+    // Quarantine logs that fail to decode
+    setQuarantineStore(mongoQuarantineStore);
   }
   
-  let eventCounts: Record<string, number> = {};
-  let totalEvents = 0;
-  eventTypes.forEach(type => { eventCounts[type] = 0 });
+  // Resume from the checkpoint unless a start block was given
+  const fromBlock = requestedFromBlock ?? await resolveStartBlock('index');
+  
+  console.log(`Starting event indexing from block ${fromBlock} to ${toBlock}${requestedFromBlock === undefined ? ' (resumed from checkpoint)' : ''}`);
+  console.log(`Indexing events: ${eventTypes.join(', ')}`);
+  console.log(`Deployment: ${deployment.name} (chain ${deployment.chainId})`);
+  console.log(`Contract address: ${deployment.contractAddress}`);
+  console.log(`MongoDB URI: ${mongoUri}`);
+  console.log(provider ? `RPC URLs: ${getDeploymentRpcUrls(deployment)}` : `Log source: ${source.name}`);
+  console.log(`Print only mode: ${onlyPrint ? 'Yes' : 'No'}`);
+  console.log('----------------------------------------');
   
   if (toBlock === 'latest') {
-    const latestBlock = await provider.getBlockNumber();
-    console.log(`Latest block: ${latestBlock}`);
-    toBlock = latestBlock;
+    console.log(`Latest block: ${headBlock}`);
+    toBlock = headBlock;
   }
   
   // Calculate the number of blocks
   const blockCount = (toBlock as number) - fromBlock + 1;
   console.log(`Scanning ${blockCount.toLocaleString()} blocks`);
   
-  // Define chunk size and rate limiting parameters
-  const CHUNK_SIZE = 5000; // Reduce to 5k blocks for fewer rate limits
-  const DEFAULT_DELAY = 2000; // Increase default delay to 2 seconds
-  const MAX_RETRIES = 5;
-  const BASE_RETRY_DELAY = 3000; // 3 seconds for exponential backoff
-  
   // Run simple periodic status updates
   const statusInterval = setInterval(() => {
     // Simple one-line status update
@@ -154,174 +222,274 @@ async function indexEvents() {
     console.log(`STATUS: ${totalEvents} events found (${blockCompletion}% complete)`);
   }, 15000); // Update every 15 seconds
   
-  // Track the last processed block to calculate progress
-  let lastProcessedBlock = fromBlock;
+  lastProcessedBlock = fromBlock;
   
   try {
-    // Process in chunks of blocks
-    for (let startBlock = fromBlock; startBlock <= (toBlock as number); startBlock += CHUNK_SIZE) {
-      const endBlock = Math.min(startBlock + CHUNK_SIZE - 1, toBlock as number);
-      let retryCount = 0;
-      let success = false;
-      
+    await indexRange(fromBlock, toBlock as number, headBlock);
+  } finally {
+    // Make sure we clear the interval even if there's an error
+    clearInterval(statusInterval);
+  }
+  
+  if (enrich) {
+    await enrichIndexedEvents();
+  }
+  
+  if (follow) {
+    await followChainHead(toBlock as number);
+  }
+  
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`INDEXING COMPLETE: Found ${totalEvents} total events`);
+  
+  // Get event counts sorted by count (high to low)
+  const typeEntries = Object.entries(eventCounts)
+    .filter(([_, count]) => count > 0)  // Only show event types with non-zero counts
+    .sort((a, b) => b[1] - a[1]);       // Sort by count descending
+  
+  if (typeEntries.length > 0) {
+    // Simple table of non-zero counts
+    console.log('Event counts:');
+    typeEntries.forEach(([type, count]) => {
+      const percentage = totalEvents > 0 ? Math.round((count / totalEvents) * 100) : 0;
+      console.log(`  ${type.padEnd(10)}: ${count} (${percentage}%)`);
+    });
+  } else {
+    console.log('No events found.');
+  }
+  
+  // RPC errors by category for this run
+  const retryMetrics = getRetryMetrics().filter(metric => metric.errors > 0);
+  if (retryMetrics.length > 0) {
+    console.log('RPC errors:');
+    retryMetrics.forEach(metric => {
+      console.log(`  ${metric.category.padEnd(15)}: ${metric.errors} (${metric.retries} retried, ${metric.failures} given up)`);
+    });
+  }
+  
+  if (enrich) {
+    console.log(`Enrichment: ${enrichment.updatedEvents} events in ${enrichment.updatedTransactions} transactions (${enrichment.reverted} reverted, ${enrichment.failedTransactions} not found)`);
+  }
+  
+  if (failedRanges.length > 0) {
+    console.log(`Failed block ranges: ${failedRanges.length} (recorded as coverage gaps, run: npm run gaps)`);
+    failedRanges.forEach(range => console.log(`  ${range.fromBlock}-${range.toBlock}: ${range.error}`));
+  }
+  
+  console.log('=============================================');
+  
+  // Disconnect from MongoDB
+  await mongoose.disconnect();
+  console.log('Disconnected from MongoDB');
+  
+  return {
+    status: failedRanges.length > 0 || enrichment.failedTransactions > 0 ? 'partial' : 'ok',
+    data: {
+      deployment: deployment.name,
+      chainId: deployment.chainId,
+      fromBlock,
+      toBlock,
+      printOnly: onlyPrint,
+      totalEvents,
+      eventCounts,
+      failedRanges,
+      ...(enrich ? { enrichment } : {}),
+      retryMetrics
+    }
+  };
+}
+
+// Add transaction details to the stored events without them, including re-ingested ones
+async function enrichIndexedEvents() {
+  const result = await enrichStoredEvents(provider as ethers.JsonRpcProvider); // --enrich is rejected with --logs
+  enrichment.updatedEvents += result.updatedEvents;
+  enrichment.updatedTransactions += result.updatedTransactions;
+  enrichment.viaOtherContracts += result.viaOtherContracts;
+  enrichment.reverted += result.reverted;
+  enrichment.failedTransactions += result.failedTransactions;
+}
+
+// Index a block range in chunks: store events, update entries and advance the checkpoint
+async function indexRange(fromBlock: number, toBlock: number, headBlock: number) {
+  // Process in chunks of blocks, sized by the range planner
+  let startBlock = fromBlock;
+  while (startBlock <= toBlock) {
+    let endBlock = planner.nextEnd(startBlock, toBlock);
+    let retryCount = 0;
+    let success = false;
+    
+    if (!following) {
       console.log(`\nScanning blocks ${startBlock.toLocaleString()} to ${endBlock.toLocaleString()}...`);
-      
-      while (!success && retryCount <= MAX_RETRIES) {
-        try {
-          // Scan for all event types at once
-          let totalChunkEvents = 0;
-          let allProcessedEvents: HypermapEvent[] = [];
+    }
+    
+    while (!success && retryCount <= retryPolicy.maxRetries) {
+      try {
+        // Scan for all event types at once
+        let totalChunkEvents = 0;
+        let allProcessedEvents: HypermapEvent[] = [];
+        
+        // Make a single query for all events from our contract in this block range
+        // (errors propagate to the retry handler so a failed chunk is never checkpointed)
+        const events = await source.getLogs(startBlock, endBlock);
+        
+        // Parse logs to structured events using our events service
+        const processedEvents = await parseLogsToEvents(events, contract, provider);
+        allProcessedEvents.push(...processedEvents);
+        
+        // Process all events without detailed logging
+        for (const processedEvent of allProcessedEvents) {
+          const eventType = processedEvent.eventType;
+          totalEvents++;
+          totalChunkEvents++;
+          eventCounts[eventType]++;
           
-          // Make a single query for all events from our contract in this block range
-          try {
-            // Query with filter by contract address (without logging)
-            const allEventsFilter = { address: CONTRACT_ADDRESS };
-            const events = await provider.getLogs({
-              ...allEventsFilter,
-              fromBlock: startBlock,
-              toBlock: endBlock
-            });
-            
-            let processedCount = 0;
-            let skippedCount = 0;
-            
-            // Parse logs to structured events using our events service
-            const processedEvents = await parseLogsToEvents(events, contract, provider);
-            allProcessedEvents.push(...processedEvents);
-            
-            // Update counters
-            processedCount = processedEvents.length;
-            skippedCount = events.length - processedCount;
-            
-          } catch (queryError) {
-            console.error(`    Error querying events:`, (queryError as Error).message);
-          }
+          // Skip detailed event logging - too verbose
+        }
+        
+        // Store events in database
+        if (allProcessedEvents.length > 0) {
+          await storeEventsWithPrintMode(allProcessedEvents);
           
-          // Process all events without detailed logging
-          for (const processedEvent of allProcessedEvents) {
-            const eventType = processedEvent.eventType;
-            totalEvents++;
-            totalChunkEvents++;
-            eventCounts[eventType]++;
-            
-            // Skip detailed event logging - too verbose
+          // Process events to update entries
+          if (!onlyPrint) {
+            await processEventsToEntries(allProcessedEvents);
           }
-          
-          // Store events in database
-          if (allProcessedEvents.length > 0) {
-            await storeEventsWithPrintMode(allProcessedEvents);
-            
-            // Process events to update entries
-            if (!onlyPrint) {
-              await processEventsToEntries(allProcessedEvents);
-            }
+        }
+        
+        // Remember recent block hashes, then advance the checkpoint now that the chunk is fully stored
+        if (!onlyPrint) {
+          if (provider) {
+            await recordChunkBlocks(provider, allProcessedEvents, endBlock, headBlock);
           }
+          const advanced = await saveCheckpoint('index', startBlock, endBlock);
+          if (!advanced) {
+            console.warn(`  Checkpoint not advanced: blocks before ${startBlock.toLocaleString()} have not been indexed`);
+          }
+          await recordCoverage('index', startBlock, endBlock);
           
-          // Update last processed block for progress tracking
-          lastProcessedBlock = endBlock;
-          
-          // Block range header
+          // Promote the events of blocks that are final by now
+          await promoteFinalizedEvents(provider, headBlock);
+        }
+        
+        // Update last processed block for progress tracking
+        lastProcessedBlock = endBlock;
+        
+        // Chunk summary (in follow mode only for chunks with events)
+        if (!following || totalChunkEvents > 0) {
           console.log(`\n=== BLOCKS ${startBlock.toLocaleString()}-${endBlock.toLocaleString()} ===`);
           console.log(`Found ${totalChunkEvents} new events (total: ${totalEvents})`);
-          
+        
           // Calculate new events by type in this chunk
           const chunkCounts: Record<string, number> = {};
           eventTypes.forEach(type => {
             chunkCounts[type] = allProcessedEvents.filter(e => e.eventType === type).length;
           });
-          
+        
           // Display vertical table of ALL event types (running totals)
           console.log("\nEVENT TYPE SUMMARY:");
           console.log("╔════════════╦════════════╦════════════╗");
           console.log("║ EVENT TYPE ║ THIS CHUNK ║ TOTAL      ║");
           console.log("╠════════════╬════════════╬════════════╣");
-          
+        
           // Sort event types by total count (descending)
           const sortedTypes = [...eventTypes].sort((a, b) => eventCounts[b] - eventCounts[a]);
-          
+        
           for (const type of sortedTypes) {
             const chunkCount = chunkCounts[type] || 0;
             const totalTypeCount = eventCounts[type] || 0;
             const typePercent = totalEvents > 0 ? Math.round((totalTypeCount / totalEvents) * 100) : 0;
-            
+          
             const paddedType = type.padEnd(10);
             const paddedChunk = `${chunkCount}`.padStart(6);
             const paddedTotal = `${totalTypeCount} (${typePercent}%)`.padStart(10);
-            
+          
             console.log(`║ ${paddedType} ║ ${paddedChunk} ║ ${paddedTotal} ║`);
           }
-          
+        
           console.log("╚════════════╩════════════╩════════════╝");
-          success = true;
-        } catch (error) {
-          const errorMessage = (error as Error).toString();
-          // More focused rate limit detection
-          const isTooManyRequests = 
-            errorMessage.includes("Too Many Requests") || 
-            errorMessage.includes("rate limit") || 
-            errorMessage.includes("429") ||
-            errorMessage.includes("exceeded") ||
-            ((error as any).code === "SERVER_ERROR" && errorMessage.includes("limit"));
-          
-          // Show detailed error info for debugging
-          console.log(`\n===== ERROR DETAILS =====`);
-          console.log(`Error type: ${(error as Error).constructor.name}`);
-          console.log(`Error code: ${(error as any).code || 'none'}`);
-          console.log(`Error message: ${errorMessage}`);
-          console.log(`Rate limit detected: ${isTooManyRequests}`);
-          console.log(`========================\n`);
-          
-          if (isTooManyRequests && retryCount < MAX_RETRIES) {
-            retryCount++;
-            const delay = BASE_RETRY_DELAY * Math.pow(2, retryCount) + Math.random() * 1000;
-            console.log(`  Rate limited. Waiting ${Math.round(delay/1000)} seconds before retry #${retryCount}...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-          } else {
-            console.error(`  Error scanning blocks ${startBlock} to ${endBlock}:`, errorMessage);
-            // Move on after MAX_RETRIES
-            success = true;
+        }
+        planner.recordSuccess();
+        success = true;
+      } catch (error) {
+        // Shrink the range and retry right away if the RPC rejected its size
+        if (planner.recordRangeError(error)) {
+          endBlock = planner.nextEnd(startBlock, toBlock);
+          console.log(`  Range too large, retrying blocks ${startBlock.toLocaleString()} to ${endBlock.toLocaleString()} (${planner.chunkSize} blocks)...`);
+          continue;
+        }
+        
+        const errorMessage = (error as Error).toString();
+        const decision = getRetryDecision(error, retryCount + 1, retryPolicy);
+        
+        // Show error details
+        console.log(`\n===== ERROR DETAILS =====`);
+        console.log(`Error type: ${(error as Error).constructor.name}`);
+        console.log(`Error code: ${(error as any).code || 'none'}`);
+        console.log(`Error message: ${errorMessage}`);
+        console.log(`Error category: ${decision.category}`);
+        console.log(`========================\n`);
+        
+        if (decision.retry) {
+          retryCount++;
+          console.log(`  ${decision.category} error. Waiting ${Math.round(decision.delayMs/1000)} seconds before retry #${retryCount}...`);
+          await sleep(decision.delayMs);
+        } else {
+          console.error(`  Error scanning blocks ${startBlock} to ${endBlock}:`, errorMessage);
+          // Record the range as a coverage gap and move on after the last retry or a permanent error
+          if (!onlyPrint) {
+            await recordCoverageFailure('index', startBlock, endBlock, errorMessage);
           }
+          failedRanges.push({ fromBlock: startBlock, toBlock: endBlock, error: errorMessage });
+          success = true;
         }
       }
-      
-      // Add the default delay between chunks to avoid overwhelming the RPC node (silently)
+    }
+    
+    // Add the default delay between chunks to avoid overwhelming the RPC node (silently)
+    if (provider && endBlock < toBlock) {
       await new Promise(resolve => setTimeout(resolve, DEFAULT_DELAY));
     }
-  } finally {
-    // Make sure we clear the interval even if there's an error
-    clearInterval(statusInterval);
+    
+    startBlock = endBlock + 1;
   }
+}
+
+// Follow the chain head until interrupted, indexing new blocks as they arrive
+async function followChainHead(lastIndexedBlock: number) {
+  const rpcProvider = provider as ethers.JsonRpcProvider; // --follow is rejected with --logs
+  following = true;
+  console.log(`\nFollowing the chain head ${getDeploymentWsUrl(deployment) ? 'over WebSocket' : 'by polling'} (Ctrl+C to stop)...`);
   
-  console.log('\n=============== FINAL RESULTS ===============');
-  console.log(`INDEXING COMPLETE: Found ${totalEvents} total events`);
-  
-  // Get event counts sorted by count (high to low)
-  const typeEntries = Object.entries(eventCounts)
-    .filter(([_, count]) => count > 0)  // Only show event types with non-zero counts
-    .sort((a, b) => b[1] - a[1]);       // Sort by count descending
-  
-  if (typeEntries.length > 0) {
-    // Simple table of non-zero counts
-    console.log('Event counts:');
-    typeEntries.forEach(([type, count]) => {
-      const percentage = totalEvents > 0 ? Math.round((count / totalEvents) * 100) : 0;
-      console.log(`  ${type.padEnd(10)}: ${count} (${percentage}%)`);
-    });
-  } else {
-    console.log('No events found.');
-  }
+  const follower = followHead(rpcProvider, {
+    // Roll back reorgs, then index every block after the checkpoint (backfilling any gap)
+    onHead: async (headBlock: number) => {
+      if (!onlyPrint) {
+        await checkForReorg(rpcProvider, headBlock);
+      }
+      
+      const fromBlock = onlyPrint ? lastIndexedBlock + 1 : await resolveStartBlock('index');
+      if (fromBlock > headBlock) return;
+      
+      await indexRange(fromBlock, headBlock, headBlock);
+      lastIndexedBlock = headBlock;
+      if (enrich) {
+        await enrichIndexedEvents();
+      }
+    },
+    onModeChange: (mode: string) => console.log(`Following the chain head by ${mode === 'websocket' ? 'WebSocket subscription' : 'polling'}`)
+  }, { wsUrl: getDeploymentWsUrl(deployment), address: deployment.contractAddress });
   
-  console.log('=============================================');
+  // Run until interrupted
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
   
-  // Disconnect from MongoDB
-  await mongoose.disconnect();
-  console.log('Disconnected from MongoDB');
+  console.log('\nStopping follower...');
+  await follower.stop();
 }
 
-// Run the indexer
-indexEvents()
-  .then(() => process.exit(0))
-  .catch(error => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
\ No newline at end of file
+// Run the indexer when started directly (npm run index-events)
+if (isMainModule(import.meta.url)) {
+  runCommand(indexCommand, process.argv.slice(2));
+}
\ No newline at end of file
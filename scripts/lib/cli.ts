@@ -0,0 +1,339 @@
+/**
+ * HyperMap CLI Support
+ *
+ * Shared by the hypermap CLI (scripts/hypermap.ts) and the scripts that run a single
+ * command (npm run index-events, ...): configuration loading, flag and action parsing,
+ * --help, --json output and exit codes.
+ *
+ * Configuration is read from environment variables. Values are taken, in order of
+ * precedence, from command-line flags (--deployment), the process environment,
+ * .env.local, .env, and a JSON config file mapping variable names to values
+ * (--config=<file>, HYPERMAP_CONFIG, or hypermap.config.json when present).
+ * Missing .env files and the default config file are skipped.
+ *
+ * Exit codes: 0 success, 1 failure, 2 invalid arguments or missing configuration,
+ * 3 partial failure (the command finished but part of the work failed).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CliAction, CliCommand, CliOption, CliResult, CliValues, Deployment } from '../../src/types/index.js';
+import { CLI_CONFIG_FILE, EXIT_OK, EXIT_FAILURE, EXIT_USAGE, EXIT_PARTIAL } from '../../src/constants.js';
+import { getDeploymentRpcUrls } from '../../src/lib/services/deployments.js';
+
+// Repository root (where the .env files and the default config file live)
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.resolve(__dirname, '../..');
+
+// Options every command accepts
+const GLOBAL_OPTIONS: CliOption[] = [
+  { name: 'json', type: 'boolean', description: 'Print the result as JSON on stdout (progress goes to stderr)' },
+  { name: 'config', type: 'string', value: '<file>', description: `JSON config file with environment variables (defaults to ${CLI_CONFIG_FILE} if present)` },
+  { name: 'deployment', type: 'string', value: '<name|chainId>', description: 'Deployment to use (overrides HYPERMAP_DEPLOYMENT)' },
+  { name: 'help', type: 'boolean', alias: 'h', description: 'Show this help' }
+];
+
+const EXIT_CODES_HELP = `Exit codes: ${EXIT_OK} success, ${EXIT_FAILURE} failure, ${EXIT_USAGE} invalid arguments or configuration, ${EXIT_PARTIAL} partial failure`;
+
+/**
+ * Create an error for invalid arguments or missing configuration (exit code 2)
+ */
+export function usageError(message: string): Error {
+  return Object.assign(new Error(message), { exitCode: EXIT_USAGE });
+}
+
+/**
+ * Load the configuration into process.env without overriding variables that are
+ * already set. Returns the files that were read.
+ */
+export function loadConfig(configFile?: string): string[] {
+  const loaded: string[] = [];
+
+  for (const file of ['.env.local', '.env']) {
+    const envPath = path.resolve(rootDir, file);
+    if (!fs.existsSync(envPath)) continue;
+    applyConfig(parseEnvFile(fs.readFileSync(envPath, 'utf8')));
+    loaded.push(envPath);
+  }
+
+  // An explicitly named config file must exist; the default one is optional
+  const explicitFile = configFile ?? process.env.HYPERMAP_CONFIG;
+  const configPath = path.resolve(rootDir, explicitFile ?? CLI_CONFIG_FILE);
+  if (explicitFile || fs.existsSync(configPath)) {
+    if (!fs.existsSync(configPath)) {
+      throw usageError(`Config file ${configPath} does not exist`);
+    }
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw usageError(`Config file ${configPath} must hold an object of environment variables`);
+    }
+    applyConfig(Object.fromEntries(Object.entries(config).map(([key, value]) => [key, String(value)])));
+    loaded.push(configPath);
+  }
+
+  return loaded;
+}
+
+/**
+ * Require an environment variable, failing with a configuration error when it is not set
+ */
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw usageError(`${name} is not defined in the environment, .env.local, .env or the config file`);
+  }
+  return value;
+}
+
+/**
+ * Require the RPC endpoints of a deployment
+ */
+export function requireRpcUrls(deployment: Deployment): string {
+  const rpcUrls = getDeploymentRpcUrls(deployment);
+  if (!rpcUrls) {
+    throw usageError(`${deployment.envPrefix}_RPC_URL (or ${deployment.envPrefix}_RPC_URLS) is not defined in the environment, .env.local, .env or the config file`);
+  }
+  return rpcUrls;
+}
+
+/**
+ * Parse command-line arguments against a command's options (and the global options).
+ * Commands with actions also take the action as an argument, stored as 'action'.
+ */
+export function parseArgs(argv: string[], command: CliCommand): CliValues {
+  const values: CliValues = {};
+  const allOptions = [...command.options, ...GLOBAL_OPTIONS];
+  const actions = command.actions ?? [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/s) ?? arg.match(/^-([^-])$/);
+    if (!match) {
+      if (actions.length === 0 || values.action !== undefined) {
+        throw usageError(`Unexpected argument '${arg}'`);
+      }
+      if (!actions.some(action => action.name === arg)) {
+        throw usageError(`Unknown action '${arg}' (expected ${formatActionNames(actions)})`);
+      }
+      values.action = arg;
+      continue;
+    }
+
+    const option = arg.startsWith('--')
+      ? allOptions.find(candidate => candidate.name === match[1])
+      : allOptions.find(candidate => candidate.alias === match[1]);
+    if (!option) {
+      throw usageError(`Unknown option '${arg}'`);
+    }
+
+    if (option.type === 'boolean') {
+      if (match[2] !== undefined) {
+        throw usageError(`--${option.name} does not take a value`);
+      }
+      values[option.name] = true;
+      continue;
+    }
+
+    // --name=<value>, or the value as the next argument
+    let value = match[2];
+    if (value === undefined) {
+      if (i + 1 >= argv.length || argv[i + 1].startsWith('-')) {
+        throw usageError(`--${option.name} needs a value`);
+      }
+      value = argv[++i];
+    }
+    values[option.name] = parseValue(option, value);
+  }
+
+  if (actions.length > 0 && values.action === undefined && !values.help) {
+    if (!command.defaultAction) {
+      throw usageError(`${command.name} needs an action: ${formatActionNames(actions)}`);
+    }
+    values.action = command.defaultAction;
+  }
+
+  return values;
+}
+
+/**
+ * Format the --help text of a command
+ */
+export function formatHelp(command: CliCommand): string {
+  const actions = command.actions ?? [];
+  const action = actions.length === 0 ? ''
+    : command.defaultAction ? `[${formatActionNames(actions)}] ` : `<${formatActionNames(actions)}> `;
+  const lines = [
+    `Usage: npm run hypermap -- ${command.name} ${action}[options]`,
+    `   or: npm run ${command.script} -- ${action}[options]`,
+    '',
+    command.summary,
+    ''
+  ];
+
+  if (actions.length > 0) {
+    const width = Math.max(...actions.map(candidate => candidate.name.length));
+    lines.push('Actions:', ...actions.map(candidate => {
+      const isDefault = candidate.name === command.defaultAction ? ' (default)' : '';
+      return `  ${candidate.name.padEnd(width)}  ${candidate.description}${isDefault}`;
+    }), '');
+  }
+  if (command.options.length > 0) {
+    lines.push('Options:', ...formatOptions(command.options), '');
+  }
+  lines.push('Global options:', ...formatOptions(GLOBAL_OPTIONS), '', EXIT_CODES_HELP);
+
+  return lines.join('\n');
+}
+
+/**
+ * Run the hypermap CLI: dispatch to a subcommand, or list the commands
+ */
+export async function runCli(commands: CliCommand[], argv: string[]): Promise<void> {
+  const [name, ...rest] = argv;
+  const command = commands.find(candidate => candidate.name === name);
+
+  if (command) {
+    return runCommand(command, rest);
+  }
+
+  // hypermap help <command> shows the help of a command
+  const helpCommand = name === 'help' && commands.find(candidate => candidate.name === rest[0]);
+  if (helpCommand) {
+    console.log(formatHelp(helpCommand));
+    process.exit(EXIT_OK);
+  }
+
+  const width = Math.max(...commands.map(candidate => candidate.name.length));
+  const list = [
+    'Usage: npm run hypermap -- <command> [options]',
+    '',
+    'Commands:',
+    ...commands.map(candidate => `  ${candidate.name.padEnd(width)}  ${candidate.summary}`),
+    '',
+    'Run npm run hypermap -- <command> --help for the options of a command.',
+    EXIT_CODES_HELP
+  ].join('\n');
+
+  if (name === undefined || name === 'help' || name === '--help' || name === '-h') {
+    console.log(list);
+    process.exit(EXIT_OK);
+  }
+
+  console.error(`Unknown command '${name}'\n\n${list}`);
+  process.exit(EXIT_USAGE);
+}
+
+/**
+ * Run a command with the given arguments and exit with its exit code.
+ * With --json, everything the command logs goes to stderr and stdout only gets the result.
+ */
+export async function runCommand(command: CliCommand, argv: string[]): Promise<void> {
+  const writeStdout = (text: string) => process.stdout.write(`${text}\n`);
+  let json = argv.includes('--json');
+  let exitCode: number = EXIT_OK;
+
+  if (json) {
+    console.log = console.info = console.error;
+  }
+
+  try {
+    const values = parseArgs(argv, command);
+    json = values.json === true;
+
+    if (values.help) {
+      writeStdout(formatHelp(command));
+      process.exit(EXIT_OK);
+    }
+
+    const loaded = loadConfig(values.config as string | undefined);
+    console.log(`Loaded configuration from: ${loaded.length > 0 ? loaded.join(', ') : 'environment only'}`);
+    if (values.deployment) {
+      process.env.HYPERMAP_DEPLOYMENT = String(values.deployment);
+    }
+
+    const result: CliResult = await command.run(values);
+    exitCode = result.status === 'ok' ? EXIT_OK : result.status === 'partial' ? EXIT_PARTIAL : EXIT_FAILURE;
+
+    if (json) {
+      writeStdout(JSON.stringify({ command: command.name, status: result.status, exitCode, result: result.data }, null, 2));
+    } else if (exitCode !== EXIT_OK) {
+      console.error(`${command.name} finished with status '${result.status}' (exit code ${exitCode})`);
+    }
+  } catch (error) {
+    exitCode = (error as { exitCode?: number }).exitCode ?? EXIT_FAILURE;
+
+    if (json) {
+      writeStdout(JSON.stringify({ command: command.name, status: 'failed', exitCode, error: (error as Error).message }, null, 2));
+    } else if (exitCode === EXIT_USAGE) {
+      console.error(`Error: ${(error as Error).message}\nRun with --help for usage.`);
+    } else {
+      console.error('Fatal error:', error);
+    }
+  }
+
+  process.exit(exitCode);
+}
+
+/**
+ * Whether a module is the script node was started with (rather than imported by the CLI)
+ */
+export function isMainModule(moduleUrl: string): boolean {
+  return process.argv[1] !== undefined && path.resolve(process.argv[1]) === fileURLToPath(moduleUrl);
+}
+
+// Parse KEY=value lines (comments, blank lines and an "export " prefix are skipped; quotes are removed)
+function parseEnvFile(content: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim().replace(/^export\s+/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const separator = line.indexOf('=');
+    if (separator <= 0) continue;
+
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim().replace(/^(['"])(.*)\1$/s, '$2');
+    variables[key] = value;
+  }
+
+  return variables;
+}
+
+// Set variables that are not set yet (sources are applied from highest to lowest precedence)
+function applyConfig(variables: Record<string, string>): void {
+  for (const [key, value] of Object.entries(variables)) {
+    if (process.env[key] === undefined) {
+      process.env[key] = value;
+    }
+  }
+}
+
+// Convert an option value to its type
+function parseValue(option: CliOption, value: string): string | number {
+  if (option.type === 'string') return value;
+  if (option.type === 'block' && value === 'latest') return value;
+
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isInteger(number) || number < 0) {
+    throw usageError(`--${option.name} must be a non-negative integer${option.type === 'block' ? " or 'latest'" : ''} (got '${value}')`);
+  }
+  return number;
+}
+
+// Format the action names of a command for usage lines and errors (plan|work|status)
+function formatActionNames(actions: CliAction[]): string {
+  return actions.map(action => action.name).join('|');
+}
+
+// Format option lines for --help
+function formatOptions(options: CliOption[]): string[] {
+  const flags = options.map(option => {
+    const flag = `--${option.name}${option.value ? `=${option.value}` : ''}`;
+    return option.alias ? `${flag}, -${option.alias}` : flag;
+  });
+  const width = Math.max(...flags.map(flag => flag.length));
+  return options.map((option, index) => `  ${flags[index].padEnd(width)}  ${option.description}`);
+}
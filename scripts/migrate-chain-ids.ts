@@ -0,0 +1,56 @@
+/**
+ * HyperMap Chain Id Migration
+ * Usage: npm run hypermap -- migrate-chain-ids
+ *    or: npm run migrate-chain-ids
+ *
+ * Options:
+ *   (the global options of scripts/lib/cli.ts: --json, --config, --help)
+ *
+ * Events and entries used to be stored without a chain id, with entries unique by
+ * namehash alone. Now that several deployments can share a database, both are tagged
+ * with the chain id of their deployment and entries are unique per chain and namehash.
+ * This tags every event and entry that has no chain id yet with the Base mainnet chain
+ * id (the only deployment indexed before) and replaces the old unique namehash index.
+ * Safe to run more than once. No RPC requests are made.
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import { initMongoConnection, migrateChainIds } from '../src/lib/services/mongodb.js';
+import { DEFAULT_CHAIN_ID } from '../src/constants.js';
+import { runCommand, isMainModule, requireEnv } from './lib/cli.js';
+import { CliCommand, CliResult } from '../src/types/index.js';
+
+export const migrateChainIdsCommand: CliCommand = {
+  name: 'migrate-chain-ids',
+  script: 'migrate-chain-ids',
+  summary: 'Tag events and entries stored before deployments were chain scoped with the Base chain id',
+  options: [],
+  run: migrate
+};
+
+// Main migration function
+async function migrate(): Promise<CliResult> {
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  console.log(`Tagging events and entries without a chain id with chain ${DEFAULT_CHAIN_ID}...`);
+  await initMongoConnection(mongoUri);
+
+  try {
+    const tagged = await migrateChainIds(DEFAULT_CHAIN_ID);
+
+    console.log('\n=============== FINAL RESULTS ===============');
+    console.log(`MIGRATION COMPLETE: Tagged ${tagged.events.toLocaleString()} events and ${tagged.entries.toLocaleString()} entries`);
+    console.log('Entry indexes synced (unique by chain id and namehash)');
+    console.log('=============================================');
+
+    return { status: 'ok', data: { chainId: DEFAULT_CHAIN_ID, taggedEvents: tagged.events, taggedEntries: tagged.entries } };
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the migration when started directly (npm run migrate-chain-ids)
+if (isMainModule(import.meta.url)) {
+  runCommand(migrateChainIdsCommand, process.argv.slice(2));
+}
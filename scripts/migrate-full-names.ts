@@ -0,0 +1,67 @@
+/**
+ * HyperMap Full Name Migration
+ * Usage: npm run hypermap -- migrate-full-names
+ *    or: npm run migrate-full-names
+ *
+ * Options:
+ *   (the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Entries used to be stored without their full dotted name (e.g. 'foo.bar.os'), and
+ * placeholder parents (created when a child was minted before its parent) kept the
+ * '[unknown]' label. This resolves the placeholders whose Mint event is stored,
+ * computes the full name of every entry of the active deployment from the top-level
+ * entries down, and creates the unique full name index. New entries are named when
+ * they are minted. Safe to run more than once. No RPC requests are made.
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import { initMongoConnection, resolvePlaceholderEntries, backfillFullNames } from '../src/lib/services/mongodb.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { runCommand, isMainModule, requireEnv } from './lib/cli.js';
+import { CliCommand, CliResult } from '../src/types/index.js';
+
+export const migrateFullNamesCommand: CliCommand = {
+  name: 'migrate-full-names',
+  script: 'migrate-full-names',
+  summary: 'Resolve placeholder entries and compute the full name of every entry',
+  options: [],
+  run: migrate
+};
+
+// Main migration function
+async function migrate(): Promise<CliResult> {
+  const deployment = getActiveDeployment();
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  console.log(`Resolving placeholder entries of ${deployment.name} (chain ${deployment.chainId})...`);
+  await initMongoConnection(mongoUri);
+
+  try {
+    const resolved = await resolvePlaceholderEntries();
+    console.log(`Resolved ${resolved.toLocaleString()} placeholder entries`);
+
+    console.log('Computing full names...');
+    const result = await backfillFullNames((depth, named) => {
+      console.log(`Level ${depth}: named ${named.toLocaleString()} entries`);
+    });
+
+    console.log('\n=============== FINAL RESULTS ===============');
+    console.log(`MIGRATION COMPLETE: Named ${result.named.toLocaleString()} entries`);
+    console.log(`${result.unnamed.toLocaleString()} entries have no full name (below a placeholder, or a label that cannot be named)`);
+    if (result.conflicts > 0) {
+      console.log(`${result.conflicts.toLocaleString()} entries were left unnamed because another entry holds their name`);
+    }
+    console.log('Entry indexes synced (unique by chain id and full name)');
+    console.log('=============================================');
+
+    return { status: 'ok', data: { deployment: deployment.name, chainId: deployment.chainId, resolvedPlaceholders: resolved, ...result } };
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the migration when started directly (npm run migrate-full-names)
+if (isMainModule(import.meta.url)) {
+  runCommand(migrateFullNamesCommand, process.argv.slice(2));
+}
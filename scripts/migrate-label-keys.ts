@@ -0,0 +1,57 @@
+/**
+ * HyperMap Label Key Migration
+ * Usage: npm run hypermap -- migrate-label-keys
+ *    or: npm run migrate-label-keys
+ *
+ * Options:
+ *   (the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Facts and notes used to be stored under their raw label, so a label like '~net.key'
+ * was written as a nested object ({ '~net': { key: ... } }) and labels starting with
+ * '$', or empty labels, failed to be stored. Labels are now encoded as map keys (see
+ * encodeLabelKey in src/lib/services/names.ts). This rewrites the facts and notes of
+ * every entry of the active deployment from the stored Fact and Note events with
+ * encoded labels: each fact gets its first value and each note its latest one.
+ * Safe to run more than once. No RPC requests are made.
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import { initMongoConnection, rewriteEntryLabelKeys } from '../src/lib/services/mongodb.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { runCommand, isMainModule, requireEnv } from './lib/cli.js';
+import { CliCommand, CliResult } from '../src/types/index.js';
+
+export const migrateLabelKeysCommand: CliCommand = {
+  name: 'migrate-label-keys',
+  script: 'migrate-label-keys',
+  summary: 'Rewrite the facts and notes of every entry from the stored events with encoded labels',
+  options: [],
+  run: migrate
+};
+
+// Main migration function
+async function migrate(): Promise<CliResult> {
+  const deployment = getActiveDeployment();
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  console.log(`Rewriting the facts and notes of ${deployment.name} (chain ${deployment.chainId}) with encoded labels...`);
+  await initMongoConnection(mongoUri);
+
+  try {
+    const updated = await rewriteEntryLabelKeys();
+
+    console.log('\n=============== FINAL RESULTS ===============');
+    console.log(`MIGRATION COMPLETE: Rewrote the facts of ${updated.facts.toLocaleString()} entries and the notes of ${updated.notes.toLocaleString()} entries`);
+    console.log('=============================================');
+
+    return { status: 'ok', data: { deployment: deployment.name, chainId: deployment.chainId, updatedEntries: updated } };
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the migration when started directly (npm run migrate-label-keys)
+if (isMainModule(import.meta.url)) {
+  runCommand(migrateLabelKeysCommand, process.argv.slice(2));
+}
@@ -0,0 +1,58 @@
+/**
+ * HyperMap Note History Migration
+ * Usage: npm run hypermap -- migrate-note-history
+ *    or: npm run migrate-note-history
+ *
+ * Options:
+ *   (the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Notes used to be stored on their entry only, with each Note event overwriting the
+ * previous value in the order the events were processed. Now every Note event is kept
+ * as a revision in the noterevisions collection and entries hold the latest revision
+ * in chain order. This records the revisions of every stored Note event of the active
+ * deployment and sets the entries' notes to their latest revision. New Note events
+ * are recorded when they are indexed. Safe to run more than once. No RPC requests
+ * are made.
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import { initMongoConnection, rebuildNoteHistory } from '../src/lib/services/mongodb.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { runCommand, isMainModule, requireEnv } from './lib/cli.js';
+import { CliCommand, CliResult } from '../src/types/index.js';
+
+export const migrateNoteHistoryCommand: CliCommand = {
+  name: 'migrate-note-history',
+  script: 'migrate-note-history',
+  summary: 'Record a revision for every stored Note event and set entry notes to their latest revision',
+  options: [],
+  run: migrate
+};
+
+// Main migration function
+async function migrate(): Promise<CliResult> {
+  const deployment = getActiveDeployment();
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  console.log(`Recording note revisions of ${deployment.name} (chain ${deployment.chainId})...`);
+  await initMongoConnection(mongoUri);
+
+  try {
+    const result = await rebuildNoteHistory();
+
+    console.log('\n=============== FINAL RESULTS ===============');
+    console.log(`MIGRATION COMPLETE: Recorded ${result.revisions.toLocaleString()} note revisions`);
+    console.log(`${result.updatedNotes.toLocaleString()} entry notes were set to their latest revision`);
+    console.log('=============================================');
+
+    return { status: 'ok', data: { deployment: deployment.name, chainId: deployment.chainId, ...result } };
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the migration when started directly (npm run migrate-note-history)
+if (isMainModule(import.meta.url)) {
+  runCommand(migrateNoteHistoryCommand, process.argv.slice(2));
+}
@@ -0,0 +1,108 @@
+/**
+ * HyperMap Mock JSON-RPC Server
+ * Usage: npm run hypermap -- mock-rpc --fixture=fixtures/sanity-27430000.json [--port=8545] [fault options]
+ *    or: npm run mock-rpc -- --fixture=fixtures/sanity-27430000.json [--port=8545] [fault options]
+ *
+ * Options:
+ *   --fixture=<file>          Fixture recorded with npm run record-fixture
+ *   --port=<port>             Port to listen on (defaults to 8545)
+ *   --head=<block>            Block reported as the chain head (defaults to the fixture's last block)
+ *   --rate-limit-every=<n>    Answer every nth request with HTTP 429
+ *   --timeout-every=<n>       Drop every nth request without a response
+ *   --timeout-ms=<ms>         How long a dropped request is held (defaults to just over the client timeout)
+ *   --max-block-range=<n>     Reject eth_getLogs ranges over n blocks
+ *   --reorg-block=<block>     Reorganize the chain from this block...
+ *   --reorg-after=<n>         ...after n requests (defaults to 0)
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Serves the recorded responses on http://127.0.0.1:<port> until Ctrl+C, with the
+ * given faults injected deterministically by request count. Point BASE_RPC_URL in
+ * .env.local at it to run the scripts or the dashboard against the fixture. The
+ * request counts are printed (and returned with --json) when the server stops.
+ */
+
+// Import libraries
+import fs from 'fs';
+import { createMockRpcServer, MockRpcOptions } from '../src/lib/services/mock-rpc.js';
+import { runCommand, isMainModule, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, RpcFixture } from '../src/types/index.js';
+
+export const mockRpcCommand: CliCommand = {
+  name: 'mock-rpc',
+  script: 'mock-rpc',
+  summary: 'Serve a recorded fixture as a JSON-RPC endpoint with injectable faults',
+  options: [
+    { name: 'fixture', type: 'string', value: '<file>', description: 'Fixture recorded with record-fixture (required)' },
+    { name: 'port', type: 'number', value: '<port>', description: 'Port to listen on (defaults to 8545)' },
+    { name: 'head', type: 'number', value: '<block>', description: "Block reported as the chain head (defaults to the fixture's last block)" },
+    { name: 'rate-limit-every', type: 'number', value: '<n>', description: 'Answer every nth request with HTTP 429' },
+    { name: 'timeout-every', type: 'number', value: '<n>', description: 'Drop every nth request without a response' },
+    { name: 'timeout-ms', type: 'number', value: '<ms>', description: 'How long a dropped request is held (defaults to just over the client timeout)' },
+    { name: 'max-block-range', type: 'number', value: '<n>', description: 'Reject eth_getLogs ranges over n blocks' },
+    { name: 'reorg-block', type: 'number', value: '<block>', description: 'Reorganize the chain from this block...' },
+    { name: 'reorg-after', type: 'number', value: '<n>', description: '...after n requests (defaults to 0)' }
+  ],
+  run: serve
+};
+
+// Main server function
+async function serve(values: CliValues): Promise<CliResult> {
+  const fixtureFile = values.fixture as string | undefined;
+  if (!fixtureFile) {
+    throw usageError('--fixture=<file> is required');
+  }
+  if (!fs.existsSync(fixtureFile)) {
+    throw usageError(`Fixture ${fixtureFile} does not exist`);
+  }
+  const port = (values.port as number | undefined) ?? 8545;
+
+  // Faults to inject (only the given ones)
+  const faultOptions: [string, keyof MockRpcOptions][] = [
+    ['head', 'headBlock'],
+    ['rate-limit-every', 'rateLimitEvery'],
+    ['timeout-every', 'timeoutEvery'],
+    ['timeout-ms', 'timeoutMs'],
+    ['max-block-range', 'maxBlockRange'],
+    ['reorg-block', 'reorgBlock'],
+    ['reorg-after', 'reorgAfter']
+  ];
+  const options: MockRpcOptions = {};
+  for (const [name, key] of faultOptions) {
+    if (values[name] !== undefined) {
+      options[key] = values[name] as number;
+    }
+  }
+
+  const fixture: RpcFixture = JSON.parse(fs.readFileSync(fixtureFile, 'utf8'));
+  const server = createMockRpcServer(fixture, options);
+  const url = await server.start(port);
+
+  console.log(`Mock JSON-RPC server listening on ${url}`);
+  console.log(`Fixture: ${fixtureFile} (blocks ${fixture.fromBlock.toLocaleString()}-${fixture.toBlock.toLocaleString()}, ${fixture.logs.length} logs, chain ${fixture.chainId})`);
+  const faults = Object.entries(options).map(([key, value]) => `${key}=${value}`);
+  console.log(`Faults: ${faults.length > 0 ? faults.join(', ') : 'none'}`);
+
+  // Serve until interrupted
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+
+  await server.stop();
+  const stats = server.getStats();
+
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`Served ${stats.requests} requests`);
+  Object.entries(stats.calls)
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([method, count]) => console.log(`  ${method.padEnd(22)}: ${count}`));
+  console.log(`Injected: ${stats.rateLimited} rate limits, ${stats.timedOut} timeouts, ${stats.rangeErrors} range errors, ${stats.reorgs.length} reorgs`);
+  console.log('=============================================');
+
+  return { status: 'ok', data: { url, fixture: fixtureFile, faults: options, stats } };
+}
+
+// Run the server when started directly (npm run mock-rpc)
+if (isMainModule(import.meta.url)) {
+  runCommand(mockRpcCommand, process.argv.slice(2));
+}
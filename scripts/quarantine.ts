@@ -0,0 +1,180 @@
+/**
+ * HyperMap Log Quarantine
+ * Usage: npm run hypermap -- quarantine [list|retry] [--limit=20]
+ *    or: npm run quarantine -- [list|retry] [--limit=20]
+ *
+ * Actions:
+ *   list     Show the quarantined logs (default)
+ *              --limit=<count>   Logs shown (defaults to 20)
+ *   retry    Decode every quarantined log again with the current ABI
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Logs that fail to decode during ingestion (unknown events after a contract
+ * upgrade, malformed data) are stored in the quarantinedlogs collection with the
+ * raw log, the error and the version of the ABI that was tried. After updating
+ * the ABI in src/abi/hypermap.abi.json, 'retry' decodes them again without any RPC
+ * requests: decoded logs are stored as events, the entries they touch are rebuilt
+ * in chain order, and they leave the quarantine. Logs that still fail stay with
+ * the new error and ABI version.
+ *
+ * 'retry' exits with code 3 if any log still fails to decode.
+ */
+
+// Import libraries
+import { ethers } from 'ethers';
+import mongoose from 'mongoose';
+import {
+  createContract,
+  decodeLog,
+  setBlockHeaderStore,
+  getAbiVersion
+} from '../src/lib/services/events.js';
+import {
+  initMongoConnection,
+  storeEvents,
+  rederiveEntries,
+  getQuarantinedLogs,
+  countQuarantinedLogs,
+  quarantineLogs,
+  releaseQuarantinedLogs,
+  mongoBlockHeaderStore
+} from '../src/lib/services/mongodb.js';
+import { runCommand, isMainModule, requireEnv } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, HypermapEvent, QuarantinedLog } from '../src/types/index.js';
+
+export const quarantineCommand: CliCommand = {
+  name: 'quarantine',
+  script: 'quarantine',
+  summary: 'Show the logs that failed to decode, or decode them again with the current ABI',
+  actions: [
+    { name: 'list', description: 'Show the quarantined logs' },
+    { name: 'retry', description: 'Decode every quarantined log again with the current ABI' }
+  ],
+  defaultAction: 'list',
+  options: [
+    { name: 'limit', type: 'number', value: '<count>', description: 'list: Logs shown (defaults to 20)' }
+  ],
+  run: quarantine
+};
+
+// Quarantined logs read per batch when retrying
+const RETRY_BATCH_SIZE = 1000;
+
+// Show the quarantined logs
+async function list(limit: number, abiVersion: string): Promise<CliResult> {
+  const total = await countQuarantinedLogs();
+  const logs: QuarantinedLog[] = await getQuarantinedLogs(limit);
+
+  console.log(`\n=== QUARANTINED LOGS ===`);
+  console.log(`Total: ${total.toLocaleString()} (current ABI version ${abiVersion})`);
+
+  if (logs.length === 0) {
+    return { status: 'ok', data: { action: 'list', abiVersion, total, logs } };
+  }
+
+  console.log("╔════════════╦═══════╦══════════════╦══════════╦════════════╗");
+  console.log("║ BLOCK      ║  LOG  ║ TOPIC        ║ ATTEMPTS ║ ABI        ║");
+  console.log("╠════════════╬═══════╬══════════════╬══════════╬════════════╣");
+
+  logs.forEach(log => {
+    const topic = (log.topics[0] || '(none)').slice(0, 12).padEnd(12);
+    console.log(`║ ${String(log.blockNumber).padEnd(10)} ║ ${String(log.logIndex).padStart(5)} ║ ${topic} ║ ${String(log.attempts ?? 0).padStart(8)} ║ ${log.abiVersion.padEnd(10)} ║`);
+  });
+
+  console.log("╚════════════╩═══════╩══════════════╩══════════╩════════════╝");
+
+  logs.forEach(log => {
+    console.log(`${log.transactionHash}_${log.logIndex}: ${log.error}`);
+  });
+
+  if (total > logs.length) {
+    console.log(`...and ${(total - logs.length).toLocaleString()} more (--limit=<count> to show more)`);
+  }
+
+  return { status: 'ok', data: { action: 'list', abiVersion, total, logs } };
+}
+
+// Decode every quarantined log again with the current ABI
+async function retry(contract: ethers.Contract, abiVersion: string): Promise<CliResult> {
+  // Timestamps missing from quarantined logs come from the blockheaders collection
+  setBlockHeaderStore(mongoBlockHeaderStore);
+
+  console.log(`Retrying quarantined logs with ABI version ${abiVersion}...`);
+
+  let afterId: string | undefined;
+  let decodedCount = 0;
+  let failedCount = 0;
+  let entryCount = 0;
+
+  while (true) {
+    const logs: (QuarantinedLog & { _id: string })[] = await getQuarantinedLogs(RETRY_BATCH_SIZE, afterId);
+    if (logs.length === 0) break;
+    afterId = logs[logs.length - 1]._id;
+
+    const events: HypermapEvent[] = [];
+    const released: string[] = [];
+    const failures: QuarantinedLog[] = [];
+
+    for (const log of logs) {
+      try {
+        events.push(await decodeLog(log, contract, null));
+        released.push(log._id);
+      } catch (error) {
+        const { _id, ...rawLog } = log;
+        failures.push({
+          ...rawLog,
+          error: error instanceof Error ? error.message : String(error),
+          abiVersion
+        });
+      }
+    }
+
+    // Store before releasing, so an interrupted retry never loses a log
+    await storeEvents(events);
+    // Later blocks were applied already, so rebuild the touched entries in chain order
+    entryCount += (await rederiveEntries(events)).length;
+    await releaseQuarantinedLogs(released);
+    await quarantineLogs(failures);
+
+    decodedCount += events.length;
+    failedCount += failures.length;
+    console.log(`Batch of ${logs.length}: ${events.length} decoded, ${failures.length} still failing`);
+  }
+
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`RETRY COMPLETE: Decoded ${decodedCount} logs, rebuilt ${entryCount} entries`);
+  if (failedCount > 0) {
+    console.log(`${failedCount} logs still fail to decode (npm run quarantine -- list)`);
+  }
+  console.log('=============================================');
+
+  return {
+    status: failedCount > 0 ? 'partial' : 'ok',
+    data: { action: 'retry', abiVersion, decodedLogs: decodedCount, failedLogs: failedCount, rebuiltEntries: entryCount }
+  };
+}
+
+// Main quarantine function
+async function quarantine(values: CliValues): Promise<CliResult> {
+  const limit = (values.limit as number | undefined) ?? 20;
+
+  // Check for required configuration (no RPC needed)
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  // Decoding only needs the contract interface
+  const contract = createContract();
+  const abiVersion = getAbiVersion();
+
+  await initMongoConnection(mongoUri);
+
+  try {
+    return values.action === 'retry' ? await retry(contract, abiVersion) : await list(limit, abiVersion);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the quarantine command when started directly (npm run quarantine)
+if (isMainModule(import.meta.url)) {
+  runCommand(quarantineCommand, process.argv.slice(2));
+}
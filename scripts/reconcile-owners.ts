@@ -0,0 +1,69 @@
+/**
+ * HyperMap Owner Reconciliation
+ * Usage: npm run hypermap -- reconcile-owners [--dry-run]
+ *    or: npm run reconcile-owners -- [--dry-run]
+ *
+ * Options:
+ *   --dry-run          Count the owners that would change without writing them (or the ownership history)
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Recomputes the owner of every entry of the active deployment from the stored
+ * Transfer events: the recipient of the entry's latest Transfer, or no owner if it
+ * has none or the token was burned (transferred to the zero address), and rebuilds
+ * the ownership history (one record per Transfer) from the same events. Entries
+ * indexed before Transfer token ids were converted to namehashes have no owner, and
+ * databases indexed before ownership was recorded have no history, until this has
+ * run. No RPC requests are made.
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import { initMongoConnection, reconcileOwners, rebuildOwnershipHistory } from '../src/lib/services/mongodb.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { runCommand, isMainModule, requireEnv } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues } from '../src/types/index.js';
+
+export const reconcileOwnersCommand: CliCommand = {
+  name: 'reconcile-owners',
+  script: 'reconcile-owners',
+  summary: 'Recompute the owner and ownership history of every entry from the stored Transfer events',
+  options: [
+    { name: 'dry-run', type: 'boolean', description: 'Count the owners that would change without writing them' }
+  ],
+  run: reconcile
+};
+
+// Main reconciliation function
+async function reconcile(values: CliValues): Promise<CliResult> {
+  const deployment = getActiveDeployment();
+  const mongoUri = requireEnv('MONGODB_URI');
+  const dryRun = values['dry-run'] === true;
+
+  console.log(`Reconciling entry owners of ${deployment.name} (chain ${deployment.chainId})${dryRun ? ' (dry run)' : ''}...`);
+  await initMongoConnection(mongoUri);
+
+  try {
+    const result = await reconcileOwners(dryRun);
+    const ownershipRecords = dryRun ? null : await rebuildOwnershipHistory();
+
+    console.log('\n=============== FINAL RESULTS ===============');
+    console.log(`RECONCILIATION ${dryRun ? 'DRY RUN ' : ''}COMPLETE: Checked ${result.entries.toLocaleString()} entries`);
+    console.log(`${result.updated.toLocaleString()} owners ${dryRun ? 'would be' : 'were'} set or changed, ${result.cleared.toLocaleString()} ${dryRun ? 'would be' : 'were'} removed, ${result.unchanged.toLocaleString()} were already right`);
+    if (result.missingEntries > 0) {
+      console.log(`${result.missingEntries.toLocaleString()} transferred tokens have no entry (their Mint is not indexed yet)`);
+    }
+    if (ownershipRecords !== null) {
+      console.log(`Rebuilt the ownership history: ${ownershipRecords.toLocaleString()} Transfers recorded`);
+    }
+    console.log('=============================================');
+
+    return { status: 'ok', data: { deployment: deployment.name, chainId: deployment.chainId, dryRun, ...result, ownershipRecords } };
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+// Run the reconciliation when started directly (npm run reconcile-owners)
+if (isMainModule(import.meta.url)) {
+  runCommand(reconcileOwnersCommand, process.argv.slice(2));
+}
@@ -0,0 +1,159 @@
+/**
+ * HyperMap Fixture Recorder
+ * Usage: npm run hypermap -- record-fixture --from=27430000 --to=27434999 [--out=fixtures/sanity-27430000.json]
+ *    or: npm run record-fixture -- --from=27430000 --to=27434999 [--out=fixtures/sanity-27430000.json]
+ *
+ * Options:
+ *   --from=<block>     First block to record
+ *   --to=<block>       Last block to record
+ *   --out=<file>       Fixture file to write (defaults to fixtures/sanity-<from>.json)
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Records the raw eth_getLogs responses for the HyperMap contract in a block range,
+ * and the eth_getBlockByNumber headers of every block with logs and of the last block,
+ * into a JSON fixture for the mock JSON-RPC server (npm run mock-rpc) and the sanity
+ * check (npm run sanity-check). The logs are decoded once and the event counts by type
+ * are stored as the expected result; the expected entry state is added by
+ * `npm run sanity-check -- --db=<uri> --write-expected`.
+ */
+
+// Import libraries
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ethers } from 'ethers';
+import {
+  createProvider,
+  createContract,
+  parseLogsToEvents
+} from '../src/lib/services/events.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { toEthersLog } from '../src/lib/services/log-source.js';
+import { createRangePlanner } from '../src/lib/services/ranges.js';
+import { withRetry, RetryDecision } from '../src/lib/services/retry.js';
+import { runCommand, isMainModule, requireRpcUrls, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, HypermapEvent, RpcFixture } from '../src/types/index.js';
+
+// Get current directory
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.resolve(__dirname, '..');
+
+export const recordFixtureCommand: CliCommand = {
+  name: 'record-fixture',
+  script: 'record-fixture',
+  summary: 'Record the logs and block headers of a block range into a fixture for the mock RPC server',
+  options: [
+    { name: 'from', type: 'number', value: '<block>', description: 'First block to record (required)' },
+    { name: 'to', type: 'number', value: '<block>', description: 'Last block to record (required)' },
+    { name: 'out', type: 'string', value: '<file>', description: 'Fixture file to write (defaults to fixtures/sanity-<from>.json)' }
+  ],
+  run: recordFixture
+};
+
+// Log the retries of a recording request
+const onRetry = (label: string) => (_error: unknown, decision: RetryDecision, retry: number) => {
+  console.log(`  ${decision.category} error on ${label}, retry #${retry} in ${Math.round(decision.delayMs / 1000)}s...`);
+};
+
+// Main recorder function
+async function recordFixture(values: CliValues): Promise<CliResult> {
+  const from = values.from as number | undefined;
+  const to = values.to as number | undefined;
+  if (from === undefined || to === undefined || to < from) {
+    throw usageError('--from=<block> and --to=<block> are required, with --to not before --from');
+  }
+  const out = path.resolve((values.out as string | undefined) ?? path.join(rootDir, 'fixtures', `sanity-${from}.json`));
+
+  // Deployment to record (HYPERMAP_DEPLOYMENT, defaults to Base mainnet)
+  const deployment = getActiveDeployment();
+
+  // Check for required configuration (no MongoDB needed)
+  requireRpcUrls(deployment);
+
+  // Setup provider and contract
+  const provider = createProvider();
+  const contract = createContract();
+
+  const planner = createRangePlanner(); // Chunk sizes adapt to the RPC's range limits
+  const logs: any[] = [];
+
+  console.log(`Recording logs of ${deployment.contractAddress} in blocks ${from.toLocaleString()} to ${to.toLocaleString()}...`);
+
+  // 1. Raw eth_getLogs responses, in chunks the RPC accepts
+  let startBlock = from;
+  while (startBlock <= to) {
+    const endBlock = planner.nextEnd(startBlock, to);
+    try {
+      const chunk: any[] = await withRetry(() => provider.send('eth_getLogs', [{
+        address: deployment.contractAddress,
+        fromBlock: ethers.toQuantity(startBlock),
+        toBlock: ethers.toQuantity(endBlock)
+      }]), { onRetry: onRetry(`blocks ${startBlock}-${endBlock}`) });
+
+      planner.recordSuccess();
+      logs.push(...chunk);
+      console.log(`  Blocks ${startBlock.toLocaleString()}-${endBlock.toLocaleString()}: ${chunk.length} logs`);
+      startBlock = endBlock + 1;
+    } catch (error) {
+      // Shrink the range and retry right away if the RPC rejected its size
+      if (planner.recordRangeError(error)) continue;
+      throw error;
+    }
+  }
+
+  // 2. Headers of the blocks with logs and of the last block (the mock's chain head)
+  const blockNumbers = [...new Set([...logs.map(log => Number(log.blockNumber)), to])].sort((a, b) => a - b);
+  const blocks: any[] = [];
+  for (const blockNumber of blockNumbers) {
+    const block: any = await withRetry(
+      () => provider.send('eth_getBlockByNumber', [ethers.toQuantity(blockNumber), false]),
+      { onRetry: onRetry(`block ${blockNumber}`) }
+    );
+    blocks.push({ ...block, transactions: [] });
+  }
+  console.log(`  Recorded ${blocks.length} block headers`);
+
+  // 3. Decode once for the expected event counts
+  const timestamps = new Map<number, number>(blocks.map(block => [Number(block.number), Number(block.timestamp)]));
+  const events: HypermapEvent[] = await parseLogsToEvents(
+    logs.map(log => toEthersLog(log, timestamps.get(Number(log.blockNumber)))),
+    contract,
+    null
+  );
+  const eventCounts: Record<string, number> = {};
+  events.forEach(event => { eventCounts[event.eventType] = (eventCounts[event.eventType] || 0) + 1; });
+
+  const network = await provider.getNetwork();
+  const fixture: RpcFixture = {
+    chainId: Number(network.chainId),
+    address: deployment.contractAddress,
+    fromBlock: from,
+    toBlock: to,
+    logs,
+    blocks,
+    recordedAt: new Date().toISOString(),
+    expected: { events: eventCounts }
+  };
+
+  await fs.promises.mkdir(path.dirname(out), { recursive: true });
+  await fs.promises.writeFile(out, JSON.stringify(fixture, null, 2) + '\n');
+
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`RECORDING COMPLETE: ${logs.length} logs, ${blocks.length} block headers, ${events.length} events`);
+  Object.entries(eventCounts)
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([type, count]) => console.log(`  ${type.padEnd(10)}: ${count}`));
+  console.log(`Fixture written to ${out}`);
+  console.log('=============================================');
+
+  return {
+    status: 'ok',
+    data: { deployment: deployment.name, chainId: fixture.chainId, fromBlock: from, toBlock: to, logs: logs.length, blocks: blocks.length, eventCounts, out }
+  };
+}
+
+// Run the recorder when started directly (npm run record-fixture)
+if (isMainModule(import.meta.url)) {
+  runCommand(recordFixtureCommand, process.argv.slice(2));
+}
@@ -0,0 +1,195 @@
+/**
+ * HyperMap Raw Log Replay
+ * Usage: npm run hypermap -- replay [--from=27270000] [--to=28000000] [--source=mongo|ndjson:<dir>] [--rebuild] [--dry-run]
+ *    or: npm run replay -- [--from=27270000] [--to=28000000] [--source=mongo|ndjson:<dir>] [--rebuild] [--dry-run]
+ *
+ * Options:
+ *   --from=<block>      First block to replay (defaults to the deployment block)
+ *   --to=<block>        Last block to replay (defaults to the newest archived block)
+ *   --source=<archive>  Archive to read (defaults to RAW_LOG_ARCHIVE, or mongo)
+ *   --rebuild           Rebuild all entries from the stored events afterwards, instead
+ *                       of re-deriving only the entries touched by replayed events
+ *   --dry-run           Decode only and print the event counts, without writing
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Decodes the archived raw logs again with the current ABI and decoding code, and
+ * replaces the stored events of every archived block with the result. Entries are
+ * brought up to date from the replayed events. No RPC requests are made: timestamps
+ * come from the archived logs or the blockheaders collection. Blocks without archived
+ * logs (e.g. ingested before archiving was enabled) are left untouched.
+ *
+ * Exits with code 3 if any archived log could not be decoded (it is quarantined).
+ */
+
+// Import libraries
+import mongoose from 'mongoose';
+import {
+  createContract,
+  parseLogsToEvents,
+  setBlockHeaderStore,
+  setQuarantineStore
+} from '../src/lib/services/events.js';
+import { createRawLogArchive } from '../src/lib/services/archive.js';
+import {
+  initMongoConnection,
+  replaceEventsInBlocks,
+  rederiveEntries,
+  rebuildEntries,
+  releaseQuarantinedLogs,
+  generateEventId,
+  mongoBlockHeaderStore,
+  mongoQuarantineStore
+} from '../src/lib/services/mongodb.js';
+import { getActiveDeployment } from '../src/lib/services/deployments.js';
+import { getErrorMessage } from '../src/lib/services/retry.js';
+import { MATERIALIZE_BATCH_BLOCKS } from '../src/constants.js';
+import { runCommand, isMainModule, requireEnv, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, RawLog, RawLogArchive } from '../src/types/index.js';
+
+export const replayCommand: CliCommand = {
+  name: 'replay',
+  script: 'replay',
+  summary: 'Decode the archived raw logs again and replace the stored events with the result',
+  options: [
+    { name: 'from', type: 'number', value: '<block>', description: 'First block to replay (defaults to the deployment block)' },
+    { name: 'to', type: 'number', value: '<block>', description: 'Last block to replay (defaults to the newest archived block)' },
+    { name: 'source', type: 'string', value: '<archive>', description: 'Archive to read: mongo or ndjson:<dir> (defaults to RAW_LOG_ARCHIVE, or mongo)' },
+    { name: 'rebuild', type: 'boolean', description: 'Rebuild all entries from the stored events afterwards, instead of only the touched ones' },
+    { name: 'dry-run', type: 'boolean', description: 'Decode only and print the event counts, without writing' }
+  ],
+  run: replay
+};
+
+// Main replay function
+async function replay(values: CliValues): Promise<CliResult> {
+  const deployment = getActiveDeployment();
+  const fromBlock = (values.from as number | undefined) ?? deployment.deploymentBlock;
+  const requestedToBlock = values.to as number | undefined;
+  const source = (values.source as string | undefined)
+    ?? (process.env.RAW_LOG_ARCHIVE && process.env.RAW_LOG_ARCHIVE !== 'off' ? process.env.RAW_LOG_ARCHIVE : 'mongo');
+  const rebuild = values.rebuild === true;
+  const dryRun = values['dry-run'] === true;
+
+  // Check for required configuration (no RPC needed)
+  const mongoUri = requireEnv('MONGODB_URI');
+
+  let archive: RawLogArchive | null;
+  try {
+    archive = createRawLogArchive(source);
+  } catch (error) {
+    throw usageError(getErrorMessage(error)); // Unknown archive type
+  }
+  if (!archive) {
+    throw usageError(`No raw log archive to read (--source=${source})`);
+  }
+
+  // Decoding only needs the contract interface
+  const contract = createContract();
+
+  await initMongoConnection(mongoUri);
+
+  // Timestamps missing from archived logs come from the blockheaders collection
+  setBlockHeaderStore(mongoBlockHeaderStore);
+  if (!dryRun) {
+    // Quarantine logs the current ABI still cannot decode
+    setQuarantineStore(mongoQuarantineStore);
+  }
+
+  let totalLogs = 0;
+  let totalEvents = 0;
+  let removedEvents = 0;
+  let affectedEntries = 0;
+  const eventsByType = new Map<string, number>();
+  let toBlock: number | null = null;
+
+  try {
+    toBlock = requestedToBlock ?? await archive.getLastBlock();
+    if (toBlock === null) {
+      console.log('The archive is empty - nothing to replay');
+      return { status: 'ok', data: { deployment: deployment.name, chainId: deployment.chainId, source, fromBlock, toBlock, dryRun, totalLogs } };
+    }
+
+    console.log(`Replaying archived logs from ${source}, blocks ${fromBlock.toLocaleString()} to ${toBlock.toLocaleString()}${dryRun ? ' (dry run)' : ''}...`);
+
+    for (let startBlock = fromBlock; startBlock <= toBlock; startBlock += MATERIALIZE_BATCH_BLOCKS) {
+      const endBlock = Math.min(startBlock + MATERIALIZE_BATCH_BLOCKS - 1, toBlock);
+
+      const logs: RawLog[] = await archive.getLogs(startBlock, endBlock);
+      if (logs.length === 0) continue;
+
+      const events = await parseLogsToEvents(logs, contract, null);
+      totalLogs += logs.length;
+      totalEvents += events.length;
+      events.forEach(event => eventsByType.set(event.eventType, (eventsByType.get(event.eventType) || 0) + 1));
+
+      if (!dryRun) {
+        const blockNumbers = [...new Set(logs.map(log => log.blockNumber))];
+        const removed = await replaceEventsInBlocks(blockNumbers, events);
+        removedEvents += removed.length;
+        // Logs that decode now no longer need a quarantine retry
+        await releaseQuarantinedLogs(events.map(generateEventId));
+
+        if (!rebuild) {
+          // Entries of both the old and the new events may have changed
+          affectedEntries += (await rederiveEntries([...removed, ...events])).length;
+        }
+      }
+
+      console.log(`Blocks ${startBlock.toLocaleString()}-${endBlock.toLocaleString()}: ${logs.length} logs, ${events.length} events`);
+    }
+
+    if (rebuild && !dryRun) {
+      console.log('\nRebuilding all entries from the stored events...');
+      const applied = await rebuildEntries((batchFrom: number, batchTo: number, eventCount: number) => {
+        if (eventCount > 0) {
+          console.log(`Blocks ${batchFrom.toLocaleString()}-${batchTo.toLocaleString()}: applied ${eventCount} events`);
+        }
+      });
+      console.log(`Applied ${applied} events`);
+    }
+  } finally {
+    await mongoose.disconnect();
+  }
+
+  // Display final results
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`REPLAY COMPLETE: Decoded ${totalEvents} events from ${totalLogs} archived logs`);
+  if (totalLogs > totalEvents) {
+    console.log(`${totalLogs - totalEvents} logs could not be decoded`);
+  }
+  if (!dryRun) {
+    console.log(`Replaced ${removedEvents} stored events${rebuild ? ', rebuilt all entries' : `, re-derived ${affectedEntries} entries`}`);
+  }
+
+  if (eventsByType.size > 0) {
+    console.log('\nEvents by type:');
+    [...eventsByType.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([type, count]) => {
+        console.log(`  ${type.padEnd(10)}: ${count}`);
+      });
+  }
+  console.log('=============================================');
+
+  return {
+    status: totalLogs > totalEvents ? 'partial' : 'ok',
+    data: {
+      deployment: deployment.name,
+      chainId: deployment.chainId,
+      source,
+      fromBlock,
+      toBlock,
+      dryRun,
+      totalLogs,
+      totalEvents,
+      undecodedLogs: totalLogs - totalEvents,
+      eventCounts: Object.fromEntries(eventsByType),
+      ...(dryRun ? {} : { removedEvents, ...(rebuild ? { rebuiltEntries: true } : { rederivedEntries: affectedEntries }) })
+    }
+  };
+}
+
+// Run the replay when started directly (npm run replay)
+if (isMainModule(import.meta.url)) {
+  runCommand(replayCommand, process.argv.slice(2));
+}
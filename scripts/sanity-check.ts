@@ -0,0 +1,341 @@
+/**
+ * HyperMap Sanity Check
+ * Usage: npm run hypermap -- sanity-check [--fixture=fixtures/sanity-27430000.json] [--no-faults] [--db=<mongodb uri>] [--write-expected]
+ *    or: npm run sanity-check -- [--fixture=fixtures/sanity-27430000.json] [--no-faults] [--db=<mongodb uri>] [--write-expected]
+ *
+ * Options:
+ *   --fixture=<file>   Fixture recorded with npm run record-fixture
+ *                      (defaults to fixtures/sanity-27430000.json)
+ *   --no-faults        Serve the fixture without injected rate limits, timeouts and range errors
+ *   --db=<uri>         Also index into this MongoDB database and check the resulting entries,
+ *                      including a rollback after an injected reorg. The database is DROPPED
+ *                      first, so its name must contain 'sanity' or 'test'
+ *   --write-expected   Store the event counts and entry state of this run in the fixture
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
+ *
+ * Runs the ingestion code end to end against the mock JSON-RPC server, without network
+ * access: the fixture's block range is scanned through the provider pool, the range
+ * planner and the retry policy while the server answers with 429s, dropped requests
+ * and range errors, and the decoded events are compared with the fixture's expected
+ * counts. With --db the events are also stored and applied to entries, the chain is
+ * reorganized near the head, and the rolled back range is indexed again; the stored
+ * events and the entry state must then match the fixture. Exits with code 1 if any
+ * check fails.
+ */
+
+// Import libraries
+import { ethers } from 'ethers';
+import mongoose from 'mongoose';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  createProvider,
+  createContract,
+  parseLogsToEvents,
+  setBlockHeaderStore,
+  setQuarantineStore
+} from '../src/lib/services/events.js';
+import { createMockRpcServer, MockRpcOptions, MockRpcServer } from '../src/lib/services/mock-rpc.js';
+import { RpcProviderPool } from '../src/lib/services/provider-pool.js';
+import { createRangePlanner } from '../src/lib/services/ranges.js';
+import { withRetry, getRetryMetrics, resetRetryMetrics } from '../src/lib/services/retry.js';
+import {
+  initMongoConnection,
+  storeEvents,
+  processEventsToEntries,
+  resolveStartBlock,
+  saveCheckpoint,
+  recordCoverage,
+  getEntry,
+  getEntryHashes,
+  getEventsInBlockRange,
+  mongoBlockHeaderStore,
+  mongoQuarantineStore
+} from '../src/lib/services/mongodb.js';
+import { checkForReorg, recordChunkBlocks } from '../src/lib/services/reorgs.js';
+import { getNamehash } from '../src/lib/services/names.js';
+import { initDatabase } from '../src/models/index.js';
+import { REORG_WINDOW_BLOCKS } from '../src/constants.js';
+import { runCommand, isMainModule, usageError } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues, FixtureEntry, HypermapEntry, HypermapEvent, RpcFixture } from '../src/types/index.js';
+
+// Get current directory
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.resolve(__dirname, '..');
+
+export const sanityCheckCommand: CliCommand = {
+  name: 'sanity-check',
+  script: 'sanity-check',
+  summary: 'Run the ingestion end to end against a recorded fixture served by the mock RPC server',
+  options: [
+    { name: 'fixture', type: 'string', value: '<file>', description: 'Fixture recorded with record-fixture (defaults to fixtures/sanity-27430000.json)' },
+    { name: 'no-faults', type: 'boolean', description: 'Serve the fixture without injected rate limits, timeouts and range errors' },
+    { name: 'db', type: 'string', value: '<uri>', description: "Also index into this MongoDB database (DROPPED first, its name must contain 'sanity' or 'test')" },
+    { name: 'write-expected', type: 'boolean', description: 'Store the event counts and entry state of this run in the fixture' }
+  ],
+  run: sanityCheck
+};
+
+// Faults injected by the mock server
+const FAULTS: MockRpcOptions = {
+  rateLimitEvery: 5,
+  timeoutEvery: 11,
+  timeoutMs: 200,
+  maxBlockRange: 2000
+};
+
+// Results of the individual checks
+const checks: { name: string; passed: boolean; detail: string }[] = [];
+
+function check(name: string, passed: boolean, detail = '') {
+  checks.push({ name, passed, detail });
+  console.log(`${passed ? 'PASS' : 'FAIL'}  ${name}${detail ? `: ${detail}` : ''}`);
+}
+
+// Count events by type
+function countByType(events: HypermapEvent[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  events.forEach(event => { counts[event.eventType] = (counts[event.eventType] || 0) + 1; });
+  return counts;
+}
+
+// Serialize with sorted object keys, so equal values compare equal
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
+
+// Scan a block range like the indexer does, handing every chunk's events to onChunk
+async function scanRange(
+  provider: RpcProviderPool,
+  contract: ethers.Contract,
+  address: string,
+  fromBlock: number,
+  toBlock: number,
+  onChunk?: (events: HypermapEvent[], startBlock: number, endBlock: number) => Promise<void>
+): Promise<HypermapEvent[]> {
+  const planner = createRangePlanner();
+  const events: HypermapEvent[] = [];
+  let startBlock = fromBlock;
+
+  while (startBlock <= toBlock) {
+    const endBlock = planner.nextEnd(startBlock, toBlock);
+    let chunkEvents: HypermapEvent[];
+    try {
+      chunkEvents = await withRetry(async () => {
+        const logs = await provider.getLogs({ address, fromBlock: startBlock, toBlock: endBlock });
+        return parseLogsToEvents(logs, contract, provider);
+      });
+    } catch (error) {
+      // Shrink the range and retry right away if the server rejected its size
+      if (planner.recordRangeError(error)) continue;
+      throw error;
+    }
+
+    planner.recordSuccess();
+    await onChunk?.(chunkEvents, startBlock, endBlock);
+    events.push(...chunkEvents);
+    startBlock = endBlock + 1;
+  }
+  return events;
+}
+
+// Main sanity check function
+async function sanityCheck(values: CliValues): Promise<CliResult> {
+  const fixturePath = path.resolve((values.fixture as string | undefined) ?? path.join(rootDir, 'fixtures', 'sanity-27430000.json'));
+  const faults = values['no-faults'] !== true;
+  const dbUri = values.db as string | undefined;
+  const writeExpected = values['write-expected'] === true;
+
+  if (!fs.existsSync(fixturePath)) {
+    throw usageError(`Fixture ${fixturePath} not found (record one with npm run record-fixture)`);
+  }
+  // The command can run more than once in a process (e.g. from npm test): report this run only
+  checks.length = 0;
+  resetRetryMetrics();
+
+  // Every request is retried quickly against the local server
+  process.env.RPC_RETRY_BASE_DELAY_MS ??= '100';
+  process.env.RPC_RETRY_MAX_DELAY_MS ??= '1000';
+  process.env.RPC_RETRY_JITTER_MS ??= '0';
+
+  const fixture: RpcFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  const server = createMockRpcServer(fixture, faults ? FAULTS : {});
+  const url = await server.start();
+
+  console.log(`Fixture: ${fixturePath} (blocks ${fixture.fromBlock.toLocaleString()}-${fixture.toBlock.toLocaleString()}, ${fixture.logs.length} logs)`);
+  console.log(`Mock JSON-RPC server: ${url}${faults ? ' (with injected faults)' : ''}`);
+  console.log('----------------------------------------');
+
+  const provider = createProvider(url);
+  const contract = createContract(provider);
+
+  let eventCounts: Record<string, number> = {};
+  let entries: FixtureEntry[] = [];
+
+  try {
+    // 1. Scan the fixture's range through the faults
+    const events = await scanRange(provider, contract, fixture.address, fixture.fromBlock, fixture.toBlock);
+    eventCounts = countByType(events);
+
+    if (fixture.expected) {
+      check('event counts', canonical(eventCounts) === canonical(fixture.expected.events),
+        `expected ${canonical(fixture.expected.events)}, got ${canonical(eventCounts)}`);
+    } else {
+      check('event counts', false, 'the fixture has no expected results');
+    }
+    const missingTimestamps = events.filter(event => event.timestamp === undefined || event.timestamp === null).length;
+    check('event timestamps', missingTimestamps === 0, `${missingTimestamps} events without a timestamp`);
+
+    if (dbUri) {
+      entries = await checkDatabase(dbUri, writeExpected, fixture, events, server, provider, contract);
+    }
+  } finally {
+    await server.stop();
+    provider.destroy();
+    if (dbUri) {
+      await mongoose.disconnect();
+    }
+  }
+
+  if (writeExpected) {
+    fixture.expected = { events: eventCounts, ...(dbUri ? { entries } : fixture.expected?.entries ? { entries: fixture.expected.entries } : {}) };
+    fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+    console.log(`Expected results written to ${fixturePath}`);
+  }
+
+  const stats = server.getStats();
+  const failed = checks.filter(result => !result.passed);
+
+  console.log('\n=============== FINAL RESULTS ===============');
+  console.log(`SANITY CHECK ${failed.length === 0 ? 'PASSED' : 'FAILED'}: ${checks.length - failed.length} of ${checks.length} checks passed`);
+  failed.forEach(result => console.log(`  FAIL ${result.name}: ${result.detail}`));
+  console.log(`Mock server: ${stats.requests} requests, ${stats.rateLimited} rate limits, ${stats.timedOut} timeouts, ${stats.rangeErrors} range errors, ${stats.reorgs.length} reorgs`);
+
+  // RPC errors by category for this run
+  const retryMetrics = getRetryMetrics().filter(metric => metric.errors > 0);
+  if (retryMetrics.length > 0) {
+    console.log('RPC errors:');
+    retryMetrics.forEach(metric => {
+      console.log(`  ${metric.category.padEnd(15)}: ${metric.errors} (${metric.retries} retried, ${metric.failures} given up)`);
+    });
+  }
+  console.log('=============================================');
+
+  return {
+    status: failed.length === 0 ? 'ok' : 'failed',
+    data: {
+      fixture: fixturePath,
+      fromBlock: fixture.fromBlock,
+      toBlock: fixture.toBlock,
+      faults,
+      database: Boolean(dbUri),
+      checks,
+      eventCounts,
+      ...(dbUri ? { entries } : {}),
+      mockServer: stats,
+      retryMetrics
+    }
+  };
+}
+
+// Index the fixture into a scratch database, reorganize the chain and check the result
+async function checkDatabase(
+  dbUri: string,
+  writeExpected: boolean,
+  fixture: RpcFixture,
+  events: HypermapEvent[],
+  server: MockRpcServer,
+  provider: RpcProviderPool,
+  contract: ethers.Contract
+): Promise<FixtureEntry[]> {
+  await initMongoConnection(dbUri);
+  const databaseName = mongoose.connection.db?.databaseName ?? '';
+  if (!/sanity|test/i.test(databaseName)) {
+    throw new Error(`Refusing to drop database '${databaseName}': use a database whose name contains 'sanity' or 'test'`);
+  }
+  await mongoose.connection.dropDatabase();
+  await initDatabase();
+
+  setBlockHeaderStore(mongoBlockHeaderStore);
+  setQuarantineStore(mongoQuarantineStore);
+
+  const headBlock = await provider.getBlockNumber();
+
+  // Store, apply and checkpoint each chunk like index-events
+  const indexChunk = async (chunkEvents: HypermapEvent[], startBlock: number, endBlock: number) => {
+    await storeEvents(chunkEvents);
+    await processEventsToEntries(chunkEvents);
+    await recordChunkBlocks(provider, chunkEvents, endBlock, headBlock);
+    await saveCheckpoint('index', startBlock, endBlock);
+    await recordCoverage('index', startBlock, endBlock);
+  };
+
+  // 2. Index the range
+  await scanRange(provider, contract, fixture.address, fixture.fromBlock, fixture.toBlock, indexChunk);
+
+  // 3. Reorganize the chain from the last block with events in the reorg window (or near the head)
+  const windowStart = Math.max(fixture.fromBlock, headBlock - REORG_WINDOW_BLOCKS + 1);
+  const eventBlocks = events.map(event => event.blockNumber).filter(blockNumber => blockNumber >= windowStart);
+  const forkBlock = eventBlocks.length > 0 ? Math.max(...eventBlocks) : Math.max(windowStart, headBlock - 10);
+  server.reorg(forkBlock);
+
+  const record = await checkForReorg(provider, headBlock);
+  check('reorg detected', record !== null && record.forkBlock <= forkBlock,
+    record ? `rolled back from block ${record.forkBlock} (fork at ${forkBlock})` : `no reorg found (fork at ${forkBlock})`);
+
+  // 4. Index the rolled back range again
+  const resumeBlock = await resolveStartBlock('index');
+  if (resumeBlock <= fixture.toBlock) {
+    await scanRange(provider, contract, fixture.address, resumeBlock, fixture.toBlock, indexChunk);
+  }
+
+  const storedEvents: HypermapEvent[] = await getEventsInBlockRange(fixture.fromBlock, fixture.toBlock);
+  check('stored events', storedEvents.length === events.length, `expected ${events.length}, stored ${storedEvents.length}`);
+
+  // 5. Entry state
+  const namehashes = [...new Set(events.flatMap(getEntryHashes))].sort();
+  const entries: FixtureEntry[] = [];
+  const misnamed: string[] = [];
+  for (const namehash of namehashes) {
+    const entry: HypermapEntry | null = await getEntry(namehash);
+    if (!entry) continue;
+    // A full name must hash back to the entry's namehash
+    if (entry.fullName && getNamehash(entry.fullName) !== entry.namehash) {
+      misnamed.push(`${entry.fullName} (${entry.namehash})`);
+    }
+    entries.push({
+      namehash: entry.namehash,
+      label: entry.label,
+      parentHash: entry.parentHash,
+      owner: entry.owner,
+      gene: entry.gene,
+      notes: entry.notes,
+      facts: entry.facts
+    });
+  }
+
+  const expectedEntries = fixture.expected?.entries;
+  if (expectedEntries) {
+    const expectedByHash = new Map(expectedEntries.map(entry => [entry.namehash, canonical(entry)]));
+    const mismatched = entries.filter(entry => expectedByHash.get(entry.namehash) !== canonical(entry)).map(entry => entry.namehash);
+    const missing = expectedEntries.filter(entry => !entries.some(actual => actual.namehash === entry.namehash)).map(entry => entry.namehash);
+    check('entry state', mismatched.length === 0 && missing.length === 0,
+      `${entries.length} entries, ${mismatched.length} differ${mismatched.length ? ` (${mismatched.join(', ')})` : ''}, ${missing.length} missing${missing.length ? ` (${missing.join(', ')})` : ''}`);
+  } else {
+    check('entry state', writeExpected, `${entries.length} entries, the fixture has no expected entries (run with --write-expected)`);
+  }
+  check('entry names', misnamed.length === 0, `${misnamed.length} full names do not hash to their entry${misnamed.length ? ` (${misnamed.join(', ')})` : ''}`);
+
+  return entries;
+}
+
+// Run the sanity check when started directly (npm run sanity-check)
+if (isMainModule(import.meta.url)) {
+  runCommand(sanityCheckCommand, process.argv.slice(2));
+}
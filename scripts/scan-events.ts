@@ -1,92 +1,62 @@
 /**
  * HyperMap Event Scanner
- * Usage: npm run scan-events -- --from=27270000 [--to=27280000] [--continuous]
+ * Usage: npm run hypermap -- scan --from=27270000 [--to=27280000] [--continuous]
+ *    or: npm run scan-events -- --from=27270000 [--to=27280000] [--continuous]
  * 
  * Options:
- *   --from=<block>     Starting block number (defaults to 27270000)
+ *   --from=<block>     Starting block number (defaults to the deployment block)
  *   --to=<block>       Ending block number (defaults to 'latest')
  *   --continuous, -c   Keep scanning for new blocks after reaching latest block
+ *   (and the global options of scripts/lib/cli.ts: --json, --config, --deployment, --help)
  * 
- * Scans for events from the HyperMap contract on Base within the specified block range
+ * Scans for events from the HyperMap contract of the active deployment within the specified block range
  * and prints them to the console. Does not store them in the database.
  * 
  * In continuous mode, the scanner will wait for new blocks after catching up to the chain head.
+ * Exits with code 3 if any block range had to be given up on.
  */
 
 // Import libraries
-import { ethers } from 'ethers';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import {
   createProvider,
   createContract,
-  parseLogsToEvents,
-  formatTimestamp,
-  formatHex,
-  CONTRACT_ADDRESS
+  parseLogsToEvents
 } from '../src/lib/services/events.js';
-
-// Get current directory
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const rootDir = path.resolve(__dirname, '..');
-
-// Load .env.local only - simple direct approach
-const envLocalPath = path.resolve(rootDir, '.env.local');
-const envContent = fs.readFileSync(envLocalPath, 'utf8');
-const envLines = envContent.split('\n');
-
-for (const line of envLines) {
-  if (!line || line.startsWith('#')) continue;
-  
-  const [key, ...valueParts] = line.split('=');
-  if (key && valueParts.length > 0) {
-    const value = valueParts.join('=').trim();
-    process.env[key.trim()] = value;
-  }
-}
-
-console.log(`Loaded environment from: ${envLocalPath}`);
-console.log('BASE_RPC_URL:', process.env.BASE_RPC_URL);
-
-// Check for required environment variables
-if (!process.env.BASE_RPC_URL) {
-  console.error('Error: BASE_RPC_URL is not defined in .env or .env.local file');
-  process.exit(1);
-}
-
-// Constants
-const DEFAULT_START_BLOCK = 27270000; // First block of HyperMap deployment
-
-// Parse command line arguments
-const args = process.argv.slice(2);
-let fromBlock = DEFAULT_START_BLOCK;
-let toBlock: number | 'latest' = 'latest';
+import { getActiveDeployment, getDeploymentRpcUrls } from '../src/lib/services/deployments.js';
+import { createRangePlanner } from '../src/lib/services/ranges.js';
+import { getRetryPolicy, getRetryDecision, getRetryMetrics, sleep } from '../src/lib/services/retry.js';
+import { runCommand, isMainModule, requireRpcUrls } from './lib/cli.js';
+import { CliCommand, CliResult, CliValues } from '../src/types/index.js';
 
 // Always scan for all event types
 const eventTypes = ['Mint', 'Fact', 'Note', 'Gene', 'Transfer', 'Zero', 'Upgraded'];
-console.log("Scanning for ALL event types regardless of command line arguments");
-
-// Parse arguments
-args.forEach(arg => {
-  if (arg.startsWith('--from=')) {
-    fromBlock = parseInt(arg.split('=')[1]);
-  } else if (arg.startsWith('--to=')) {
-    const value = arg.split('=')[1];
-    toBlock = value === 'latest' ? 'latest' : parseInt(value);
-  }
-  // Continuous mode flags are handled directly in the scanEvents function
-});
 
-// Setup provider and contract
-const provider = createProvider(process.env.BASE_RPC_URL as string);
-const contract = createContract(provider);
+export const scanCommand: CliCommand = {
+  name: 'scan',
+  script: 'scan-events',
+  summary: 'Print the events of a block range without storing them',
+  options: [
+    { name: 'from', type: 'number', value: '<block>', description: 'Starting block number (defaults to the deployment block)' },
+    { name: 'to', type: 'block', value: '<block>', description: "Ending block number (defaults to 'latest')" },
+    { name: 'continuous', type: 'boolean', alias: 'c', description: 'Keep scanning for new blocks after reaching the latest block' }
+  ],
+  run: scanEvents
+};
 
 // Main scanner function
-async function scanEvents() {
-  // Create command line flag for continuous mode
-  const isContinuous = args.includes('--continuous') || args.includes('-c');
+async function scanEvents(options: CliValues): Promise<CliResult> {
+  // Deployment to scan (HYPERMAP_DEPLOYMENT, defaults to Base mainnet)
+  const deployment = getActiveDeployment();
+  console.log(`Deployment: ${deployment.name} (chain ${deployment.chainId})`);
+  requireRpcUrls(deployment);
+  
+  const fromBlock = (options.from as number | undefined) ?? deployment.deploymentBlock;
+  let toBlock = (options.to as number | 'latest' | undefined) ?? 'latest';
+  const isContinuous = options.continuous === true;
+  
+  // Setup provider and contract
+  const provider = createProvider();
+  const contract = createContract(provider);
   
   console.log(`Starting event scan from block ${fromBlock}`);
   if (isContinuous) {
@@ -98,16 +68,17 @@ async function scanEvents() {
   }
   
   console.log(`Scanning for events: ${eventTypes.join(', ')}`);
-  console.log(`Contract address: ${CONTRACT_ADDRESS}`);
-  console.log(`RPC URL: ${process.env.BASE_RPC_URL}`);
+  console.log(`Contract address: ${deployment.contractAddress}`);
+  console.log(`RPC URLs: ${getDeploymentRpcUrls(deployment)}`);
   console.log('----------------------------------------');
   
   let eventCounts: Record<string, number> = {};
   let totalEvents = 0;
+  const failedRanges: { fromBlock: number; toBlock: number; error: string }[] = [];
   eventTypes.forEach(type => { eventCounts[type] = 0 });
   
   // Get the latest block first
-  let latestBlock = await provider.getBlockNumber();
+  let latestBlock: number = await provider.getBlockNumber();
   console.log(`Current chain head is at block: ${latestBlock}`);
   
   // If 'latest' or continuous mode, use the current latest block
@@ -120,10 +91,9 @@ async function scanEvents() {
   console.log(`Scanning ${blockCount.toLocaleString()} blocks initially`);
   
   // Define chunk size and rate limiting parameters
-  const CHUNK_SIZE = 5000; // Reduce to 5k blocks for fewer rate limits
+  const planner = createRangePlanner(); // Chunk sizes adapt to the RPC's range limits
   const DEFAULT_DELAY = 2000; // Increase default delay to 2 seconds
-  const MAX_RETRIES = 5;
-  const BASE_RETRY_DELAY = 3000; // 3 seconds for exponential backoff
+  const retryPolicy = getRetryPolicy(); // Backoff and attempts for rate limits and transient errors
   
   // For continuous mode, we'll check for new blocks at this interval
   const CHAIN_HEAD_CHECK_INTERVAL = 30000; // 30 seconds
@@ -167,18 +137,16 @@ async function scanEvents() {
         }
       }
       
-      // Process in chunks of blocks
-      for (let startBlock = currentStartBlock; startBlock <= (toBlock as number); startBlock += CHUNK_SIZE) {
-        const endBlock = Math.min(startBlock + CHUNK_SIZE - 1, toBlock as number);
+      // Process in chunks of blocks, sized by the range planner
+      let startBlock = currentStartBlock;
+      while (startBlock <= (toBlock as number)) {
+        let endBlock = planner.nextEnd(startBlock, toBlock as number);
         let retryCount = 0;
         let success = false;
         
         console.log(`\nScanning blocks ${startBlock.toLocaleString()} to ${endBlock.toLocaleString()}...`);
         
-        // Update where we'll start from in the next continuous mode cycle
-        currentStartBlock = endBlock + 1;
-        
-        while (!success && retryCount <= MAX_RETRIES) {
+        while (!success && retryCount <= retryPolicy.maxRetries) {
           try {
             // Scan for all event types at once
             let totalChunkEvents = 0;
@@ -187,29 +155,17 @@ async function scanEvents() {
             let allEventsInChunk: any[] = [];
             
             // Make a single query for all events from our contract in this block range
-            try {
-              // Query with filter by contract address (without logging)
-              const allEventsFilter = { address: CONTRACT_ADDRESS };
-              const events = await provider.getLogs({
-                ...allEventsFilter,
-                fromBlock: startBlock,
-                toBlock: endBlock
-              });
-              
-              let processedCount = 0;
-              let skippedCount = 0;
-              
-              // Parse logs to structured events using our events service
-              const processedEvents = await parseLogsToEvents(events, contract, provider);
-              allEventsInChunk.push(...processedEvents);
-              
-              // Update counters
-              processedCount = processedEvents.length;
-              skippedCount = events.length - processedCount;
-              
-            } catch (queryError) {
-              console.error(`    Error querying events:`, (queryError as Error).message);
-            }
+            // (errors propagate to the retry handler so range limits and rate limits are handled)
+            const allEventsFilter = { address: deployment.contractAddress };
+            const events = await provider.getLogs({
+              ...allEventsFilter,
+              fromBlock: startBlock,
+              toBlock: endBlock
+            });
+            
+            // Parse logs to structured events using our events service
+            const processedEvents = await parseLogsToEvents(events, contract, provider);
+            allEventsInChunk.push(...processedEvents);
             
             // Process all events without detailed logging
             for (const processedEvent of allEventsInChunk) {
@@ -256,33 +212,35 @@ async function scanEvents() {
             }
             
             console.log("╚════════════╩════════════╩════════════╝");
+            planner.recordSuccess();
             success = true;
           } catch (error) {
+            // Shrink the range and retry right away if the RPC rejected its size
+            if (planner.recordRangeError(error)) {
+              endBlock = planner.nextEnd(startBlock, toBlock as number);
+              console.log(`  Range too large, retrying blocks ${startBlock.toLocaleString()} to ${endBlock.toLocaleString()} (${planner.chunkSize} blocks)...`);
+              continue;
+            }
+            
             const errorMessage = (error as Error).toString();
-            // More focused rate limit detection
-            const isTooManyRequests = 
-              errorMessage.includes("Too Many Requests") || 
-              errorMessage.includes("rate limit") || 
-              errorMessage.includes("429") ||
-              errorMessage.includes("exceeded") ||
-              ((error as any).code === "SERVER_ERROR" && errorMessage.includes("limit"));
+            const decision = getRetryDecision(error, retryCount + 1, retryPolicy);
             
-            // Show detailed error info for debugging
+            // Show error details
             console.log(`\n===== ERROR DETAILS =====`);
             console.log(`Error type: ${(error as Error).constructor.name}`);
             console.log(`Error code: ${(error as any).code || 'none'}`);
             console.log(`Error message: ${errorMessage}`);
-            console.log(`Rate limit detected: ${isTooManyRequests}`);
+            console.log(`Error category: ${decision.category}`);
             console.log(`========================\n`);
             
-            if (isTooManyRequests && retryCount < MAX_RETRIES) {
+            if (decision.retry) {
               retryCount++;
-              const delay = BASE_RETRY_DELAY * Math.pow(2, retryCount) + Math.random() * 1000;
-              console.log(`  Rate limited. Waiting ${Math.round(delay/1000)} seconds before retry #${retryCount}...`);
-              await new Promise(resolve => setTimeout(resolve, delay));
+              console.log(`  ${decision.category} error. Waiting ${Math.round(decision.delayMs/1000)} seconds before retry #${retryCount}...`);
+              await sleep(decision.delayMs);
             } else {
               console.error(`  Error scanning blocks ${startBlock} to ${endBlock}:`, errorMessage);
-              // Move on after MAX_RETRIES
+              // Move on after the last retry or a permanent error
+              failedRanges.push({ fromBlock: startBlock, toBlock: endBlock, error: errorMessage });
               success = true;
             }
           }
@@ -290,6 +248,10 @@ async function scanEvents() {
         
         // Add the default delay between chunks to avoid overwhelming the RPC node (silently)
         await new Promise(resolve => setTimeout(resolve, DEFAULT_DELAY));
+        
+        // Update where we'll start from in the next chunk and continuous mode cycle
+        startBlock = endBlock + 1;
+        currentStartBlock = startBlock;
       }
       
       // If we're not in continuous mode, break out of the outer loop
@@ -322,13 +284,38 @@ async function scanEvents() {
     console.log('No events found.');
   }
   
+  // RPC errors by category for this run
+  const retryMetrics = getRetryMetrics().filter(metric => metric.errors > 0);
+  if (retryMetrics.length > 0) {
+    console.log('RPC errors:');
+    retryMetrics.forEach(metric => {
+      console.log(`  ${metric.category.padEnd(15)}: ${metric.errors} (${metric.retries} retried, ${metric.failures} given up)`);
+    });
+  }
+  
+  if (failedRanges.length > 0) {
+    console.log(`Failed block ranges: ${failedRanges.length}`);
+    failedRanges.forEach(range => console.log(`  ${range.fromBlock}-${range.toBlock}: ${range.error}`));
+  }
+  
   console.log('=============================================');
+  
+  return {
+    status: failedRanges.length > 0 ? 'partial' : 'ok',
+    data: {
+      deployment: deployment.name,
+      chainId: deployment.chainId,
+      fromBlock,
+      toBlock,
+      totalEvents,
+      eventCounts,
+      failedRanges,
+      retryMetrics
+    }
+  };
 }
 
-// Run the scanner
-scanEvents()
-  .then(() => process.exit(0))
-  .catch(error => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
\ No newline at end of file
+// Run the scanner when started directly (npm run scan-events)
+if (isMainModule(import.meta.url)) {
+  runCommand(scanCommand, process.argv.slice(2));
+}
\ No newline at end of file
@@ -1,58 +1,60 @@
 /**
  * HyperMap Status Checker
- * Usage: npm run status
+ * Usage: npm run hypermap -- status [--json]
+ *    or: npm run status -- [--json]
  * 
- * Queries MongoDB to provide a status overview of indexed data:
+ * Queries MongoDB to provide a status overview of the data indexed for the active
+ * deployment (HYPERMAP_DEPLOYMENT, defaults to Base mainnet):
  * 1. Number of total entries
  * 2. Number of entries by event type
  * 3. Last block processed
+ * 4. Indexing checkpoints per pipeline stage
+ * 5. Recent chain reorganizations that were rolled back
+ * 6. Logs quarantined because they failed to decode, events that failed label verification
+ *    and Fact events that tried to set a fact again (fact anomalies)
+ * 7. Pending and finalized events
+ * 8. Health of the configured RPC endpoints
+ *
+ * Exits with code 3 if an RPC endpoint fails its probe.
  */
 
 // Import libraries
 import mongoose from 'mongoose';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import { initMongoConnection } from '../src/lib/services/mongodb.js';
+import {
+  initMongoConnection,
+  getCheckpoints,
+  getReorgs,
+  countQuarantinedLogs,
+  countEventsByFinality,
+  countEventsWithIntegrityIssues,
+  countFactAnomalies
+} from '../src/lib/services/mongodb.js';
+import { getFinalityPolicy } from '../src/lib/services/finality.js';
+import { createProvider } from '../src/lib/services/events.js';
+import { getActiveDeployment, getDeploymentRpcUrls } from '../src/lib/services/deployments.js';
+import { runCommand, isMainModule, requireEnv } from './lib/cli.js';
+import { CliCommand, CliResult, RpcEndpointHealth } from '../src/types/index.js';
 
-// Get current directory
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const rootDir = path.resolve(__dirname, '..');
-
-// Load .env.local only - simple direct approach
-const envLocalPath = path.resolve(rootDir, '.env.local');
-const envContent = fs.readFileSync(envLocalPath, 'utf8');
-const envLines = envContent.split('\n');
-
-for (const line of envLines) {
-  if (!line || line.startsWith('#')) continue;
-  
-  const [key, ...valueParts] = line.split('=');
-  if (key && valueParts.length > 0) {
-    const value = valueParts.join('=').trim();
-    process.env[key.trim()] = value;
-  }
-}
-
-// Check for required environment variables
-if (!process.env.MONGODB_URI) {
-  console.error('Error: MONGODB_URI is not defined in .env or .env.local file');
-  process.exit(1);
-}
+export const statusCommand: CliCommand = {
+  name: 'status',
+  script: 'status',
+  summary: 'Show what is stored for the deployment and probe its RPC endpoints',
+  options: [],
+  run: checkStatus
+};
 
 // Main status function
-async function checkStatus() {
-  console.log('Starting HyperMap status check...');
+async function checkStatus(): Promise<CliResult> {
+  // Deployment to report on
+  const deployment = getActiveDeployment();
+  const { chainId } = deployment;
+  const mongoUri = requireEnv('MONGODB_URI');
+  
+  console.log(`Starting HyperMap status check for ${deployment.name} (chain ${chainId})...`);
   
   // Connect to MongoDB
-  try {
-    await initMongoConnection(process.env.MONGODB_URI as string);
-    console.log('Connected to MongoDB');
-  } catch (error) {
-    console.error('Error connecting to MongoDB:', error);
-    process.exit(1);
-  }
+  await initMongoConnection(mongoUri);
+  console.log('Connected to MongoDB');
   
   try {
     // Import models after connection
@@ -65,7 +67,7 @@ async function checkStatus() {
     const eventTypes = ['Mint', 'Fact', 'Note', 'Gene', 'Transfer', 'Zero', 'Upgraded'];
     const eventCounts = await Promise.all(
       eventTypes.map(async (type) => {
-        const count = await HypermapEventModel.countDocuments({ eventType: type });
+        const count = await HypermapEventModel.countDocuments({ chainId, eventType: type });
         return { type, count };
       })
     );
@@ -92,8 +94,18 @@ async function checkStatus() {
     console.log(`║ TOTAL      ║ ${totalEvents.toLocaleString().padStart(10)} ║`);
     console.log("╚════════════╩════════════╝");
     
+    const missingTimestamps = await HypermapEventModel.countDocuments({ chainId, timestamp: null });
+    if (missingTimestamps > 0) {
+      console.log(`${missingTimestamps.toLocaleString()} events have no timestamp (run: npm run backfill-timestamps)`);
+    }
+    
+    const missingDetails = await HypermapEventModel.countDocuments({ chainId, txFrom: null });
+    if (missingDetails > 0) {
+      console.log(`${missingDetails.toLocaleString()} events have no transaction details (run: npm run enrich-events)`);
+    }
+    
     // 3. Get last block processed
-    const lastEvent = await HypermapEventModel.findOne()
+    const lastEvent = await HypermapEventModel.findOne({ chainId })
       .sort({ blockNumber: -1 })
       .select('blockNumber timestamp')
       .lean();
@@ -115,8 +127,120 @@ async function checkStatus() {
       console.log('No events found in the database');
     }
     
-  } catch (error) {
-    console.error('Error querying status:', error);
+    // 4. Get indexing checkpoints
+    const checkpoints = await getCheckpoints();
+    
+    console.log(`\n=== CHECKPOINTS ===`);
+    
+    if (checkpoints.length > 0) {
+      for (const checkpoint of checkpoints) {
+        const updated = checkpoint.updatedAt ? new Date(checkpoint.updatedAt).toISOString() : 'unknown';
+        console.log(`${checkpoint.stage.padEnd(8)} chain ${checkpoint.chainId}: block ${checkpoint.lastBlock.toLocaleString()} (updated ${updated})`);
+      }
+    } else {
+      console.log('No checkpoints stored yet');
+    }
+    
+    // 5. Get recent reorganizations
+    const reorgs = await getReorgs(5);
+    
+    console.log(`\n=== RECENT REORGS ===`);
+    
+    if (reorgs.length > 0) {
+      for (const reorg of reorgs) {
+        const detected = reorg.createdAt ? new Date(reorg.createdAt).toISOString() : 'unknown';
+        console.log(`${detected}: rolled back from block ${reorg.forkBlock.toLocaleString()} (${reorg.removedEventIds.length} events removed, ${reorg.affectedEntries.length} entries re-derived)`);
+      }
+    } else {
+      console.log('No reorgs detected');
+    }
+    
+    // 6. Count quarantined logs, events that failed label verification and fact anomalies
+    const quarantined = await countQuarantinedLogs();
+    const integrityIssues = await countEventsWithIntegrityIssues();
+    const factAnomalies = await countFactAnomalies();
+    
+    console.log(`\n=== QUARANTINE ===`);
+    if (quarantined > 0) {
+      console.log(`${quarantined.toLocaleString()} logs failed to decode (run: npm run quarantine -- list)`);
+    } else {
+      console.log('No quarantined logs');
+    }
+    if (integrityIssues > 0) {
+      console.log(`${integrityIssues.toLocaleString()} Mint/Fact/Note events do not match the name derivation or have invalid UTF-8 labels (integrityIssues)`);
+    }
+    if (factAnomalies['conflicting-value'] + factAnomalies['repeated-value'] > 0) {
+      console.log(`${(factAnomalies['conflicting-value'] + factAnomalies['repeated-value']).toLocaleString()} Fact events tried to set a fact again (run: npm run anomalies)`);
+    }
+    
+    // 7. Count pending and finalized events
+    const finality = await countEventsByFinality();
+    const policy = getFinalityPolicy();
+    
+    console.log(`\n=== FINALITY ===`);
+    console.log(`Final blocks: ${policy.tag ? `'${policy.tag}' block tag (falls back to ${policy.confirmationDepth} confirmations)` : `${policy.confirmationDepth} confirmations`}`);
+    console.log(`${finality.finalized.toLocaleString()} finalized, ${finality.pending.toLocaleString()} pending events`);
+    
+    // 8. Probe the configured RPC endpoints
+    let endpoints: RpcEndpointHealth[] = [];
+    if (getDeploymentRpcUrls(deployment)) {
+      const provider = createProvider();
+      endpoints = await provider.probeEndpoints();
+      provider.destroy();
+      
+      console.log(`\n=== RPC ENDPOINTS ===`);
+      console.log("╔══════════════════════════════════╦════════╦═══════════╦════════════╗");
+      console.log("║ ENDPOINT                         ║ WEIGHT ║  LATENCY  ║   STATUS   ║");
+      console.log("╠══════════════════════════════════╬════════╬═══════════╬════════════╣");
+      
+      endpoints.forEach(endpoint => {
+        const label = endpoint.label.slice(0, 32).padEnd(32);
+        const weight = String(endpoint.weight).padStart(6);
+        const latency = `${endpoint.avgLatencyMs} ms`.padStart(9);
+        const status = (endpoint.failures > 0 ? 'FAILING' : 'OK').padStart(10);
+        console.log(`║ ${label} ║ ${weight} ║ ${latency} ║ ${status} ║`);
+      });
+      
+      console.log("╚══════════════════════════════════╩════════╩═══════════╩════════════╝");
+      
+      for (const endpoint of endpoints) {
+        if (endpoint.lastError) {
+          console.log(`${endpoint.label}: ${endpoint.lastError}`);
+        }
+      }
+    }
+    
+    const failingEndpoints = endpoints.filter(endpoint => endpoint.failures > 0).length;
+    return {
+      status: failingEndpoints > 0 ? 'partial' : 'ok',
+      data: {
+        deployment: deployment.name,
+        chainId,
+        events: {
+          total: totalEvents,
+          byType: Object.fromEntries(eventCounts.map(({ type, count }) => [type, count])),
+          missingTimestamps,
+          missingDetails,
+          pending: finality.pending,
+          finalized: finality.finalized
+        },
+        lastBlock: lastEvent?.blockNumber ?? null,
+        lastBlockTime: lastEvent?.timestamp ? new Date(lastEvent.timestamp * 1000).toISOString() : null,
+        checkpoints: checkpoints.map(({ chainId, contractAddress, stage, lastBlock, updatedAt }) => ({ chainId, contractAddress, stage, lastBlock, updatedAt })),
+        reorgs: reorgs.map(reorg => ({
+          forkBlock: reorg.forkBlock,
+          headBlock: reorg.headBlock,
+          removedEvents: reorg.removedEventIds.length,
+          affectedEntries: reorg.affectedEntries.length,
+          detectedAt: reorg.createdAt ?? null
+        })),
+        quarantinedLogs: quarantined,
+        integrityIssues,
+        factAnomalies,
+        finality: policy,
+        rpcEndpoints: endpoints
+      }
+    };
   } finally {
     // Disconnect from MongoDB
     await mongoose.disconnect();
@@ -124,10 +248,7 @@ async function checkStatus() {
   }
 }
 
-// Run the status checker
-checkStatus()
-  .then(() => process.exit(0))
-  .catch(error => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
\ No newline at end of file
+// Run the status checker when started directly (npm run status)
+if (isMainModule(import.meta.url)) {
+  runCommand(statusCommand, process.argv.slice(2));
+}
\ No newline at end of file
@@ -5,38 +5,130 @@
  * with the blockchain and the database to fetch status information and extract events.
  *
  * Key features:
- * - getStatus: Fetches the current status of the ETL process, including event counts and the last processed block.
- * - extractEvents: Extracts events from the blockchain within a specified block range and stores them in the database.
+ * - getDeploymentList: Lists the registered deployments (chain and contract) the dashboard can show.
+ * - getStatus: Fetches the current status of the ETL process for a deployment, including event counts, the last processed block and indexing checkpoints.
+ * - extractEvents: Extracts events of the active deployment from the blockchain within a specified block range, stores them in the database and advances the 'extract' checkpoint.
+ * - getCoverageGaps: Lists the block ranges between deployment and the chain head that no scan has covered, or whose scan failed.
+ * - getOwnerAtPoint, getOwnershipPeriodsOf: Answer who owned a name at a block or date, and which names an address owned
+ *   over time, from the ownership history recorded from Transfer events.
+ * - getNoteHistory, diffNoteHistory: List the revisions of an entry's notes and compare two of them.
+ * - startExtractionJob, pauseExtractionJob, resumeExtractionJob, cancelExtractionJob, getExtractionJobList: Manage the
+ *   extraction jobs that the server's job worker runs chunk by chunk with extractEvents, independent of the browser.
  *
  * @dependencies
  * - ethers: Blockchain interaction library.
- * - mongodb: Native MongoDB driver for database operations.
  * - mongoose: ODM for MongoDB, used for models and schema validation.
  * - ../lib/services/events: Provides blockchain interaction utilities (provider, contract, parsing).
  * - ../types: Defines TypeScript interfaces for events and other data structures.
  * - ../models: Mongoose models for database collections.
- * - ../lib/services/mongodb: Provides database connection utilities.
+ * - ../lib/services/mongodb: Provides the database connection and event storage.
+ * - ../lib/services/deployments: Registry of the chains and contracts that can be indexed.
+ * - ../lib/services/jobs: Background worker running the extraction jobs.
+ * - ../lib/services/notes: Comparison of note revisions.
  */
 
 'use server';
 
 import { ethers } from 'ethers';
-import { MongoClient } from 'mongodb';
 import mongoose from 'mongoose';
 import {
   createProvider,
   createContract,
   parseLogsToEvents,
-  CONTRACT_ADDRESS
+  setBlockHeaderStore,
+  setRawLogArchive,
+  setQuarantineStore
 } from '../lib/services/events';
-import { HypermapEvent } from '../types';
+import {
+  HypermapEvent,
+  IndexerCheckpoint,
+  RpcEndpointHealth,
+  CoverageGap,
+  Deployment,
+  ExtractionJob,
+  JobStatus,
+  JobLogEntry,
+  JobChunkResult,
+  Address,
+  Bytes32,
+  HypermapEntry,
+  OwnershipRecord,
+  OwnershipPeriod,
+  NoteRevision,
+  NoteDiff
+} from '../types';
 import { HypermapEventModel } from '../models';
-import { initMongoConnection } from '../lib/services/mongodb';
+import {
+  initMongoConnection,
+  storeEvents,
+  getCheckpoint,
+  getCheckpoints,
+  saveCheckpoint,
+  recordCoverage,
+  recordCoverageFailure,
+  findCoverageGaps,
+  countQuarantinedLogs,
+  countEventsByFinality,
+  getReorgs,
+  mongoBlockHeaderStore,
+  mongoQuarantineStore,
+  createExtractionJob,
+  updateExtractionJobStatus,
+  getExtractionJobs,
+  getEntry,
+  getEntryByName,
+  getOwnerAt,
+  getOwnershipPeriods,
+  getNoteRevisions
+} from '../lib/services/mongodb';
+import { checkForReorg, recordChunkBlocks } from '../lib/services/reorgs';
+import { getFinalizedBlock, promoteFinalizedEvents } from '../lib/services/finality';
+import { createRangePlanner } from '../lib/services/ranges';
+import { RpcProviderPool } from '../lib/services/provider-pool';
+import { getRetryPolicy, getRetryDecision, getRetryMetrics, sleep } from '../lib/services/retry';
+import { getConfiguredRawLogArchive } from '../lib/services/archive';
+import { getDeployments, getDeployment, getActiveDeployment, getDeploymentRpcUrls } from '../lib/services/deployments';
+import { startJobWorker, isJobWorkerRunning } from '../lib/services/jobs';
+import { diffNoteRevisions } from '../lib/services/notes';
+
+// Chunk sizes adapt to the RPC's range limits and carry over between extractEvents calls
+const rangePlanner = createRangePlanner();
+
+// Provider pools shared by all server actions (one per deployment), so endpoint health carries over between requests
+const sharedProviders = new Map<string, RpcProviderPool>();
+
+/**
+ * @function getProvider
+ * @description Returns the shared provider pool of a deployment, creating it from its RPC variables
+ * (BASE_RPC_URLS / BASE_RPC_URL for Base mainnet) on first use.
+ * @param {Deployment} [deployment] - The deployment (defaults to the active one).
+ * @returns {RpcProviderPool} The shared provider pool.
+ */
+function getProvider(deployment: Deployment = getActiveDeployment()): RpcProviderPool {
+  let provider = sharedProviders.get(deployment.name);
+  if (!provider) {
+    provider = createProvider(getDeploymentRpcUrls(deployment));
+    sharedProviders.set(deployment.name, provider);
+  }
+  return provider;
+}
 
-// Constants
-const CHUNK_SIZE = 20000; // Process 20k blocks at a time
-const MAX_RETRIES = 5;
-const BASE_RETRY_DELAY = 3000; // 3 seconds for exponential backoff
+/**
+ * @function getDeploymentList
+ * @description Lists the registered deployments for the dashboard's deployment selector.
+ * Only the active deployment (HYPERMAP_DEPLOYMENT) can be extracted by this server; the others are read only.
+ * @returns {Promise<object[]>} The deployments with their chain, contract, deployment block and whether they are active.
+ */
+export async function getDeploymentList() {
+  const active = getActiveDeployment();
+  return getDeployments().map((deployment: Deployment) => ({
+    name: deployment.name,
+    chainId: deployment.chainId,
+    contractAddress: deployment.contractAddress,
+    deploymentBlock: deployment.deploymentBlock,
+    active: deployment.name === active.name
+  }));
+}
 
 /**
  * @interface StatusResponse
@@ -76,22 +168,29 @@ interface EventCount {
 
 /**
  * @function getStatus
- * @description Fetches the current status of the ETL process from the database and the blockchain.
- * It retrieves event counts by type, the last block processed in the database, and the latest block number on the blockchain.
+ * @description Fetches the current status of the ETL process for a deployment from the database and the blockchain.
+ * It retrieves event counts by type and finality, the last block processed (from the 'extract' checkpoint, falling back
+ * to the newest stored event), all indexing checkpoints, the most recent reorg rollback, the number of
+ * logs quarantined because they failed to decode, the latest and last final block numbers on the blockchain, the health of each RPC endpoint in the provider pool, and the
+ * server's RPC error counts per error category.
+ * @param {number} [chainId] - Chain id of the deployment (defaults to the active deployment).
  * @returns {Promise<object>} An object containing event statistics, processing status, and the latest blockchain block number.
  * @throws {Error} If fetching status data or connecting to the database fails.
  */
-export async function getStatus() {
+export async function getStatus(chainId = getActiveDeployment().chainId) {
   // Initialize MongoDB connection if not already connected
   if (mongoose.connection.readyState !== 1) {
     await initMongoConnection(process.env.MONGODB_URI as string);
   }
 
   try {
+    const deployment = getDeployment(chainId);
+
+
     // 1. Count events by type
     const eventTypes = ['Mint', 'Fact', 'Note', 'Gene', 'Transfer', 'Zero', 'Upgraded'];
     const eventCountsPromises = eventTypes.map(async (type) => {
-      const count = await HypermapEventModel.countDocuments({ eventType: type });
+      const count = await HypermapEventModel.countDocuments({ chainId, eventType: type });
       return { type, count };
     });
 
@@ -109,18 +208,42 @@ export async function getStatus() {
         percentage: totalEvents > 0 ? Math.round((count / totalEvents) * 100) : 0
       }));
 
-    // 2. Get last block processed from the database
-    const lastEvent = await HypermapEventModel.findOne()
+    // 2. Get last block processed from the checkpoint and the newest event in the database
+    const lastEvent = await HypermapEventModel.findOne({ chainId })
       .sort({ blockNumber: -1 })
       .select('blockNumber timestamp')
       .lean();
+    const extractCheckpoint = await getCheckpoint('extract', chainId, deployment.contractAddress);
+    // Copy to plain objects so the result can be passed to client components
+    const checkpoints: IndexerCheckpoint[] = (await getCheckpoints())
+      .filter((checkpoint: IndexerCheckpoint) => checkpoint.chainId === chainId)
+      .map((checkpoint: IndexerCheckpoint) => ({
+      chainId: checkpoint.chainId,
+      contractAddress: checkpoint.contractAddress,
+      stage: checkpoint.stage,
+      lastBlock: checkpoint.lastBlock,
+      updatedAt: checkpoint.updatedAt
+    }));
+
+    const [latestReorg] = await getReorgs(1, chainId);
+    const lastReorg = latestReorg ? {
+      forkBlock: latestReorg.forkBlock,
+      headBlock: latestReorg.headBlock,
+      removedEvents: latestReorg.removedEventIds.length,
+      affectedEntries: latestReorg.affectedEntries.length,
+      detectedAt: latestReorg.createdAt
+    } : null;
+
+    const quarantinedLogs = await countQuarantinedLogs(chainId);
+    const finality = await countEventsByFinality(chainId);
 
-    let lastBlock = 0;
+    let lastBlock = extractCheckpoint ? extractCheckpoint.lastBlock : 0;
     let lastBlockTime = new Date().toISOString();
     let hoursAgo = 0;
 
     if (lastEvent) {
-      lastBlock = lastEvent.blockNumber;
+      // Checkpoints also cover chunks without events, so only fall back to the newest event
+      lastBlock = Math.max(lastBlock, lastEvent.blockNumber);
 
       if (lastEvent.timestamp) {
         const lastBlockDate = new Date(lastEvent.timestamp * 1000);
@@ -134,12 +257,18 @@ export async function getStatus() {
 
     // 3. Get latest block number from the blockchain provider
     let latestBlockNumber = 0;
+    let finalizedBlockNumber = 0;
+    let rpcEndpoints: RpcEndpointHealth[] = [];
     try {
-        const provider = createProvider(process.env.BASE_RPC_URL as string);
+        const provider = getProvider(deployment);
         latestBlockNumber = await provider.getBlockNumber();
+        finalizedBlockNumber = Math.max(await getFinalizedBlock(provider, latestBlockNumber), 0);
+        rpcEndpoints = provider.getHealth();
     } catch (providerError) {
         console.error('Error getting latest block number from provider:', providerError);
         // Keep latestBlockNumber as 0 or handle appropriately
+        const sharedProvider = sharedProviders.get(deployment.name);
+        if (sharedProvider) rpcEndpoints = sharedProvider.getHealth();
     }
 
 
@@ -147,14 +276,22 @@ export async function getStatus() {
     return {
       events: {
         total: totalEvents,
-        byType
+        byType,
+        pending: finality.pending,
+        finalized: finality.finalized
       },
       processing: {
         lastBlock,
         lastBlockTime,
         hoursAgo,
-        latestBlockNumber // Added latest block number
-      }
+        latestBlockNumber, // Added latest block number
+        finalizedBlockNumber,
+        checkpoints,
+        lastReorg,
+        quarantinedLogs
+      },
+      rpcEndpoints,
+      retryMetrics: getRetryMetrics()
     };
   } catch (error) {
     console.error('Error getting status:', error);
@@ -163,74 +300,231 @@ export async function getStatus() {
 }
 
 /**
- * @function generateEventId
- * @description Generates a unique ID for a blockchain event based on its transaction hash and log index.
- * This ID is used as the `_id` field in the MongoDB document.
- * @param {HypermapEvent} event - The event object.
- * @returns {string} A unique identifier string.
+ * @function getCoverageGaps
+ * @description Lists the block ranges that no extract or index scan has covered, or whose scan failed,
+ * between the deployment block and the chain head according to the coverage ledger.
+ * @param {number} [fromBlock] - First block to check (defaults to the deployment block).
+ * @param {number} [toBlock] - Last block to check (defaults to the latest block on the chain).
+ * @param {number} [chainId] - Chain id of the deployment (defaults to the active deployment).
+ * @returns {Promise<object>} The gaps with the checked range and the number of covered blocks.
+ * @throws {Error} If reading the coverage ledger or the chain head fails.
+ */
+export async function getCoverageGaps(fromBlock?: number, toBlock?: number, chainId = getActiveDeployment().chainId) {
+  // Initialize MongoDB connection if not already connected
+  if (mongoose.connection.readyState !== 1) {
+    await initMongoConnection(process.env.MONGODB_URI as string);
+  }
+
+  try {
+    const deployment = getDeployment(chainId);
+    const startBlock = fromBlock ?? deployment.deploymentBlock;
+    const endBlock = toBlock ?? await getProvider(deployment).getBlockNumber();
+    const gaps = await findCoverageGaps(startBlock, endBlock, ['extract', 'index'], chainId, deployment.contractAddress);
+
+    const totalBlocks = Math.max(0, endBlock - startBlock + 1);
+    const missingBlocks = gaps.reduce((sum: number, gap: CoverageGap) => sum + gap.toBlock - gap.fromBlock + 1, 0);
+
+    return {
+      fromBlock: startBlock,
+      toBlock: endBlock,
+      totalBlocks,
+      coveredBlocks: totalBlocks - missingBlocks,
+      gaps
+    };
+  } catch (error) {
+    console.error('Error getting coverage gaps:', error);
+    throw new Error('Failed to get coverage gaps');
+  }
+}
+
+/**
+ * @function resolveEntryName
+ * @description Finds the namehash of an entry from its full name, or takes a namehash as is.
+ * @param {string} name - Full name (e.g. 'foo.bar.os') or namehash of the entry.
+ * @param {number} chainId - Chain id of the deployment.
+ * @returns {Promise<object | null>} The namehash and full name of the entry, or null if no entry has that name.
+ */
+async function resolveEntryName(name: string, chainId: number): Promise<{ namehash: Bytes32; fullName?: string } | null> {
+  if (ethers.isHexString(name, 32)) {
+    const entry: HypermapEntry | null = await getEntry(name.toLowerCase(), chainId);
+    return { namehash: name.toLowerCase(), ...(entry?.fullName ? { fullName: entry.fullName } : {}) };
+  }
+
+  const entry: HypermapEntry | null = await getEntryByName(name, chainId);
+  return entry ? { namehash: entry.namehash, fullName: entry.fullName } : null;
+}
+
+/**
+ * @interface OwnerAtResponse
+ * @description Defines the structure of the response from the getOwnerAtPoint action.
  */
-function generateEventId(event: HypermapEvent): string {
-  return `${event.transactionHash}_${event.logIndex}`;
+interface OwnerAtResponse {
+  namehash: Bytes32 | null;
+  fullName?: string;
+  owner: Address | null;          // null before the mint and after a burn
+  since: OwnershipRecord | null;  // Transfer that made it the owner
+  error?: string;                 // Why the question could not be answered
 }
 
 /**
- * @function storeEvents
- * @description Stores a list of Hypermap events in the MongoDB collection using bulk write operations.
- * It uses upsert to avoid duplicates based on the generated event ID.
- * @param {HypermapEvent[]} events - An array of event objects to store.
- * @param {any} collection - The MongoDB collection instance.
- * @returns {Promise<{ upsertedCount: number; modifiedCount: number; }>} The result of the bulk write operation.
- * @throws {Error} If a non-duplicate key error occurs during the database operation.
+ * @function getOwnerAtPoint
+ * @description Finds who owned an entry at the end of a block or at a date, from the ownership history.
+ * Dates need the timestamps of the entry's Transfers (npm run backfill-timestamps).
+ * @param {string} name - Full name (e.g. 'foo.bar.os') or namehash of the entry.
+ * @param {object} at - Either the block number (`block`) or a date (`date`, parsed with Date.parse; 'YYYY-MM-DD' is midnight UTC).
+ * @param {number} [chainId] - Chain id of the deployment (defaults to the active deployment).
+ * @returns {Promise<OwnerAtResponse>} The owner and the Transfer that made it the owner, or why it could not be found.
  */
-async function storeEvents(events: HypermapEvent[], collection: any): Promise<{
-  upsertedCount: number;
-  modifiedCount: number;
-}> {
-  if (!events.length) {
-    return { upsertedCount: 0, modifiedCount: 0 };
+export async function getOwnerAtPoint(
+  name: string,
+  at: { block?: number; date?: string },
+  chainId = getActiveDeployment().chainId
+): Promise<OwnerAtResponse> {
+  // Initialize MongoDB connection if not already connected
+  if (mongoose.connection.readyState !== 1) {
+    await initMongoConnection(process.env.MONGODB_URI as string);
+  }
+
+  const timestamp = at.date !== undefined ? Math.floor(Date.parse(at.date) / 1000) : undefined;
+  if ((at.block === undefined) === (at.date === undefined)) {
+    return { namehash: null, owner: null, since: null, error: 'Give either a block or a date' };
+  }
+  if (at.block !== undefined && (!Number.isInteger(at.block) || at.block < 0)) {
+    return { namehash: null, owner: null, since: null, error: 'Block must be a non-negative block number' };
+  }
+  if (timestamp !== undefined && Number.isNaN(timestamp)) {
+    return { namehash: null, owner: null, since: null, error: `'${at.date}' is not a date` };
   }
 
   try {
-    // Prepare events with _id field
-    const eventsWithId = events.map(event => ({
-      ...event,
-      _id: generateEventId(event)
-    }));
+    const entry = await resolveEntryName(name, chainId);
+    if (!entry) {
+      return { namehash: null, owner: null, since: null, error: `No entry is named '${name}'` };
+    }
 
-    // Use bulkWrite with updateOne operations (upsert)
-    const operations = eventsWithId.map(event => ({
-      updateOne: {
-        filter: { _id: event._id },
-        update: { $set: event },
-        upsert: true
-      }
-    }));
+    const result = await getOwnerAt(entry.namehash, timestamp !== undefined ? { timestamp } : { blockNumber: at.block as number }, chainId);
+    return { ...result, ...(entry.fullName ? { fullName: entry.fullName } : {}) };
+  } catch (error) {
+    console.error(`Error getting the owner of ${name}:`, error);
+    return { namehash: null, owner: null, since: null, error: (error as Error).message };
+  }
+}
 
-    const result = await collection.bulkWrite(operations, { ordered: false });
+/**
+ * @function getOwnershipPeriodsOf
+ * @description Lists the entries an address owned over time, with the Transfers that gave it and took each of them away.
+ * @param {string} address - The owner address.
+ * @param {number} [chainId] - Chain id of the deployment (defaults to the active deployment).
+ * @returns {Promise<object>} The ownership periods in the order they began, or why they could not be listed.
+ */
+export async function getOwnershipPeriodsOf(
+  address: string,
+  chainId = getActiveDeployment().chainId
+): Promise<{ address: Address; periods: OwnershipPeriod[]; error?: string }> {
+  // Initialize MongoDB connection if not already connected
+  if (mongoose.connection.readyState !== 1) {
+    await initMongoConnection(process.env.MONGODB_URI as string);
+  }
 
-    return {
-      upsertedCount: result.upsertedCount,
-      modifiedCount: result.modifiedCount
-    };
-  } catch (error: any) {
-    // Handle duplicate key errors gracefully
-    if (error.code === 11000) {
-      console.log(`Some events already exist in database, skipped duplicates`);
-      // Return zero counts as no new events were truly upserted from this batch
-      // due to duplicates, though bulkWrite might report upsertedCount differently
-      // depending on exact race conditions. This provides clearer feedback.
-      return { upsertedCount: 0, modifiedCount: 0 };
-    } else {
-        console.error('Error storing events during bulkWrite:', error);
-      throw error; // Rethrow other errors
+  if (!ethers.isAddress(address)) {
+    return { address, periods: [], error: `'${address}' is not an address` };
+  }
+
+  try {
+    return { address: address.toLowerCase(), periods: await getOwnershipPeriods(address, chainId) };
+  } catch (error) {
+    console.error(`Error getting the ownership history of ${address}:`, error);
+    return { address, periods: [], error: (error as Error).message };
+  }
+}
+
+/**
+ * @function getNoteHistory
+ * @description Lists every value an entry's notes had (of one label such as '~ip', or all of them), oldest first,
+ * with the block and transaction that set it.
+ * @param {string} name - Full name (e.g. 'foo.bar.os') or namehash of the entry.
+ * @param {string} [label] - Note label (all notes if omitted).
+ * @param {number} [chainId] - Chain id of the deployment (defaults to the active deployment).
+ * @returns {Promise<object>} The revisions in chain order, or why they could not be listed.
+ */
+export async function getNoteHistory(
+  name: string,
+  label?: string,
+  chainId = getActiveDeployment().chainId
+): Promise<{ namehash: Bytes32 | null; fullName?: string; revisions: NoteRevision[]; error?: string }> {
+  // Initialize MongoDB connection if not already connected
+  if (mongoose.connection.readyState !== 1) {
+    await initMongoConnection(process.env.MONGODB_URI as string);
+  }
+
+  try {
+    const entry = await resolveEntryName(name, chainId);
+    if (!entry) {
+      return { namehash: null, revisions: [], error: `No entry is named '${name}'` };
+    }
+
+    return { ...entry, revisions: await getNoteRevisions(entry.namehash, label, chainId) };
+  } catch (error) {
+    console.error(`Error getting the note history of ${name}:`, error);
+    return { namehash: null, revisions: [], error: (error as Error).message };
+  }
+}
+
+/**
+ * @function diffNoteHistory
+ * @description Compares two revisions of a note, identified by the ids of their Note events (txHash_logIndex).
+ * Without ids, the latest revision is compared with the one before it.
+ * @param {string} name - Full name (e.g. 'foo.bar.os') or namehash of the entry.
+ * @param {string} label - Note label (e.g. '~ip').
+ * @param {string} [fromId] - Event id of the older revision (defaults to the one before the newer revision).
+ * @param {string} [toId] - Event id of the newer revision (defaults to the latest).
+ * @param {number} [chainId] - Chain id of the deployment (defaults to the active deployment).
+ * @returns {Promise<object>} The differences, or why the revisions could not be compared.
+ */
+export async function diffNoteHistory(
+  name: string,
+  label: string,
+  fromId?: string,
+  toId?: string,
+  chainId = getActiveDeployment().chainId
+): Promise<{ diff: NoteDiff | null; error?: string }> {
+  // Initialize MongoDB connection if not already connected
+  if (mongoose.connection.readyState !== 1) {
+    await initMongoConnection(process.env.MONGODB_URI as string);
+  }
+
+  try {
+    const entry = await resolveEntryName(name, chainId);
+    if (!entry) {
+      return { diff: null, error: `No entry is named '${name}'` };
+    }
+
+    const revisions = await getNoteRevisions(entry.namehash, label, chainId);
+    const revisionId = (revision: NoteRevision) => `${revision.transactionHash}_${revision.logIndex}`;
+
+    const toIndex = toId !== undefined ? revisions.findIndex((revision: NoteRevision) => revisionId(revision) === toId) : revisions.length - 1;
+    if (toIndex < 0) {
+      return { diff: null, error: toId !== undefined ? `Note ${label} has no revision ${toId}` : `Note ${label} has no revisions` };
     }
+    const fromIndex = fromId !== undefined ? revisions.findIndex((revision: NoteRevision) => revisionId(revision) === fromId) : toIndex - 1;
+    if (fromIndex < 0) {
+      return { diff: null, error: fromId !== undefined ? `Note ${label} has no revision ${fromId}` : `Note ${label} has only one revision` };
+    }
+
+    return { diff: diffNoteRevisions(revisions[fromIndex], revisions[toIndex]) };
+  } catch (error) {
+    console.error(`Error comparing revisions of note ${label} of ${name}:`, error);
+    return { diff: null, error: (error as Error).message };
   }
 }
 
 /**
  * @function extractEvents
- * @description Extracts Hypermap events from the blockchain for a specific range of blocks.
- * It handles fetching logs, parsing them, storing them in the database, and includes retry logic for rate limits.
+ * @description Extracts Hypermap events of the active deployment (HYPERMAP_DEPLOYMENT) from the blockchain for a specific range of blocks.
+ * It handles fetching logs, parsing them, storing them in the database, and retries rate limits and transient errors per the shared retry policy.
+ * After a chunk is stored, the 'extract' checkpoint is advanced so later runs can resume from it.
+ * Recently ingested blocks are re-checked first; if a reorg is rolled back below `startBlock`,
+ * extraction restarts from the fork block.
  * @param {number} startBlock - The starting block number for extraction.
  * @param {number | 'latest'} endBlock - The ending block number or 'latest' to process up to the current block.
  * @returns {Promise<StatusResponse>} An object detailing the status, progress, and results of the extraction chunk.
@@ -239,35 +533,40 @@ export async function extractEvents(
   startBlock: number,
   endBlock: number | 'latest'
 ): Promise<StatusResponse> {
-  let client: MongoClient | null = null; // Declare client outside try block
-
   try {
-    // Initialize MongoDB connection
-    let db: any = null;
-    let collection: any = null;
-
-    // Connect to MongoDB using native driver
-    client = new MongoClient(process.env.MONGODB_URI as string);
-    await client.connect();
-
-    db = client.db(); // Get default database
-    collection = db.collection('hypermapevents');
+    // Events and checkpoints are stored through the shared MongoDB service
+    if (mongoose.connection.readyState !== 1) {
+      await initMongoConnection(process.env.MONGODB_URI as string);
+    }
 
     // Setup provider and contract
-    const provider = createProvider(process.env.BASE_RPC_URL as string);
+    const provider = getProvider();
     const contract = createContract(provider);
 
+    // Reuse and persist block timestamps through the blockheaders collection
+    setBlockHeaderStore(mongoBlockHeaderStore);
+    // Quarantine logs that fail to decode
+    setQuarantineStore(mongoQuarantineStore);
+    // Archive raw logs when RAW_LOG_ARCHIVE is set
+    setRawLogArchive(getConfiguredRawLogArchive());
+
+    // Roll back reorganized blocks and re-extract them if they precede this chunk
+    const headBlock = await provider.getBlockNumber();
+    const reorg = await checkForReorg(provider, headBlock);
+    if (reorg && reorg.forkBlock < startBlock) {
+      startBlock = reorg.forkBlock;
+    }
+
     // Resolve latest block if needed
     let resolvedEndBlock: number;
     if (endBlock === 'latest') {
-      resolvedEndBlock = await provider.getBlockNumber();
+      resolvedEndBlock = headBlock;
     } else {
       resolvedEndBlock = endBlock;
     }
 
     // Ensure end block is not before start block
     if (resolvedEndBlock < startBlock) {
-        if (client) await client.close(); // Ensure client is closed on early return
       return {
         status: 'error',
         message: 'End block cannot be before start block',
@@ -287,7 +586,7 @@ export async function extractEvents(
     }
 
     // Calculate final end block for this chunk
-    const chunkEndBlock = Math.min(startBlock + CHUNK_SIZE - 1, resolvedEndBlock);
+    let chunkEndBlock = rangePlanner.nextEnd(startBlock, resolvedEndBlock);
 
     // Initialize counters
     let retryCount = 0;
@@ -299,10 +598,11 @@ export async function extractEvents(
 
     // Scan for events with retry logic
     let success = false;
-    while (!success && retryCount <= MAX_RETRIES) {
+    const retryPolicy = getRetryPolicy();
+    while (!success && retryCount <= retryPolicy.maxRetries) {
       try {
         // Query with filter by contract address
-        const allEventsFilter = { address: CONTRACT_ADDRESS };
+        const allEventsFilter = { address: getActiveDeployment().contractAddress };
         const logs = await provider.getLogs({ // Changed variable name from 'events' to 'logs'
           ...allEventsFilter,
           fromBlock: startBlock,
@@ -321,29 +621,28 @@ export async function extractEvents(
           eventCountsInChunk[event.eventType] = (eventCountsInChunk[event.eventType] || 0) + 1;
         }
 
+        rangePlanner.recordSuccess();
         success = true; // Mark as successful if getLogs and parsing complete
       } catch (error: any) {
-        retryCount++;
+        // Shrink the chunk and retry right away if the RPC rejected its size
+        if (rangePlanner.recordRangeError(error)) {
+          chunkEndBlock = rangePlanner.nextEnd(startBlock, resolvedEndBlock);
+          console.warn(`Range too large, retrying blocks ${startBlock} to ${chunkEndBlock} (${rangePlanner.chunkSize} blocks)`);
+          continue;
+        }
+
         const errorMessage = error.toString();
-        console.warn(`Attempt ${retryCount}/${MAX_RETRIES} failed: ${errorMessage}`);
-
-        // Check if it's a rate limit error or potentially recoverable error
-        const isRateLimitOrRecoverable =
-            errorMessage.includes("Too Many Requests") ||
-            errorMessage.includes("rate limit") ||
-            errorMessage.includes("429") ||
-            errorMessage.includes("exceeded") ||
-            (error.code === "SERVER_ERROR" && errorMessage.includes("limit")) ||
-            error.code === "NETWORK_ERROR" || // Added network error
-            error.code === "TIMEOUT"; // Added timeout error
-
-        if (isRateLimitOrRecoverable && retryCount <= MAX_RETRIES) {
+        const decision = getRetryDecision(error, retryCount + 1, retryPolicy);
+        retryCount++;
+        console.warn(`Attempt ${retryCount}/${retryPolicy.maxRetries + 1} failed (${decision.category}): ${errorMessage}`);
+
+        if (decision.retry) {
           // Exponential backoff
-          const delay = BASE_RETRY_DELAY * Math.pow(2, retryCount - 1) + Math.random() * 1000; // Adjusted delay calculation
-          console.log(`Retrying in ${Math.round(delay / 1000)}s...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
+          console.log(`Retrying in ${Math.round(decision.delayMs / 1000)}s...`);
+          await sleep(decision.delayMs);
         } else {
-            if (client) await client.close(); // Ensure client is closed on failure
+            // Record the chunk as a coverage gap
+            await recordCoverageFailure('extract', startBlock, chunkEndBlock, errorMessage);
           // Fail after max retries or for non-recoverable errors
           return {
             status: 'error',
@@ -368,11 +667,19 @@ export async function extractEvents(
     // Store events in database
     let storeResult = { upsertedCount: 0, modifiedCount: 0 };
     if (allProcessedEvents.length > 0) {
-      storeResult = await storeEvents(allProcessedEvents, collection);
+      storeResult = await storeEvents(allProcessedEvents);
+    }
+
+    // Remember recent block hashes, then advance the checkpoint now that the chunk is fully stored
+    await recordChunkBlocks(provider, allProcessedEvents, chunkEndBlock, headBlock);
+    const advanced = await saveCheckpoint('extract', startBlock, chunkEndBlock);
+    if (!advanced) {
+      console.warn(`Checkpoint not advanced: blocks before ${startBlock} have not been extracted`);
     }
+    await recordCoverage('extract', startBlock, chunkEndBlock);
 
-    // Close MongoDB connection
-    if (client) await client.close();
+    // Promote the events of blocks that are final by now
+    await promoteFinalizedEvents(provider, headBlock);
 
     // Calculate progress based on the whole requested range
     // Note: This progress calculation assumes a linear progression through the total requested range.
@@ -433,7 +740,6 @@ export async function extractEvents(
     };
   } catch (error: any) {
     console.error(`Unexpected error in extractEvents from block ${startBlock}:`, error);
-    if (client) await client.close(); // Ensure client is closed on unexpected error
     // Catch any unexpected errors during setup or teardown
     return {
       status: 'error',
@@ -452,4 +758,214 @@ export async function extractEvents(
       error: error.stack || error.message
     };
   }
-}
\ No newline at end of file
+}
+/**
+ * @interface ExtractionJobSummary
+ * @description A plain-object view of an extraction job that can be passed to client components.
+ */
+interface ExtractionJobSummary {
+  id: string;
+  fromBlock: number;
+  toBlock: number | null; // null follows the chain head
+  targetBlock: number | null; // Last block as of the latest chunk
+  nextBlock: number;
+  status: JobStatus;
+  chunks: number;
+  eventsFound: number;
+  eventsStored: number;
+  completion: number; // Percentage of the job's range extracted
+  error?: string;
+  logs: string[]; // Timestamped log lines, oldest first
+  createdAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * @interface ExtractionJobResponse
+ * @description Defines the structure of the response from the extraction job actions.
+ */
+interface ExtractionJobResponse {
+  job: ExtractionJobSummary | null;
+  error?: string; // Why the job could not be created or changed
+}
+
+/**
+ * @function summarizeJob
+ * @description Converts a stored extraction job into a plain object with its completion percentage.
+ * @param {ExtractionJob} job - The stored job.
+ * @returns {ExtractionJobSummary} The job summary.
+ */
+function summarizeJob(job: ExtractionJob): ExtractionJobSummary {
+  const target = job.toBlock ?? job.targetBlock;
+  const completion = job.status === 'completed'
+    ? 100
+    : target !== null && target >= job.fromBlock
+      ? Math.min(100, Math.max(0, Math.round(((job.nextBlock - job.fromBlock) / (target - job.fromBlock + 1)) * 100)))
+      : 0;
+
+  return {
+    id: String(job._id),
+    fromBlock: job.fromBlock,
+    toBlock: job.toBlock,
+    targetBlock: job.targetBlock,
+    nextBlock: job.nextBlock,
+    status: job.status,
+    chunks: job.chunks,
+    eventsFound: job.eventsFound,
+    eventsStored: job.eventsStored,
+    completion,
+    error: job.error,
+    logs: job.logs.map((entry: JobLogEntry) => `[${new Date(entry.at).toISOString().substring(11, 19)}] ${entry.message}`),
+    createdAt: job.createdAt ? new Date(job.createdAt).toISOString() : undefined,
+    completedAt: job.completedAt ? new Date(job.completedAt).toISOString() : undefined
+  };
+}
+
+/**
+ * @function extractJobChunk
+ * @description Extracts one chunk of an extraction job with extractEvents (the job worker's chunk extractor).
+ * @param {number} startBlock - The first block of the chunk.
+ * @param {number | 'latest'} endBlock - The job's end block or 'latest'.
+ * @returns {Promise<JobChunkResult>} The result of the chunk.
+ */
+async function extractJobChunk(startBlock: number, endBlock: number | 'latest'): Promise<JobChunkResult> {
+  const result = await extractEvents(startBlock, endBlock);
+  return {
+    status: result.status,
+    message: result.message,
+    targetBlock: result.progress.toBlock,
+    currentBlock: result.progress.currentBlock,
+    eventsFound: result.events.total,
+    eventsStored: result.events.newInChunk,
+    nextStartBlock: result.nextStartBlock,
+    error: result.error
+  };
+}
+
+/**
+ * @function startExtractionJob
+ * @description Queues an extraction job for a block range of the active deployment and starts the
+ * server's job worker. The job runs on the server until it completes, fails, or is paused or cancelled,
+ * whether or not a browser is watching. Ranges overlapping a queued, running or paused job are refused.
+ * @param {number} startBlock - The first block to extract.
+ * @param {number | 'latest'} endBlock - The last block to extract, or 'latest' to follow the chain head.
+ * @returns {Promise<ExtractionJobResponse>} The queued job, or why it could not be created.
+ */
+export async function startExtractionJob(
+  startBlock: number,
+  endBlock: number | 'latest'
+): Promise<ExtractionJobResponse> {
+  // Initialize MongoDB connection if not already connected
+  if (mongoose.connection.readyState !== 1) {
+    await initMongoConnection(process.env.MONGODB_URI as string);
+  }
+
+  if (!Number.isInteger(startBlock) || startBlock < 0) {
+    return { job: null, error: 'Start block must be a non-negative block number' };
+  }
+  if (endBlock !== 'latest' && (!Number.isInteger(endBlock) || endBlock < startBlock)) {
+    return { job: null, error: 'End block cannot be before start block' };
+  }
+
+  try {
+    const job = await createExtractionJob(startBlock, endBlock === 'latest' ? null : endBlock);
+    startJobWorker(extractJobChunk);
+    return { job: summarizeJob(job) };
+  } catch (error) {
+    console.error('Error creating extraction job:', error);
+    return { job: null, error: (error as Error).message };
+  }
+}
+
+/**
+ * @function changeExtractionJob
+ * @description Moves an extraction job to another state if it is in one of the given states.
+ * @param {string} id - The job id.
+ * @param {JobStatus[]} from - The states the job may be in.
+ * @param {JobStatus} to - The new state.
+ * @param {string} message - Log line recorded with the change.
+ * @returns {Promise<ExtractionJobResponse>} The updated job, or why it could not be changed.
+ */
+async function changeExtractionJob(id: string, from: JobStatus[], to: JobStatus, message: string): Promise<ExtractionJobResponse> {
+  // Initialize MongoDB connection if not already connected
+  if (mongoose.connection.readyState !== 1) {
+    await initMongoConnection(process.env.MONGODB_URI as string);
+  }
+
+  try {
+    const job = await updateExtractionJobStatus(id, from, to, message);
+    if (!job) {
+      return { job: null, error: `Extraction job ${id} does not exist or is not ${from.join(' or ')}` };
+    }
+    if (to === 'queued') {
+      startJobWorker(extractJobChunk);
+    }
+    return { job: summarizeJob(job) };
+  } catch (error) {
+    console.error(`Error changing extraction job ${id}:`, error);
+    return { job: null, error: (error as Error).message };
+  }
+}
+
+/**
+ * @function pauseExtractionJob
+ * @description Pauses a queued or running extraction job. A running job stops after its current chunk.
+ * @param {string} id - The job id.
+ * @returns {Promise<ExtractionJobResponse>} The paused job, or why it could not be paused.
+ */
+export async function pauseExtractionJob(id: string): Promise<ExtractionJobResponse> {
+  return changeExtractionJob(id, ['queued', 'running'], 'paused', 'Paused');
+}
+
+/**
+ * @function resumeExtractionJob
+ * @description Queues a paused or failed extraction job again; it continues from its next block.
+ * @param {string} id - The job id.
+ * @returns {Promise<ExtractionJobResponse>} The queued job, or why it could not be resumed.
+ */
+export async function resumeExtractionJob(id: string): Promise<ExtractionJobResponse> {
+  return changeExtractionJob(id, ['paused', 'failed'], 'queued', 'Resumed');
+}
+
+/**
+ * @function cancelExtractionJob
+ * @description Cancels a queued, running or paused extraction job. A running job stops after its current chunk;
+ * the events it already stored are kept.
+ * @param {string} id - The job id.
+ * @returns {Promise<ExtractionJobResponse>} The cancelled job, or why it could not be cancelled.
+ */
+export async function cancelExtractionJob(id: string): Promise<ExtractionJobResponse> {
+  return changeExtractionJob(id, ['queued', 'running', 'paused'], 'cancelled', 'Cancelled');
+}
+
+/**
+ * @function getExtractionJobList
+ * @description Lists the most recent extraction jobs of a deployment with their progress and logs, for polling by the dashboard.
+ * For the active deployment, the job worker is started if a job is waiting for it (e.g. after a server restart).
+ * @param {number} [chainId] - Chain id of the deployment (defaults to the active deployment).
+ * @returns {Promise<object>} The jobs, newest first, and whether this server's job worker is running.
+ * @throws {Error} If reading the jobs fails.
+ */
+export async function getExtractionJobList(chainId = getActiveDeployment().chainId) {
+  // Initialize MongoDB connection if not already connected
+  if (mongoose.connection.readyState !== 1) {
+    await initMongoConnection(process.env.MONGODB_URI as string);
+  }
+
+  try {
+    const deployment = getDeployment(chainId);
+    const jobs: ExtractionJob[] = await getExtractionJobs(20, chainId, deployment.contractAddress);
+
+    if (deployment.name === getActiveDeployment().name && jobs.some(job => job.status === 'queued' || job.status === 'running')) {
+      startJobWorker(extractJobChunk);
+    }
+
+    return {
+      jobs: jobs.map(summarizeJob),
+      workerRunning: isJobWorkerRunning()
+    };
+  } catch (error) {
+    console.error('Error getting extraction jobs:', error);
+    throw new Error('Failed to get extraction jobs');
+  }
+}
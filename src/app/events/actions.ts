@@ -4,6 +4,7 @@ import mongoose from 'mongoose';
 import { HypermapEventModel } from '../../models';
 import { GetEventsParams, GetEventsResponse } from '../../types';
 import { initMongoConnection } from '../../lib/services/mongodb';
+import { getActiveDeployment } from '../../lib/services/deployments';
 
 /**
  * @function getEvents
@@ -23,8 +24,8 @@ export async function getEvents(params: GetEventsParams): Promise<GetEventsRespo
     const limit = Math.max(1, Math.min(100, params.limit || 20)); // Cap at 100 items per page
     const skip = (page - 1) * limit;
 
-    // Build query filter
-    const queryFilter: any = {};
+    // Build query filter (events of one deployment)
+    const queryFilter: any = { chainId: params.chainId ?? getActiveDeployment().chainId };
 
     // Apply type filter if provided and not 'All'
     if (params.type && params.type !== 'All') {
@@ -39,6 +40,11 @@ export async function getEvents(params: GetEventsParams): Promise<GetEventsRespo
       queryFilter.timestamp = { $gte: startTimestamp };
     }
 
+    // Only events from final blocks if requested
+    if (params.finalizedOnly) {
+      queryFilter.finality = 'finalized';
+    }
+
     // Execute queries
     const [events, totalCount] = await Promise.all([
       HypermapEventModel.find(queryFilter)
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { getEvents } from './actions';
+import { getDeploymentList } from '../actions';
 import { HypermapEvent, GetEventsParams } from '../../types';
 import Link from 'next/link';
 
@@ -41,20 +42,34 @@ function EventsContent() {
   const [error, setError] = useState<string | null>(null);
   const [filterType, setFilterType] = useState('');
   const [filterStartDate, setFilterStartDate] = useState('');
+  const [filterChain, setFilterChain] = useState(''); // Chain id of the deployment ('' = active deployment)
+  const [filterFinalized, setFilterFinalized] = useState(false); // Only events from final blocks
+  const [deployments, setDeployments] = useState<{ name: string; chainId: number; active: boolean }[]>([]);
+
+  // Effect to load the registered deployments once
+  useEffect(() => {
+    getDeploymentList()
+      .then(setDeployments)
+      .catch((err: unknown) => console.error('Failed to fetch deployments:', err));
+  }, []);
 
   // Effect to initialize state from URL params
   useEffect(() => {
     const page = parseInt(searchParams.get('page') || '1');
     const type = searchParams.get('type') || '';
     const startDate = searchParams.get('startDate') || '';
+    const chain = searchParams.get('chain') || '';
+    const finalized = searchParams.get('finalized') === '1';
     
     setCurrentPage(page);
     setFilterType(type);
     setFilterStartDate(startDate);
+    setFilterChain(chain);
+    setFilterFinalized(finalized);
   }, [searchParams]);
 
   // Fetch events from the server
-  const fetchEvents = useCallback(async (page: number, type: string, startDate: string) => {
+  const fetchEvents = useCallback(async (page: number, type: string, startDate: string, chain: string, finalizedOnly: boolean) => {
     setLoading(true);
     setError(null);
     
@@ -64,6 +79,8 @@ function EventsContent() {
         limit: EVENTS_PER_PAGE,
         type: type === 'All' ? undefined : type,
         startDate: startDate || undefined,
+        chainId: chain ? parseInt(chain) : undefined,
+        finalizedOnly,
       };
       
       const result = await getEvents(params);
@@ -79,8 +96,8 @@ function EventsContent() {
 
   // Effect to fetch data when page or filters change
   useEffect(() => {
-    fetchEvents(currentPage, filterType, filterStartDate);
-  }, [currentPage, filterType, filterStartDate, fetchEvents]);
+    fetchEvents(currentPage, filterType, filterStartDate, filterChain, filterFinalized);
+  }, [currentPage, filterType, filterStartDate, filterChain, filterFinalized, fetchEvents]);
 
   // Handler for filter changes
   const handleFilterChange = () => {
@@ -92,6 +109,8 @@ function EventsContent() {
     const params = new URLSearchParams();
     if (filterType && filterType !== 'All') params.set('type', filterType);
     if (filterStartDate) params.set('startDate', filterStartDate);
+    if (filterChain) params.set('chain', filterChain);
+    if (filterFinalized) params.set('finalized', '1');
     params.set('page', newPage.toString());
     
     router.push(`/events?${params.toString()}`);
@@ -106,6 +125,8 @@ function EventsContent() {
     const params = new URLSearchParams();
     if (filterType && filterType !== 'All') params.set('type', filterType);
     if (filterStartDate) params.set('startDate', filterStartDate);
+    if (filterChain) params.set('chain', filterChain);
+    if (filterFinalized) params.set('finalized', '1');
     params.set('page', newPage.toString());
     
     router.push(`/events?${params.toString()}`);
@@ -125,6 +146,30 @@ function EventsContent() {
 
       {/* Filters Section */}
       <div className="flex flex-wrap gap-4 mb-6 p-4 bg-gray-100 rounded">
+        {/* Deployment Filter Dropdown */}
+        <div className="w-full md:w-auto">
+          <label htmlFor="chain-filter" className="block text-sm font-medium text-gray-700 mb-1">
+            Deployment
+          </label>
+          <select
+            id="chain-filter"
+            value={filterChain}
+            onChange={(e) => {
+              setFilterChain(e.target.value);
+              // Don't call handleFilterChange here to avoid double-fetch
+            }}
+            onBlur={handleFilterChange}
+            className="w-full md:w-auto px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          >
+            <option value="">Active Deployment</option>
+            {deployments.map((deployment) => (
+              <option key={deployment.name} value={deployment.chainId}>
+                {deployment.name} (chain {deployment.chainId}){deployment.active ? ' - active' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
         {/* Type Filter Dropdown */}
         <div className="w-full md:w-auto">
           <label htmlFor="type-filter" className="block text-sm font-medium text-gray-700 mb-1">
@@ -167,6 +212,24 @@ function EventsContent() {
           />
         </div>
 
+        {/* Finality Filter Checkbox */}
+        <div className="flex items-end">
+          <label htmlFor="finalized-filter" className="flex items-center gap-2 py-2 text-sm font-medium text-gray-700">
+            <input
+              id="finalized-filter"
+              type="checkbox"
+              checked={filterFinalized}
+              onChange={(e) => {
+                setFilterFinalized(e.target.checked);
+                // Don't call handleFilterChange here to avoid double-fetch
+              }}
+              onBlur={handleFilterChange}
+              className="h-4 w-4 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Finalized only
+          </label>
+        </div>
+
         {/* Apply Button */}
         <div className="flex items-end">
           <button
@@ -230,6 +293,11 @@ function EventsContent() {
                       </td>
                       <td className="py-3 px-4 border-b">
                         {event.blockNumber.toLocaleString()}
+                        {event.finality !== 'finalized' && (
+                          <span className="ml-2 px-2 py-1 bg-yellow-100 text-yellow-800 rounded text-xs font-medium">
+                            pending
+                          </span>
+                        )}
                       </td>
                       <td className="py-3 px-4 border-b">
                         {formatTimestamp(event.timestamp)}
@@ -246,6 +314,14 @@ function EventsContent() {
                       </td>
                       <td className="py-3 px-4 border-b">
                         {'label' in event ? event.label : ''}
+                        {'integrityIssues' in event && event.integrityIssues?.length > 0 && (
+                          <span
+                            className="ml-2 px-2 py-1 bg-red-100 text-red-800 rounded text-xs font-medium"
+                            title={event.integrityIssues.join(', ')}
+                          >
+                            unverified
+                          </span>
+                        )}
                       </td>
                       <td className="py-3 px-4 border-b">
                         {'parenthash' in event ? shortenHash(event.parenthash) : ''}
@@ -5,29 +5,51 @@
  * event extraction for specific block ranges, and shows logs for ongoing extractions.
  *
  * Key features:
+ * - Selects the deployment (chain and contract) whose data is shown.
  * - Displays total events stored, event breakdown by type, and last processed block.
- * - Shows the latest block number on the connected blockchain (Base).
- * - Provides a form to initiate event extraction (start/end block).
- * - Shows real-time progress and logs during extraction.
+ * - Shows the latest block number on the selected deployment's chain.
+ * - Provides a form to queue an extraction job (start/end block) that the server runs in the background.
+ * - Lists the recent extraction jobs with their progress, pause/resume/cancel controls and logs.
  * - Handles loading states and errors gracefully.
  * - Periodically refreshes status data.
  *
  * @dependencies
  * - react: Core React library for component building.
- * - ./actions: Server actions (getStatus, extractEvents).
+ * - ./actions: Server actions (getDeploymentList, getStatus, getCoverageGaps and the extraction job actions).
  *
  * @notes
  * - Uses 'use client' directive for client-side interactivity (state, effects, event handlers).
  * - Employs Tailwind CSS for styling.
- * - Extraction process runs recursively chunk by chunk via the `runExtraction` function.
+ * - Extraction jobs run on the server, so closing the page does not stop them; the page polls their progress.
  * - The top navigation bar is handled by the RootLayout component.
  */
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import Link from 'next/link';
-import { getStatus, extractEvents } from './actions'; // Assuming actions.ts exports these
+import {
+  getDeploymentList,
+  getStatus,
+  getCoverageGaps,
+  startExtractionJob,
+  pauseExtractionJob,
+  resumeExtractionJob,
+  cancelExtractionJob,
+  getExtractionJobList
+} from './actions';
+
+/**
+ * @interface DeploymentOption
+ * @description A registered deployment the dashboard can show (only the active one can be extracted).
+ */
+interface DeploymentOption {
+  name: string;
+  chainId: number;
+  contractAddress: string;
+  deploymentBlock: number;
+  active: boolean; // Deployment the server indexes (HYPERMAP_DEPLOYMENT)
+}
 
 /**
  * @interface StatusData
@@ -41,41 +63,91 @@ interface StatusData {
       count: number;
       percentage: number;
     }[];
+    pending: number; // Events from blocks that are not final yet
+    finalized: number; // Events from final blocks
   };
   processing: {
     lastBlock: number;
     lastBlockTime: string;
     hoursAgo: number;
     latestBlockNumber: number; // Added latest block number from chain
+    finalizedBlockNumber: number; // Last final block (confirmation depth or finality tag)
+    checkpoints: {
+      chainId: number;
+      contractAddress: string;
+      stage: string;
+      lastBlock: number;
+      updatedAt?: Date;
+    }[]; // Indexing checkpoints per pipeline stage
+    lastReorg: {
+      forkBlock: number;
+      headBlock: number;
+      removedEvents: number;
+      affectedEntries: number;
+      detectedAt?: Date;
+    } | null; // Most recent chain reorganization that was rolled back
+    quarantinedLogs: number; // Logs that failed to decode
   };
+  rpcEndpoints: {
+    label: string;
+    weight: number;
+    requests: number;
+    failures: number;
+    errorRate: number;
+    avgLatencyMs: number;
+    score: number;
+    coolingDown: boolean;
+    lastError?: string;
+  }[]; // Health of each RPC endpoint in the provider pool
+  retryMetrics: {
+    category: string;
+    errors: number;
+    retries: number;
+    failures: number;
+  }[]; // Server's RPC error counts per error category
 }
 
 /**
- * @interface ExtractionStatus
- * @description Defines the structure for tracking the state of an ongoing event extraction process.
+ * @interface CoverageData
+ * @description Defines the structure for the block-range coverage fetched from the server.
  */
-interface ExtractionStatus {
-  status: 'idle' | 'running' | 'completed' | 'error';
-  message: string;
-  progress: {
-    fromBlock: number; // Starting block of the overall request
-    toBlock: number; // Target end block of the overall request (0 if 'latest')
-    currentBlock: number; // Last block processed in the most recent chunk
-    completion: number; // Overall percentage completion for the request
-  } | null;
-  events: { // Stats for the *latest* processed chunk
-    total: number;
-    newInChunk: number;
-    byType: {
-      type: string;
-      count: number;
-      percentage: number;
-    }[];
-  } | null;
-  error?: string; // Error message if status is 'error'
-  logs: string[]; // Log messages generated during extraction
+interface CoverageData {
+  fromBlock: number;
+  toBlock: number;
+  totalBlocks: number;
+  coveredBlocks: number;
+  gaps: {
+    fromBlock: number;
+    toBlock: number;
+    reason: 'unscanned' | 'failed';
+    error?: string;
+  }[]; // Ranges no scan has covered, or whose scan failed
 }
 
+/**
+ * @interface ExtractionJob
+ * @description An extraction job run by the server's job worker, as returned by the job actions.
+ */
+interface ExtractionJob {
+  id: string;
+  fromBlock: number;
+  toBlock: number | null; // null follows the chain head ('latest')
+  targetBlock: number | null; // Last block as of the latest chunk
+  nextBlock: number; // First block of the next chunk
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  chunks: number;
+  eventsFound: number;
+  eventsStored: number;
+  completion: number; // Percentage of the job's range extracted
+  error?: string; // Error of a failed job
+  logs: string[]; // Timestamped log lines, oldest first
+  createdAt?: string;
+  completedAt?: string;
+}
+
+// Jobs that hold on to their block range (and are polled more often)
+const ACTIVE_JOB_STATUSES: ExtractionJob['status'][] = ['queued', 'running', 'paused'];
+
 /**
  * @component Home
  * @description The main functional component for the dashboard page.
@@ -86,15 +158,23 @@ export default function Home() {
   const [statusData, setStatusData] = useState<StatusData | null>(null);
   const [statusLoading, setStatusLoading] = useState(true);
   const [statusError, setStatusError] = useState<string | null>(null);
-
-  // State for the event extraction process
-  const [extractionStatus, setExtractionStatus] = useState<ExtractionStatus>({
-    status: 'idle',
-    message: 'Ready to extract events',
-    progress: null,
-    events: null,
-    logs: []
-  });
+  const [coverageData, setCoverageData] = useState<CoverageData | null>(null);
+
+  // State for the deployment being shown (undefined until the list is loaded: the active deployment)
+  const [deployments, setDeployments] = useState<DeploymentOption[]>([]);
+  const [selectedChainId, setSelectedChainId] = useState<number | undefined>(undefined);
+  const selectedDeployment = deployments.find(deployment => deployment.chainId === selectedChainId)
+    ?? deployments.find(deployment => deployment.active);
+
+  // State for the extraction jobs of the selected deployment
+  const [jobs, setJobs] = useState<ExtractionJob[]>([]);
+  const [workerRunning, setWorkerRunning] = useState(false);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null); // Job whose log is shown (defaults to the newest)
+  const [jobError, setJobError] = useState<string | null>(null);
+  const [jobActionPending, setJobActionPending] = useState(false);
+  const activeJobCount = useRef(0);
+  const selectedJob = jobs.find(job => job.id === selectedJobId) ?? jobs[0];
+  const hasActiveJob = jobs.some(job => job.status === 'queued' || job.status === 'running');
 
   // State for user input (block range)
   const [startBlock, setStartBlock] = useState<string>('');
@@ -110,10 +190,17 @@ export default function Home() {
   const fetchStatusData = useCallback(async () => {
     try {
       setStatusLoading(true);
-      const data = await getStatus();
+      const data = await getStatus(selectedChainId);
       setStatusData(data);
       setStatusError(null);
 
+      // Coverage is optional: a failure here should not hide the status
+      try {
+        setCoverageData(await getCoverageGaps(undefined, data.processing.latestBlockNumber || undefined, selectedChainId));
+      } catch (coverageError) {
+        console.error('Error fetching coverage gaps:', coverageError);
+      }
+
       // Set default start block input only if it's currently empty and we have a last processed block
       if (data && data.processing.lastBlock > 0 && startBlock === '') {
         setStartBlock((data.processing.lastBlock + 1).toString());
@@ -124,7 +211,31 @@ export default function Home() {
     } finally {
       setStatusLoading(false);
     }
-  }, [startBlock]); // Dependency: startBlock ensures default value is set correctly relative to input state
+  }, [startBlock, selectedChainId]); // Dependencies: startBlock ensures default value is set correctly relative to input state, selectedChainId refetches on a new deployment
+
+  /**
+   * @effect Load Deployments
+   * @description Fetches the registered deployments once for the deployment selector.
+   */
+  useEffect(() => {
+    getDeploymentList()
+      .then(setDeployments)
+      .catch((error: unknown) => console.error('Error fetching deployments:', error));
+  }, []);
+
+  /**
+   * @function selectDeployment
+   * @description Shows the data of another deployment; the start block default is recomputed from its status.
+   * @param {number} chainId - Chain id of the deployment.
+   */
+  const selectDeployment = (chainId: number) => {
+    setSelectedChainId(chainId);
+    setStartBlock('');
+    setCoverageData(null);
+    setJobs([]);
+    setSelectedJobId(null);
+    setJobError(null);
+  };
 
   /**
    * @effect Initial Load and Periodic Refresh
@@ -140,29 +251,48 @@ export default function Home() {
   }, [fetchStatusData]); // Dependency: fetchStatusData ensures the correct function version is used
 
   /**
-   * @function addLog
-   * @description Adds a timestamped message to the extraction logs state.
-   * @param {string} message - The log message to add.
+   * @function fetchJobs
+   * @description Fetches the recent extraction jobs of the selected deployment from the server action
+   * `getExtractionJobList`. Refreshes the status data when a job has stopped running.
    */
-  const addLog = (message: string) => {
-    setExtractionStatus(prev => ({
-      ...prev,
-      // Keep only the last 100 logs to prevent excessive memory usage
-      logs: [...prev.logs, `[${new Date().toISOString().substring(11, 19)}] ${message}`].slice(-100)
-    }));
-  };
+  const fetchJobs = useCallback(async () => {
+    try {
+      const data = await getExtractionJobList(selectedChainId);
+      setJobs(data.jobs);
+      setWorkerRunning(data.workerRunning);
+
+      // A job finished, failed or was paused since the last poll: its events are in the status now
+      const active = data.jobs.filter((job: ExtractionJob) => job.status === 'queued' || job.status === 'running').length;
+      if (active < activeJobCount.current) {
+        fetchStatusData();
+      }
+      activeJobCount.current = active;
+    } catch (error) {
+      console.error('Error fetching extraction jobs:', error);
+    }
+  }, [selectedChainId, fetchStatusData]);
+
+  /**
+   * @effect Job Polling
+   * @description Polls the extraction jobs every 2 seconds while a job is queued or running,
+   * and every 30 seconds otherwise. Cleans up the interval on unmount.
+   */
+  useEffect(() => {
+    fetchJobs();
+
+    const interval = setInterval(fetchJobs, hasActiveJob ? 2000 : 30000);
+    return () => clearInterval(interval);
+  }, [fetchJobs, hasActiveJob]);
 
   /**
    * @function startExtraction
-   * @description Validates user input and initiates the event extraction process
-   * by calling the `runExtraction` function with the starting block.
-   * Resets the extraction status state.
+   * @description Validates user input and queues an extraction job for the block range with the
+   * `startExtractionJob` server action. The server refuses ranges that overlap an active job.
    */
   const startExtraction = async () => {
     // Validate start block input
     if (!startBlock || isNaN(parseInt(startBlock)) || parseInt(startBlock) < 0) {
-      addLog('Error: Valid Start block is required');
-      setExtractionStatus(prev => ({ ...prev, status: 'error', message: 'Invalid start block.' }));
+      setJobError('Invalid start block: a valid start block is required.');
       return;
     }
 
@@ -172,140 +302,51 @@ export default function Home() {
     // Validate end block input if provided
     if (endBlock) {
         if (isNaN(parseInt(endBlock)) || parseInt(endBlock) < 0) {
-            addLog('Error: End block must be a valid number.');
-            setExtractionStatus(prev => ({ ...prev, status: 'error', message: 'Invalid end block.' }));
+            setJobError('Invalid end block: the end block must be a valid number.');
             return;
         }
         const parsedEndBlock = parseInt(endBlock);
         if (parsedEndBlock < fromBlock) {
-            addLog('Error: End block cannot be earlier than start block.');
-            setExtractionStatus(prev => ({ ...prev, status: 'error', message: 'End block < Start block.' }));
+            setJobError('Invalid end block: the end block cannot be earlier than the start block.');
             return;
         }
         toBlock = parsedEndBlock;
     }
 
-
-    // Reset extraction status and start logging
-    setExtractionStatus({
-      status: 'running',
-      message: `Starting extraction from block ${fromBlock.toLocaleString()}...`,
-      progress: {
-        fromBlock,
-        toBlock: typeof toBlock === 'number' ? toBlock : 0, // Store target block (0 if 'latest')
-        currentBlock: fromBlock, // Initially, current block is the start block
-        completion: 0
-      },
-      events: null, // Reset event stats
-      logs: [`[${new Date().toISOString().substring(11, 19)}] Starting extraction from block ${fromBlock.toLocaleString()} to ${typeof toBlock === 'number' ? toBlock.toLocaleString() : 'latest'}...`]
-    });
-
+    setJobActionPending(true);
     try {
-        // Initiate the recursive extraction process
-      await runExtraction(fromBlock, toBlock);
+      const result = await startExtractionJob(fromBlock, toBlock);
+      setJobError(result.error ?? null);
+      if (result.job) {
+        setSelectedJobId(result.job.id);
+        await fetchJobs();
+      }
     } catch (error) {
-        // Catch errors that might bubble up from runExtraction (though it should handle its own errors)
-      console.error('Extraction initiation error:', error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      addLog(`FATAL ERROR during extraction: ${errorMessage}`);
-      setExtractionStatus(prev => ({
-        ...prev,
-        status: 'error',
-        message: `Error during extraction: ${errorMessage}`,
-        error: errorMessage
-      }));
+      console.error('Error starting extraction job:', error);
+      setJobError(`Error starting extraction job: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setJobActionPending(false);
     }
   };
 
   /**
-   * @function runExtraction
-   * @description Recursively calls the `extractEvents` server action for chunks
-   * of blocks until the target end block is reached or an error occurs.
-   * Updates the extraction status state based on the results of each chunk.
-   * @param {number} currentStartBlock - The starting block for the current chunk.
-   * @param {number | 'latest'} targetEndBlock - The final target end block for the overall extraction request.
+   * @function changeJob
+   * @description Pauses, resumes or cancels an extraction job and refreshes the job list.
+   * A running job stops after the chunk it is extracting.
+   * @param {(id: string) => Promise<{ error?: string }>} action - The server action to call.
+   * @param {string} id - The job id.
    */
-  const runExtraction = async (
-    currentStartBlock: number,
-    targetEndBlock: number | 'latest' // The *original* target end block
-  ) => {
+  const changeJob = async (action: (id: string) => Promise<{ error?: string }>, id: string) => {
+    setJobActionPending(true);
     try {
-      addLog(`Requesting chunk starting from block ${currentStartBlock.toLocaleString()}...`);
-
-      // Call the server action to extract events for the current chunk/range
-      const result = await extractEvents(currentStartBlock, targetEndBlock);
-
-      // Update extraction status based on the result from the server action
-      setExtractionStatus(prev => ({
-        ...prev,
-        // If server reports error, status is error. Otherwise, use server status ('running' or 'completed').
-        status: result.status === 'error' ? 'error' : result.status,
-        message: result.message, // Message from the server action
-        // Update progress details from the server action result
-        progress: result.progress ? {
-            // Keep the original fromBlock and toBlock from the initial request
-            fromBlock: prev.progress?.fromBlock ?? result.progress.fromBlock,
-            toBlock: prev.progress?.toBlock ?? result.progress.toBlock,
-            currentBlock: result.progress.currentBlock,
-            completion: result.progress.completion
-          } : prev.progress, // Fallback to previous progress if none provided
-        events: result.events, // Event stats for the processed chunk
-        error: result.error // Error details if any
-      }));
-
-      // Log the outcome message from the server
-      addLog(result.message);
-      if (result.events && result.events.newInChunk > 0) {
-        addLog(`-> Stored ${result.events.newInChunk} new events from this chunk.`);
-      } else if (result.events && result.events.total > 0 && result.events.newInChunk === 0) {
-          addLog(`-> Found ${result.events.total} events in this chunk (already stored).`);
-      } else if (result.events && result.events.total === 0) {
-          addLog(`-> No events found in this chunk.`);
-      }
-
-      // Handle errors reported by the server action
-      if (result.status === 'error') {
-          addLog(`ERROR reported by server: ${result.error || 'Unknown error'}`);
-          // Stop further processing
-          return;
-      }
-
-      // If the server indicates there's a next chunk to process, continue recursively
-      if (result.nextStartBlock) {
-        // Small delay before next chunk request to avoid overwhelming the server/RPC
-        await new Promise(resolve => setTimeout(resolve, 500));
-
-        // Fetch overall status again before starting next chunk (optional, but gives updated context)
-        await fetchStatusData();
-
-        addLog(`Continuing extraction from block ${result.nextStartBlock.toLocaleString()}...`);
-        // Recursive call for the next chunk
-        await runExtraction(result.nextStartBlock, targetEndBlock);
-      } else {
-        // No nextStartBlock means the process completed (or stopped due to an error handled above)
-        if (result.status === 'completed') {
-             addLog('Extraction process completed successfully!');
-        } else {
-            // This case should ideally not be reached if errors are handled correctly above
-            addLog('Extraction process finished, but status is not "completed". Check logs.');
-        }
-        // Final status refresh after completion
-        await fetchStatusData();
-      }
+      const result = await action(id);
+      setJobError(result.error ?? null);
+      await fetchJobs();
     } catch (error) {
-      // Catch unexpected errors during the client-side execution of this function
-      console.error('Client-side chunk extraction error:', error);
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      addLog(`CLIENT ERROR processing chunk: ${errorMessage}`);
-      // Update status to reflect client-side error and stop
-      setExtractionStatus(prev => ({
-          ...prev,
-          status: 'error',
-          message: `Client-side error: ${errorMessage}`,
-          error: errorMessage
-      }));
-      // Optionally re-throw if needed, but usually better to just update state and log
-      // throw error;
+      console.error('Error changing extraction job:', error);
+      setJobError(`Error changing extraction job: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setJobActionPending(false);
     }
   };
 
@@ -316,7 +357,28 @@ export default function Home() {
       {/* Centered content area with max-width */}
       <div className="w-full max-w-[1200px] mx-auto">
         {/* Main title of the dashboard */}
-        <h1 className="text-3xl font-bold mb-8 text-center">HyperMap ETL Dashboard</h1>
+        <h1 className="text-3xl font-bold mb-4 text-center">HyperMap ETL Dashboard</h1>
+
+        {/* Deployment selector (all views below are scoped to the selected chain) */}
+        <div className="flex justify-center items-center gap-2 mb-8">
+          <label htmlFor="deployment" className="text-sm font-medium text-gray-700">Deployment</label>
+          <select
+            id="deployment"
+            value={selectedDeployment?.chainId ?? ''}
+            onChange={(e) => selectDeployment(parseInt(e.target.value))}
+            className="px-3 py-1 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+            disabled={deployments.length === 0}
+          >
+            {deployments.map(deployment => (
+              <option key={deployment.name} value={deployment.chainId}>
+                {deployment.name} (chain {deployment.chainId}){deployment.active ? ' - active' : ''}
+              </option>
+            ))}
+          </select>
+          {selectedDeployment && (
+            <span className="text-xs text-gray-500 font-mono">{selectedDeployment.contractAddress}</span>
+          )}
+        </div>
 
         {/* Responsive container for status cards */}
         <div className="cards-container mb-8"> {/* Added margin-bottom */}
@@ -371,6 +433,111 @@ export default function Home() {
 
                 </div>
 
+                {/* Indexing Checkpoints */}
+                {statusData.processing.checkpoints.length > 0 && (
+                  <div className="mb-4">
+                    <p className="text-gray-600 text-sm">Checkpoints</p>
+                    {statusData.processing.checkpoints.map(checkpoint => (
+                      <p key={`${checkpoint.chainId}-${checkpoint.contractAddress}-${checkpoint.stage}`} className="text-xs text-gray-500">
+                        <span className="font-medium capitalize">{checkpoint.stage}</span>: block {checkpoint.lastBlock.toLocaleString()}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {/* Last Reorg Rollback */}
+                {statusData.processing.lastReorg && (
+                  <div className="mb-4">
+                    <p className="text-gray-600 text-sm">Last Reorg</p>
+                    <p className="text-xs text-orange-600">
+                      Rolled back from block {statusData.processing.lastReorg.forkBlock.toLocaleString()}
+                      {' '}({statusData.processing.lastReorg.removedEvents} events removed, {statusData.processing.lastReorg.affectedEntries} entries re-derived)
+                    </p>
+                    {statusData.processing.lastReorg.detectedAt && (
+                      <p className="text-xs text-gray-500">{new Date(statusData.processing.lastReorg.detectedAt).toLocaleString()}</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Finality */}
+                {statusData.events.total > 0 && (
+                  <div className="mb-4">
+                    <p className="text-gray-600 text-sm">Finality</p>
+                    <p className="text-xs text-gray-500">
+                      {statusData.events.finalized.toLocaleString()} finalized, {statusData.events.pending.toLocaleString()} pending events
+                    </p>
+                    {statusData.processing.finalizedBlockNumber > 0 && (
+                      <p className="text-xs text-gray-500">Final up to block {statusData.processing.finalizedBlockNumber.toLocaleString()}</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Quarantined Logs */}
+                {statusData.processing.quarantinedLogs > 0 && (
+                  <div className="mb-4">
+                    <p className="text-gray-600 text-sm">Quarantine</p>
+                    <p className="text-xs text-orange-600">
+                      {statusData.processing.quarantinedLogs.toLocaleString()} logs failed to decode (npm run quarantine -- list)
+                    </p>
+                  </div>
+                )}
+
+                {/* RPC Endpoint Health */}
+                {statusData.rpcEndpoints.length > 0 && (
+                  <div className="mb-4">
+                    <p className="text-gray-600 text-sm">RPC Endpoints</p>
+                    {statusData.rpcEndpoints.map(endpoint => (
+                      <p key={endpoint.label} className={`text-xs ${endpoint.coolingDown ? 'text-orange-600' : 'text-gray-500'}`}>
+                        <span className="font-medium">{endpoint.label}</span>: score {endpoint.score}, {Math.round(endpoint.errorRate * 100)}% errors, {endpoint.avgLatencyMs} ms
+                        {endpoint.coolingDown && ' (cooling down)'}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {/* RPC Errors by Category */}
+                {statusData.retryMetrics.some(metric => metric.errors > 0) && (
+                  <div className="mb-4">
+                    <p className="text-gray-600 text-sm">RPC Errors</p>
+                    {statusData.retryMetrics.filter(metric => metric.errors > 0).map(metric => (
+                      <p key={metric.category} className="text-xs text-gray-500">
+                        <span className="font-medium">{metric.category}</span>: {metric.errors} ({metric.retries} retried, {metric.failures} given up)
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {/* Block-Range Coverage */}
+                {coverageData && (
+                  <div className="mb-4">
+                    <p className="text-gray-600 text-sm">Coverage</p>
+                    <p className="text-xs text-gray-500">
+                      {coverageData.totalBlocks > 0
+                        ? Math.floor((coverageData.coveredBlocks / coverageData.totalBlocks) * 100)
+                        : 100}% of blocks scanned, {coverageData.gaps.length} gaps
+                    </p>
+                    {coverageData.gaps.slice(0, 5).map(gap => (
+                      <p key={gap.fromBlock} className={`text-xs ${gap.reason === 'failed' ? 'text-orange-600' : 'text-gray-500'}`}>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setStartBlock(gap.fromBlock.toString());
+                            setEndBlock(gap.toBlock.toString());
+                          }}
+                          className="text-blue-600 hover:underline"
+                          title="Use this range for extraction"
+                        >
+                          {gap.fromBlock.toLocaleString()} - {gap.toBlock.toLocaleString()}
+                        </button>
+                        {' '}({gap.reason}{gap.error ? `: ${gap.error}` : ''})
+                      </p>
+                    ))}
+                    {coverageData.gaps.length > 5 && (
+                      <p className="text-xs text-gray-500">...and {coverageData.gaps.length - 5} more (npm run gaps)</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Latest Block on Chain */}
                 <div>
                   <p className="text-gray-600 text-sm">Latest Block (Base Chain)</p>
@@ -460,12 +627,11 @@ export default function Home() {
                     type="number"
                     value={startBlock}
                     onChange={(e) => setStartBlock(e.target.value)}
-                    placeholder="e.g., 27270000"
+                    placeholder={`e.g., ${selectedDeployment?.deploymentBlock ?? 27270000}`}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                     required
                     min="0"
                     aria-required="true"
-                    disabled={extractionStatus.status === 'running'}
                   />
                 </div>
                 <div>
@@ -481,7 +647,6 @@ export default function Home() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
                     min={startBlock || "0"} // End block >= start block
                     aria-describedby="end-block-desc"
-                    disabled={extractionStatus.status === 'running'}
                   />
                    <p id="end-block-desc" className="mt-1 text-xs text-gray-500">Leave blank for 'latest'.</p>
                 </div>
@@ -489,105 +654,148 @@ export default function Home() {
 
               <button
                 type="submit"
-                disabled={extractionStatus.status === 'running' || statusLoading} // Disable if status is loading too
+                disabled={jobActionPending || statusLoading || selectedDeployment?.active === false} // Disable if status is loading too, or for read-only deployments
                 className="w-full bg-blue-600 text-white py-2 px-4 rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:bg-blue-300 disabled:cursor-not-allowed transition duration-150 ease-in-out"
               >
-                {extractionStatus.status === 'running' ? (
+                {jobActionPending ? (
                    <div className="flex items-center justify-center">
                      <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                           <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                           <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                        </svg>
-                     <span>Extraction Running...</span>
+                     <span>Working...</span>
                    </div>
-                ) : 'Extract Events'}
+                ) : 'Start Extraction Job'}
               </button>
+              {selectedDeployment?.active === false && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Only the active deployment can be extracted here; set HYPERMAP_DEPLOYMENT={selectedDeployment.name} on the server to extract this one.
+                </p>
+              )}
+              {jobError && (
+                <p className="mt-2 text-xs text-red-600" role="alert">{jobError}</p>
+              )}
             </form>
 
-            {/* Extraction Progress & Status Display */}
-            {extractionStatus.status !== 'idle' && (
-              <div aria-live="polite">
-                <div className="flex items-center justify-between mb-1">
-                  <p className="text-sm font-medium">
-                    Status: <span className={`font-semibold ${
-                         extractionStatus.status === 'running' ? 'text-blue-600' :
-                         extractionStatus.status === 'completed' ? 'text-green-600' :
-                         extractionStatus.status === 'error' ? 'text-red-600' : 'text-gray-700'
-                      }`}>
-                      {extractionStatus.status.charAt(0).toUpperCase() + extractionStatus.status.slice(1)}
-                    </span>
-                  </p>
-                  {extractionStatus.progress && (
-                     <p className="text-sm text-gray-600">
-                       {extractionStatus.progress.completion}% Complete
-                     </p>
-                   )}
-                </div>
-
-                {/* Progress Bar */}
-                {extractionStatus.progress && (
-                  <div className="w-full bg-gray-200 rounded-full h-2.5 mb-3 overflow-hidden">
-                    <div
-                      className={`h-2.5 rounded-full transition-all duration-300 ease-out ${
-                           extractionStatus.status === 'error' ? 'bg-red-500' :
-                           extractionStatus.status === 'completed' ? 'bg-green-500' : 'bg-blue-600'
-                       }`}
-                      style={{ width: `${Math.min(100, extractionStatus.progress.completion)}%` }}
-                      role="progressbar"
-                      aria-valuenow={extractionStatus.progress.completion}
-                      aria-valuemin="0"
-                      aria-valuemax="100"
-                      aria-label="Extraction progress"
-                    ></div>
-                  </div>
-                )}
-
-                 {/* Progress Details */}
-                 {extractionStatus.progress && (
-                     <p className="text-xs text-gray-500 mb-3">
-                       Processing Block: {extractionStatus.progress.currentBlock.toLocaleString()}
-                        (Target: {extractionStatus.progress.toBlock > 0 ? extractionStatus.progress.toBlock.toLocaleString() : 'latest'})
-                     </p>
-                 )}
-
-
-                {/* Event Stats for Current/Last Chunk */}
-                {extractionStatus.events && (
-                  <div className="mb-3 p-3 bg-gray-50 border border-gray-200 rounded-md text-xs">
-                      <p className="font-medium mb-1">Last Chunk Stats ({extractionStatus.progress?.fromBlock.toLocaleString()} - {extractionStatus.progress?.currentBlock.toLocaleString()}):</p>
-                    <p>Events Found: <span className="font-semibold">{extractionStatus.events.total.toLocaleString()}</span></p>
-                    <p>New Events Stored: <span className="font-semibold text-green-700">{extractionStatus.events.newInChunk.toLocaleString()}</span></p>
-                    {/* Optionally show breakdown by type for the chunk */}
-                    {/* {extractionStatus.events.byType.map(e => <p key={e.type}>- {e.type}: {e.count}</p>)} */}
-                  </div>
-                )}
-
-                 {/* Display Error Message */}
-                 {extractionStatus.status === 'error' && extractionStatus.error && (
-                     <div className="text-red-600 p-3 border border-red-200 rounded bg-red-50 text-xs">
-                         <p className="font-medium">Error:</p>
-                         <p>{extractionStatus.error}</p>
-                     </div>
-                 )}
+            {/* Extraction Jobs (run by the server; the page only polls them) */}
+            <div aria-live="polite">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold">Extraction Jobs</h3>
+                <span className="text-xs text-gray-500">Worker: {workerRunning ? 'running' : 'idle'}</span>
               </div>
-            )}
+              {jobs.length === 0 ? (
+                <p className="text-xs text-gray-500">No extraction jobs yet.</p>
+              ) : (
+                <ul className="space-y-2 max-h-80 overflow-y-auto">
+                  {jobs.map(job => (
+                    <li
+                      key={job.id}
+                      className={`p-3 border rounded-md text-xs cursor-pointer ${job.id === selectedJob?.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}
+                      onClick={() => setSelectedJobId(job.id)}
+                    >
+                      <div className="flex items-center justify-between mb-1">
+                        <p className="font-medium">
+                          Blocks {job.fromBlock.toLocaleString()} - {job.toBlock !== null ? job.toBlock.toLocaleString() : 'latest'}
+                        </p>
+                        <span className={`font-semibold ${
+                             job.status === 'running' ? 'text-blue-600' :
+                             job.status === 'completed' ? 'text-green-600' :
+                             job.status === 'failed' ? 'text-red-600' :
+                             job.status === 'paused' ? 'text-yellow-600' : 'text-gray-700'
+                          }`}>
+                          {job.status.charAt(0).toUpperCase() + job.status.slice(1)} ({job.completion}%)
+                        </span>
+                      </div>
+
+                      {/* Progress Bar */}
+                      <div className="w-full bg-gray-200 rounded-full h-2.5 mb-2 overflow-hidden">
+                        <div
+                          className={`h-2.5 rounded-full transition-all duration-300 ease-out ${
+                               job.status === 'failed' ? 'bg-red-500' :
+                               job.status === 'completed' ? 'bg-green-500' :
+                               job.status === 'running' ? 'bg-blue-600' : 'bg-gray-400'
+                           }`}
+                          style={{ width: `${Math.min(100, job.completion)}%` }}
+                          role="progressbar"
+                          aria-valuenow={job.completion}
+                          aria-valuemin="0"
+                          aria-valuemax="100"
+                          aria-label="Extraction job progress"
+                        ></div>
+                      </div>
+
+                      <p className="text-gray-500 mb-1">
+                        Next Block: {job.nextBlock.toLocaleString()}
+                        {' '}(Target: {job.targetBlock !== null ? job.targetBlock.toLocaleString() : 'latest'})
+                        {' '}| Chunks: {job.chunks.toLocaleString()}
+                        {' '}| Events Found: {job.eventsFound.toLocaleString()}
+                        {' '}| New Events Stored: <span className="font-semibold text-green-700">{job.eventsStored.toLocaleString()}</span>
+                      </p>
+
+                      {/* Display Error Message */}
+                      {job.status === 'failed' && job.error && (
+                        <p className="text-red-600 mb-1 truncate" title={job.error}>Error: {job.error}</p>
+                      )}
+
+                      {/* Job Controls (a running job stops after its current chunk) */}
+                      {selectedDeployment?.active !== false && (
+                        <div className="flex gap-2">
+                          {(job.status === 'queued' || job.status === 'running') && (
+                            <button
+                              type="button"
+                              onClick={(e) => { e.stopPropagation(); changeJob(pauseExtractionJob, job.id); }}
+                              disabled={jobActionPending}
+                              className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                            >
+                              Pause
+                            </button>
+                          )}
+                          {(job.status === 'paused' || job.status === 'failed') && (
+                            <button
+                              type="button"
+                              onClick={(e) => { e.stopPropagation(); changeJob(resumeExtractionJob, job.id); }}
+                              disabled={jobActionPending}
+                              className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                            >
+                              Resume
+                            </button>
+                          )}
+                          {ACTIVE_JOB_STATUSES.includes(job.status) && (
+                            <button
+                              type="button"
+                              onClick={(e) => { e.stopPropagation(); changeJob(cancelExtractionJob, job.id); }}
+                              disabled={jobActionPending}
+                              className="px-2 py-1 border border-red-300 text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
         </div> {/* End of cards-container */}
 
 
-        {/* Extraction Log Display (appears below cards when active) */}
-        {extractionStatus.status !== 'idle' && (
+        {/* Extraction Log Display of the selected job (appears below cards when there is a job) */}
+        {selectedJob && (
           <div className="bg-white p-6 rounded-lg shadow-md">
-            <h3 className="text-lg font-semibold mb-3">Extraction Log</h3>
+            <h3 className="text-lg font-semibold mb-3">
+              Extraction Log (blocks {selectedJob.fromBlock.toLocaleString()} - {selectedJob.toBlock !== null ? selectedJob.toBlock.toLocaleString() : 'latest'})
+            </h3>
             <div
               className="bg-gray-900 text-gray-200 p-4 rounded-md text-xs font-mono h-60 overflow-y-auto border border-gray-700"
               role="log"
               aria-live="polite" // Announce log updates
             >
-              {extractionStatus.logs.length === 0 ? (
+              {selectedJob.logs.length === 0 ? (
                  <p className="text-gray-400 italic">Log is empty.</p>
               ) : (
-                extractionStatus.logs.map((log, i) => (
+                selectedJob.logs.map((log, i) => (
                   // Use index as key is acceptable here as logs are append-only
                   <div key={i} className="whitespace-pre-wrap break-words">{log}</div>
                 ))
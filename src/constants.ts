@@ -2,17 +2,50 @@
  * HyperMap ETL Constants
  */
 
-// Contract Constants
+// Contract Constants (of the Base mainnet deployment; everything else reads them through src/lib/services/deployments.ts)
 export const CONTRACT_ADDRESS = '0x000000000044C6B8Cb4d8f0F889a3E47664EAeda';
 export const ROOT_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000';
 export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+export const PLACEHOLDER_LABEL = '[unknown]'; // Label of a parent entry created before its Mint event was seen
 
 // Blockchain Constants
 export const DEFAULT_CHAIN_ID = 8453; // Base Mainnet
+export const DEFAULT_DEPLOYMENT = 'base'; // Deployment used when HYPERMAP_DEPLOYMENT is not set
 
 // Indexing Constants
 export const DEFAULT_START_BLOCK = 27270000; // First block of HyperMap deployment
 export const DEFAULT_CHUNK_SIZE = 20000;      // Events fetched per batch
 export const DEFAULT_BASE_DELAY_MS = 1000;    // Delay between chunks
 export const MIN_CHUNK_SIZE = 1000;          // Minimum chunk size when auto-adjusting
-export const MAX_RETRIES = 5;                // Maximum retries for rate limit errors
\ No newline at end of file
+export const MAX_RETRIES = 5;                // Maximum retries for rate limit errors
+export const REORG_WINDOW_BLOCKS = 300;      // Recent blocks re-checked for reorganizations
+export const DEFAULT_CONFIRMATION_DEPTH = 150; // Blocks below the head before events are final (CONFIRMATION_DEPTH, keep below REORG_WINDOW_BLOCKS)
+export const BLOCK_HEADER_BATCH_SIZE = 50;   // Block headers requested concurrently (sent as one JSON-RPC batch)
+export const BLOCK_CACHE_SIZE = 10000;       // Block timestamps kept in memory
+export const TX_DETAILS_BATCH_SIZE = 25;     // Transactions looked up concurrently when enriching (2 requests each)
+export const TX_DETAILS_CACHE_SIZE = 10000;  // Transaction details kept in memory
+export const MAX_CHUNK_SIZE = 100000;        // Maximum chunk size when auto-adjusting (unless RPC_MAX_BLOCK_RANGE is set)
+export const CHUNK_GROWTH_SUCCESSES = 3;     // Successful chunks before the chunk size doubles again
+export const RPC_REQUEST_TIMEOUT_MS = 30000; // Timeout for a single JSON-RPC request to one endpoint
+export const RPC_MAX_COOLDOWN_MS = 60000;    // Longest time a failing RPC endpoint is skipped
+export const RETRY_BASE_DELAY_MS = 3000;     // First retry delay, doubled on each further attempt
+export const RETRY_MAX_DELAY_MS = 60000;     // Upper bound for a single retry delay
+export const RETRY_JITTER_MS = 1000;         // Random delay added to each retry
+export const FOLLOW_POLL_INTERVAL_MS = 4000; // Chain head polling interval in follow mode without a WebSocket
+export const FOLLOW_STALE_MS = 60000;        // Reconnect a WebSocket that delivered no new block for this long
+export const LEASE_SIZE_BLOCKS = 100000;     // Blocks per backfill lease
+export const LEASE_DURATION_MS = 300000;     // Backfill lease claim duration (renewed after every chunk)
+export const LEASE_MAX_ATTEMPTS = 5;         // Claims of a backfill lease before it is marked failed
+export const MATERIALIZE_BATCH_BLOCKS = 10000; // Blocks of stored events applied to entries per batch
+export const FULL_NAME_BATCH_SIZE = 1000;    // Parent entries whose children are named per batch when backfilling full names
+export const ENTRY_WRITE_BATCH_SIZE = 1000;  // Entry updates or ownership records sent per bulk write when reconciling owners
+export const RAW_LOG_FILE_BLOCKS = 100000;   // Blocks per NDJSON raw log archive file
+export const JOB_STALE_MS = 600000;          // Running extraction job without a heartbeat for this long is taken over
+export const JOB_LOG_LIMIT = 200;            // Log lines kept per extraction job
+
+// CLI Constants (exit codes of npm run hypermap and the ingestion scripts)
+export const CLI_CONFIG_FILE = 'hypermap.config.json'; // Config file read when present (below the environment and .env files)
+export const EXIT_OK = 0;                    // Command succeeded
+export const EXIT_FAILURE = 1;               // Command failed
+export const EXIT_USAGE = 2;                 // Invalid arguments or missing configuration
+export const EXIT_PARTIAL = 3;               // Command finished, but part of the work failed (e.g. block ranges given up on)
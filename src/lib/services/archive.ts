@@ -0,0 +1,129 @@
+/**
+ * Raw Log Archive Service
+ *
+ * Keeps the raw contract logs behind every parsed event, so events and entries can be
+ * rebuilt from the archive alone after a decoding fix (see scripts/replay.ts).
+ * Logs are keyed by `txHash_logIndex`, like event ids. Two archives are available:
+ * - mongo: the rawlogs collection
+ * - ndjson:<dir>: one NDJSON file per RAW_LOG_FILE_BLOCKS blocks in a directory
+ *
+ * The archive is chosen with the RAW_LOG_ARCHIVE environment variable
+ * (`mongo`, `ndjson:./archive`, or unset / `off` to disable archiving).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { RawLog, RawLogArchive } from '../../types';
+import { RAW_LOG_FILE_BLOCKS } from '../../constants';
+import { mongoRawLogArchive } from './mongodb';
+
+/**
+ * Get the id of a raw log (txHash_logIndex)
+ */
+export function getRawLogId(log: RawLog): string {
+  return `${log.transactionHash}_${log.logIndex}`;
+}
+
+/**
+ * Create an archive that appends raw logs to NDJSON files in a directory.
+ * Files are append-only; when a log is written again (e.g. after a rescan), the
+ * last line for its id wins when reading.
+ */
+export function createNdjsonArchive(dir: string): RawLogArchive {
+  const getFilePath = (fileStart: number) => path.join(dir, `rawlogs-${fileStart}.ndjson`);
+  const getFileStart = (blockNumber: number) => Math.floor(blockNumber / RAW_LOG_FILE_BLOCKS) * RAW_LOG_FILE_BLOCKS;
+
+  // Start blocks of the archive files, in block order
+  async function listFileStarts(): Promise<number[]> {
+    const names = await fs.promises.readdir(dir).catch(() => [] as string[]);
+    return names
+      .map(name => /^rawlogs-(\d+)\.ndjson$/.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1]))
+      .sort((a, b) => a - b);
+  }
+
+  // Read a file, keeping the last line for each log id
+  async function readFile(fileStart: number): Promise<RawLog[]> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(getFilePath(fileStart), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const logs = new Map<string, RawLog>();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      const log: RawLog = JSON.parse(line);
+      logs.set(getRawLogId(log), log);
+    }
+    return [...logs.values()];
+  }
+
+  return {
+    async saveLogs(logs: RawLog[]): Promise<void> {
+      await fs.promises.mkdir(dir, { recursive: true });
+
+      const byFile = new Map<number, string[]>();
+      for (const log of logs) {
+        const fileStart = getFileStart(log.blockNumber);
+        if (!byFile.has(fileStart)) byFile.set(fileStart, []);
+        byFile.get(fileStart)?.push(JSON.stringify(log));
+      }
+      for (const [fileStart, lines] of byFile) {
+        await fs.promises.appendFile(getFilePath(fileStart), lines.join('\n') + '\n');
+      }
+    },
+
+    async getLogs(fromBlock: number, toBlock: number): Promise<RawLog[]> {
+      const logs: RawLog[] = [];
+      for (let fileStart = getFileStart(fromBlock); fileStart <= toBlock; fileStart += RAW_LOG_FILE_BLOCKS) {
+        logs.push(...(await readFile(fileStart)).filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock));
+      }
+      return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    },
+
+    async getLastBlock(): Promise<number | null> {
+      const fileStarts = await listFileStarts();
+      for (const fileStart of fileStarts.reverse()) {
+        const logs = await readFile(fileStart);
+        if (logs.length > 0) return Math.max(...logs.map(log => log.blockNumber));
+      }
+      return null;
+    },
+
+    async removeFromBlock(blockNumber: number): Promise<void> {
+      for (const fileStart of await listFileStarts()) {
+        if (fileStart + RAW_LOG_FILE_BLOCKS <= blockNumber) continue;
+
+        const kept = (await readFile(fileStart)).filter(log => log.blockNumber < blockNumber);
+        if (kept.length === 0) {
+          await fs.promises.rm(getFilePath(fileStart), { force: true });
+        } else {
+          await fs.promises.writeFile(getFilePath(fileStart), kept.map(log => JSON.stringify(log)).join('\n') + '\n');
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Create an archive from a spec (`mongo` or `ndjson:<dir>`); null when archiving is off
+ */
+export function createRawLogArchive(spec: string): RawLogArchive | null {
+  const value = spec.trim();
+  if (!value || value === 'off') return null;
+  if (value === 'mongo') return mongoRawLogArchive;
+  if (value.startsWith('ndjson:')) return createNdjsonArchive(path.resolve(value.slice('ndjson:'.length)));
+
+  throw new Error(`Unknown raw log archive '${value}' (expected 'mongo', 'ndjson:<dir>' or 'off')`);
+}
+
+/**
+ * Get the archive configured with RAW_LOG_ARCHIVE (null when archiving is off)
+ */
+export function getConfiguredRawLogArchive(): RawLogArchive | null {
+  return createRawLogArchive(process.env.RAW_LOG_ARCHIVE || '');
+}
@@ -0,0 +1,133 @@
+/**
+ * Deployment Registry
+ *
+ * The HyperMap deployments that can be indexed: chain id, contract address,
+ * deployment block, ABI and where the RPC endpoints are configured. Base mainnet
+ * is built in; more deployments (e.g. testnets) are added with a JSON file named
+ * by HYPERMAP_DEPLOYMENTS, holding an array of deployments (entries with the name
+ * of a built-in deployment replace it):
+ *
+ *   [{ "name": "base-sepolia", "chainId": 84532, "contractAddress": "0x...",
+ *      "deploymentBlock": 1000000, "envPrefix": "BASE_SEPOLIA" }]
+ *
+ * A process indexes one deployment, chosen by name or chain id with HYPERMAP_DEPLOYMENT
+ * (defaults to 'base'). Its RPC endpoints come from <prefix>_RPC_URLS or <prefix>_RPC_URL
+ * and its WebSocket from <prefix>_WS_URL, so Base mainnet keeps using BASE_RPC_URL.
+ * Stored events, entries and pipeline state are tagged with the deployment's chain id,
+ * so several deployments can share a database.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ethers } from 'ethers';
+import { Deployment } from '../../types';
+import { CONTRACT_ADDRESS, DEFAULT_CHAIN_ID, DEFAULT_START_BLOCK, DEFAULT_DEPLOYMENT } from '../../constants';
+
+// ABI files live in src/abi
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const abiDir = path.resolve(__dirname, '../../abi');
+
+const BUILTIN_DEPLOYMENTS: Deployment[] = [
+  {
+    name: 'base',
+    chainId: DEFAULT_CHAIN_ID,
+    contractAddress: CONTRACT_ADDRESS,
+    deploymentBlock: DEFAULT_START_BLOCK,
+    envPrefix: 'BASE',
+    abi: 'hypermap.abi.json'
+  }
+];
+
+// Registry and ABIs, read once per process
+let registry: { file: string; deployments: Deployment[] } | null = null;
+const abis = new Map<string, ethers.InterfaceAbi>();
+
+/**
+ * Get every registered deployment (built-in and from HYPERMAP_DEPLOYMENTS)
+ */
+export function getDeployments(): Deployment[] {
+  const file = process.env.HYPERMAP_DEPLOYMENTS || '';
+  if (registry && registry.file === file) return registry.deployments;
+
+  const deployments = new Map(BUILTIN_DEPLOYMENTS.map(deployment => [deployment.name, deployment]));
+  if (file) {
+    const configured = JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+    if (!Array.isArray(configured)) {
+      throw new Error(`${file} must hold an array of deployments`);
+    }
+    for (const entry of configured) {
+      const deployment = parseDeployment(entry, file);
+      deployments.set(deployment.name, deployment);
+    }
+  }
+
+  registry = { file, deployments: [...deployments.values()] };
+  return registry.deployments;
+}
+
+/**
+ * Get a deployment by name or chain id
+ */
+export function getDeployment(nameOrChainId: string | number): Deployment {
+  const key = String(nameOrChainId).trim();
+  const deployment = getDeployments().find(candidate => candidate.name === key || String(candidate.chainId) === key);
+  if (!deployment) {
+    throw new Error(`Unknown deployment '${key}' (registered: ${getDeployments().map(candidate => candidate.name).join(', ')})`);
+  }
+  return deployment;
+}
+
+/**
+ * Get the deployment this process indexes (HYPERMAP_DEPLOYMENT, defaults to Base mainnet)
+ */
+export function getActiveDeployment(): Deployment {
+  return getDeployment(process.env.HYPERMAP_DEPLOYMENT || DEFAULT_DEPLOYMENT);
+}
+
+/**
+ * Get the RPC endpoint list of a deployment (<prefix>_RPC_URLS, falling back to <prefix>_RPC_URL)
+ */
+export function getDeploymentRpcUrls(deployment: Deployment = getActiveDeployment()): string {
+  return process.env[`${deployment.envPrefix}_RPC_URLS`] || process.env[`${deployment.envPrefix}_RPC_URL`] || '';
+}
+
+/**
+ * Get the WebSocket RPC URL of a deployment (<prefix>_WS_URL)
+ */
+export function getDeploymentWsUrl(deployment: Deployment = getActiveDeployment()): string | undefined {
+  return process.env[`${deployment.envPrefix}_WS_URL`] || undefined;
+}
+
+/**
+ * Get the contract ABI of a deployment
+ */
+export function getDeploymentAbi(deployment: Deployment = getActiveDeployment()): ethers.InterfaceAbi {
+  let abi = abis.get(deployment.abi);
+  if (!abi) {
+    abi = JSON.parse(fs.readFileSync(path.resolve(abiDir, deployment.abi), 'utf8')) as ethers.InterfaceAbi;
+    abis.set(deployment.abi, abi);
+  }
+  return abi;
+}
+
+// Validate a deployment from the registry file, filling in the defaults
+function parseDeployment(entry: any, file: string): Deployment {
+  const missing = ['name', 'chainId', 'contractAddress', 'deploymentBlock'].filter(field => entry?.[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Deployment ${JSON.stringify(entry?.name ?? entry)} in ${file} is missing ${missing.join(', ')}`);
+  }
+  if (!ethers.isAddress(entry.contractAddress)) {
+    throw new Error(`Deployment '${entry.name}' in ${file} has an invalid contract address`);
+  }
+
+  return {
+    name: String(entry.name),
+    chainId: Number(entry.chainId),
+    contractAddress: entry.contractAddress,
+    deploymentBlock: Number(entry.deploymentBlock),
+    envPrefix: entry.envPrefix ?? String(entry.name).toUpperCase().replace(/[^A-Z0-9]+/g, '_'),
+    abi: entry.abi ?? 'hypermap.abi.json'
+  };
+}
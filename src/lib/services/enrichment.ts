@@ -0,0 +1,142 @@
+/**
+ * Enrichment Service
+ *
+ * Looks up the transaction and receipt behind stored events, so events can be
+ * attributed to the wallet that sent the transaction (txFrom), told apart when they
+ * came through another contract such as a TBA (txTo is not the HyperMap contract),
+ * and priced (gas used times effective gas price). Transactions are deduplicated,
+ * cached in memory and requested concurrently in batches of TX_DETAILS_BATCH_SIZE,
+ * which the provider sends as JSON-RPC batches. enrichStoredEvents adds the details
+ * to every stored event that has none (npm run enrich-events, or index-events --enrich).
+ */
+
+import { ethers } from 'ethers';
+import { EnrichmentResult, TransactionDetails } from '../../types';
+import { TX_DETAILS_BATCH_SIZE, TX_DETAILS_CACHE_SIZE } from '../../constants';
+import { withRetry, RetryDecision } from './retry';
+import { getActiveDeployment } from './deployments';
+import { getTransactionsMissingDetails, setEventTransactionDetails } from './mongodb';
+
+// In-memory transaction details cache (insertion ordered, oldest entries evicted first)
+const transactionCache = new Map<string, TransactionDetails>();
+
+// Add transaction details to the in-memory cache
+function cacheTransactionDetails(details: TransactionDetails): void {
+  transactionCache.set(details.transactionHash, details);
+  if (transactionCache.size > TX_DETAILS_CACHE_SIZE) {
+    const oldest = transactionCache.keys().next().value;
+    if (oldest !== undefined) transactionCache.delete(oldest);
+  }
+}
+
+/**
+ * Get the details of a set of transactions.
+ * Hashes are deduplicated; cached details are reused, and the remaining transactions
+ * and receipts are requested concurrently in batches. Failed or unknown lookups map to null.
+ */
+export async function getTransactionDetails(
+  provider: ethers.JsonRpcProvider,
+  transactionHashes: string[]
+): Promise<Map<string, TransactionDetails | null>> {
+  const details = new Map<string, TransactionDetails | null>();
+  const missing: string[] = [];
+
+  for (const transactionHash of new Set(transactionHashes)) {
+    const cached = transactionCache.get(transactionHash);
+    if (cached) {
+      details.set(transactionHash, cached);
+    } else {
+      missing.push(transactionHash);
+    }
+  }
+
+  for (let i = 0; i < missing.length; i += TX_DETAILS_BATCH_SIZE) {
+    const batch = missing.slice(i, i + TX_DETAILS_BATCH_SIZE);
+    const fetched = await Promise.all(batch.map(transactionHash => fetchTransactionDetails(provider, transactionHash)));
+
+    batch.forEach((transactionHash, index) => {
+      const result = fetched[index];
+      if (result) cacheTransactionDetails(result);
+      details.set(transactionHash, result);
+    });
+  }
+
+  return details;
+}
+
+/**
+ * Add transaction details to the stored events without them (new events, or events
+ * re-ingested after a reorg) of the active deployment, batchSize transactions at a time.
+ * Transactions that cannot be looked up are skipped for the rest of the run.
+ */
+export async function enrichStoredEvents(
+  provider: ethers.JsonRpcProvider,
+  batchSize = 200
+): Promise<EnrichmentResult> {
+  const contractAddress = getActiveDeployment().contractAddress.toLowerCase();
+  const result: EnrichmentResult = { updatedEvents: 0, updatedTransactions: 0, viaOtherContracts: 0, reverted: 0, failedTransactions: 0 };
+  const failed = new Set<string>();
+
+  while (true) {
+    // Skip transactions that already failed in this run so the loop always terminates
+    const transactionHashes = (await getTransactionsMissingDetails(batchSize + failed.size))
+      .filter((transactionHash: string) => !failed.has(transactionHash))
+      .slice(0, batchSize);
+    if (transactionHashes.length === 0) break;
+
+    console.log(`Looking up ${transactionHashes.length} transactions...`);
+    const details = await getTransactionDetails(provider, transactionHashes);
+
+    const found: TransactionDetails[] = [];
+    for (const [transactionHash, transaction] of details) {
+      if (transaction === null) {
+        failed.add(transactionHash);
+      } else {
+        found.push(transaction);
+        if (transaction.txTo !== contractAddress) result.viaOtherContracts++;
+        if (transaction.txStatus !== 1) result.reverted++;
+      }
+    }
+
+    const updated = await setEventTransactionDetails(found);
+    result.updatedTransactions += found.length;
+    result.updatedEvents += updated;
+    console.log(`Updated ${updated} events in ${found.length} transactions`);
+  }
+
+  result.failedTransactions = failed.size;
+  return result;
+}
+
+/**
+ * Fetch a transaction and its receipt, retrying rate limits and transient errors per the retry policy
+ */
+async function fetchTransactionDetails(
+  provider: ethers.JsonRpcProvider,
+  transactionHash: string
+): Promise<TransactionDetails | null> {
+  const onRetry = (_error: unknown, decision: RetryDecision, retry: number) => {
+    console.warn(`Error (${decision.category}) getting transaction ${transactionHash}. Retrying in ${Math.round(decision.delayMs/1000)}s... (Retry ${retry})`);
+  };
+
+  try {
+    const [transaction, receipt] = await Promise.all([
+      withRetry(() => provider.getTransaction(transactionHash), { onRetry }),
+      withRetry(() => provider.getTransactionReceipt(transactionHash), { onRetry })
+    ]);
+    if (!transaction || !receipt) return null;
+
+    return {
+      transactionHash,
+      txFrom: transaction.from.toLowerCase(),
+      txTo: transaction.to ? transaction.to.toLowerCase() : null,
+      gasUsed: receipt.gasUsed.toString(),
+      // Pre-London receipts have no effective gas price; the transaction's price is what was paid
+      effectiveGasPrice: (receipt.gasPrice ?? transaction.gasPrice ?? BigInt(0)).toString(),
+      txStatus: receipt.status ?? 1
+    };
+  } catch (err) {
+    console.warn(`Error getting transaction ${transactionHash}:`, err);
+    return null;
+  }
+}
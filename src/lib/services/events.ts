@@ -6,83 +6,256 @@
  */
 
 import { ethers } from 'ethers';
-import fs from 'fs';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import { 
   HypermapEvent, MintEvent, FactEvent, NoteEvent, 
   GeneEvent, TransferEvent, ZeroEvent, UpgradedEvent,
-  Bytes, Bytes32, Address
+  Bytes, Bytes32, Address, BlockHeader, BlockHeaderStore, RawLog, RawLogArchive,
+  QuarantinedLog, QuarantineStore, Deployment, IntegrityIssue
 } from '../../types';
+import { BLOCK_HEADER_BATCH_SIZE, BLOCK_CACHE_SIZE } from '../../constants';
+import { RpcProviderPool, parseRpcEndpoints, getConfiguredRpcUrls } from './provider-pool';
+import { withRetry, RetryDecision } from './retry';
+import { getActiveDeployment, getDeploymentAbi } from './deployments';
+import { decodeLabel, verifyLabelEvent } from './names';
 
-// Load ABI directly (dynamic import with assert doesn't work consistently in all environments)
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const abiPath = path.resolve(__dirname, '../../abi/hypermap.abi.json');
-const HYPERMAP_ABI = JSON.parse(fs.readFileSync(abiPath, 'utf8'));
+/**
+ * Get the ABI version recorded with quarantined logs (hash of the deployment's ABI)
+ */
+export function getAbiVersion(deployment: Deployment = getActiveDeployment()): string {
+  return ethers.id(JSON.stringify(getDeploymentAbi(deployment))).slice(0, 10);
+}
 
-// Contract address
-export const CONTRACT_ADDRESS = '0x000000000044C6B8Cb4d8f0F889a3E47664EAeda';
+/**
+ * Create a provider instance over one or more RPC endpoints
+ * (comma-separated `url` or `url|weight` entries, see provider-pool.ts)
+ */
+export function createProvider(rpcUrls: string = getConfiguredRpcUrls()): RpcProviderPool {
+  return new RpcProviderPool(parseRpcEndpoints(rpcUrls));
+}
 
 /**
- * Create a provider instance
+ * Create a contract instance for a deployment (the active one by default)
+ * (without a provider it can only decode logs, e.g. when replaying archived logs)
  */
-export function createProvider(rpcUrl: string): ethers.JsonRpcProvider {
-  return new ethers.JsonRpcProvider(rpcUrl);
+export function createContract(
+  provider: ethers.JsonRpcProvider | null = null,
+  deployment: Deployment = getActiveDeployment()
+): ethers.Contract {
+  return new ethers.Contract(deployment.contractAddress, getDeploymentAbi(deployment), provider);
 }
 
+// In-memory block timestamp cache (insertion ordered, oldest entries evicted first)
+const blockTimestampCache = new Map<number, number>();
+
+// Optional persistent block header store (e.g. the MongoDB blockheaders collection)
+let blockHeaderStore: BlockHeaderStore | null = null;
+
 /**
- * Create a contract instance using the built-in HyperMap ABI
+ * Set the persistent store used to look up and save block headers
  */
-export function createContract(provider: ethers.JsonRpcProvider): ethers.Contract {
-  return new ethers.Contract(CONTRACT_ADDRESS, HYPERMAP_ABI, provider);
+export function setBlockHeaderStore(store: BlockHeaderStore | null): void {
+  blockHeaderStore = store;
 }
 
+// Optional archive of the raw logs behind every parsed event
+let rawLogArchive: RawLogArchive | null = null;
+
 /**
- * Get the timestamp for a block with exponential backoff retry
+ * Set the archive that raw logs are saved to when they are parsed
+ */
+export function setRawLogArchive(archive: RawLogArchive | null): void {
+  rawLogArchive = archive;
+}
+
+/**
+ * Get the archive set with setRawLogArchive
+ */
+export function getRawLogArchive(): RawLogArchive | null {
+  return rawLogArchive;
+}
+
+// Optional dead-letter store for logs that fail to decode
+let quarantineStore: QuarantineStore | null = null;
+
+/**
+ * Set the store that logs failing to decode are quarantined in
+ */
+export function setQuarantineStore(store: QuarantineStore | null): void {
+  quarantineStore = store;
+}
+
+/**
+ * Convert a log returned by the provider to its archived form
+ */
+export function toRawLog(log: any, timestamp?: number | null): RawLog {
+  return {
+    chainId: getActiveDeployment().chainId,
+    address: log.address.toLowerCase(),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: log.transactionIndex,
+    logIndex: log.index ?? log.logIndex, // ethers v6 uses index
+    topics: [...log.topics],
+    data: log.data,
+    ...(timestamp != null ? { timestamp } : {})
+  };
+}
+
+/**
+ * Clear cached block timestamps (all of them, or from a block onwards after a reorg)
+ */
+export function clearBlockTimestampCache(fromBlock?: number): void {
+  if (fromBlock === undefined) {
+    blockTimestampCache.clear();
+    return;
+  }
+  for (const blockNumber of [...blockTimestampCache.keys()]) {
+    if (blockNumber >= fromBlock) blockTimestampCache.delete(blockNumber);
+  }
+}
+
+// Add a timestamp to the in-memory cache
+function cacheBlockTimestamp(blockNumber: number, timestamp: number): void {
+  blockTimestampCache.set(blockNumber, timestamp);
+  if (blockTimestampCache.size > BLOCK_CACHE_SIZE) {
+    const oldest = blockTimestampCache.keys().next().value;
+    if (oldest !== undefined) blockTimestampCache.delete(oldest);
+  }
+}
+
+/**
+ * Get the timestamp for a block, using the cache and persistent store before the provider
  */
 export async function getBlockTimestamp(
-  provider: ethers.JsonRpcProvider, 
-  blockNumber: number,
-  retryCount = 0,
-  maxRetries = 5
+  provider: ethers.JsonRpcProvider | null, 
+  blockNumber: number
 ): Promise<number | null> {
-  try {
-    const block = await provider.getBlock(blockNumber);
-    return block ? Number(block.timestamp) : null;
-  } catch (err) {
-    // Check if error is rate limiting related
-    const errorMessage = String(err);
-    const isRateLimited = 
-      errorMessage.includes("Too Many Requests") || 
-      errorMessage.includes("rate limit") || 
-      errorMessage.includes("429") ||
-      errorMessage.includes("exceeded") ||
-      (err as any).code === "BAD_DATA";
-    
-    if (isRateLimited && retryCount < maxRetries) {
-      // Calculate exponential backoff delay: 2^retry * 1000ms + random jitter
-      const delay = Math.pow(2, retryCount) * 1000 + Math.random() * 1000;
-      console.warn(`Rate limited getting timestamp for block ${blockNumber}. Retrying in ${Math.round(delay/1000)}s... (Attempt ${retryCount + 1}/${maxRetries})`);
-      
-      // Wait for the calculated delay
-      await new Promise(resolve => setTimeout(resolve, delay));
-      
-      // Retry with incremented counter
-      return getBlockTimestamp(provider, blockNumber, retryCount + 1, maxRetries);
+  const timestamps = await getBlockTimestamps(provider, [blockNumber]);
+  return timestamps.get(blockNumber) ?? null;
+}
+
+/**
+ * Get the timestamps for a set of blocks.
+ * Block numbers are deduplicated; cached and stored timestamps are reused, and the
+ * remaining headers are requested concurrently in batches of BLOCK_HEADER_BATCH_SIZE
+ * (which the provider sends as JSON-RPC batches). Failed lookups map to null.
+ */
+export async function getBlockTimestamps(
+  provider: ethers.JsonRpcProvider | null,
+  blockNumbers: number[]
+): Promise<Map<number, number | null>> {
+  const timestamps = new Map<number, number | null>();
+  let missing: number[] = [];
+  
+  // 1. In-memory cache
+  for (const blockNumber of new Set(blockNumbers)) {
+    const cached = blockTimestampCache.get(blockNumber);
+    if (cached !== undefined) {
+      timestamps.set(blockNumber, cached);
+    } else {
+      missing.push(blockNumber);
     }
+  }
+  
+  // 2. Persistent store
+  if (missing.length > 0 && blockHeaderStore) {
+    try {
+      const stored = await blockHeaderStore.getTimestamps(missing);
+      for (const [blockNumber, timestamp] of stored) {
+        cacheBlockTimestamp(blockNumber, timestamp);
+        timestamps.set(blockNumber, timestamp);
+      }
+      missing = missing.filter(blockNumber => !stored.has(blockNumber));
+    } catch (err) {
+      console.warn('Error reading stored block headers:', err);
+    }
+  }
+  
+  // 3. Provider, in concurrent batches
+  const fetched: BlockHeader[] = [];
+  for (let i = 0; i < missing.length; i += BLOCK_HEADER_BATCH_SIZE) {
+    const batch = missing.slice(i, i + BLOCK_HEADER_BATCH_SIZE);
+    const headers = await Promise.all(batch.map(blockNumber => 
+      provider ? fetchBlockHeader(provider, blockNumber) : Promise.resolve(null)
+    ));
     
+    batch.forEach((blockNumber, index) => {
+      const header = headers[index];
+      if (header && header.timestamp !== undefined) {
+        cacheBlockTimestamp(blockNumber, header.timestamp);
+        timestamps.set(blockNumber, header.timestamp);
+        fetched.push(header);
+      } else {
+        timestamps.set(blockNumber, null);
+      }
+    });
+  }
+  
+  if (fetched.length > 0 && blockHeaderStore) {
+    try {
+      await blockHeaderStore.saveHeaders(fetched);
+    } catch (err) {
+      console.warn('Error saving block headers:', err);
+    }
+  }
+  
+  return timestamps;
+}
+
+/**
+ * Fetch a block header, retrying rate limits and transient errors per the retry policy
+ */
+async function fetchBlockHeader(
+  provider: ethers.JsonRpcProvider, 
+  blockNumber: number
+): Promise<BlockHeader | null> {
+  try {
+    const block = await withRetry(() => provider.getBlock(blockNumber), {
+      onRetry: (_error: unknown, decision: RetryDecision, retry: number) => {
+        console.warn(`Error (${decision.category}) getting timestamp for block ${blockNumber}. Retrying in ${Math.round(decision.delayMs/1000)}s... (Retry ${retry})`);
+      }
+    });
+    if (!block || !block.hash) return null;
+    return {
+      chainId: getActiveDeployment().chainId,
+      blockNumber,
+      blockHash: block.hash,
+      timestamp: Number(block.timestamp)
+    };
+  } catch (err) {
     console.warn(`Error getting timestamp for block ${blockNumber}:`, err);
     return null;
   }
 }
 
+/**
+ * Decode the label of a Mint, Fact or Note event (parenthash, namehash, labelhash, label)
+ * and check its hashes against the name derivation
+ */
+function decodeLabelArgs(
+  args: any,
+  location: { transactionHash: Bytes32; logIndex: number }
+): { labelhash: Bytes32; label: string; labelBytes: Bytes; integrityIssues: IntegrityIssue[] } {
+  // An indexed bytes argument is logged as its hash (the topic), which ethers returns as an Indexed value
+  const labelhash: Bytes32 = typeof args[2] === 'string' ? args[2] : args[2]?.hash ?? ethers.ZeroHash;
+  const labelBytes: Bytes = args[3] ? ethers.hexlify(args[3]) : '0x';
+  const { label, validUtf8 } = decodeLabel(labelBytes);
+  
+  const integrityIssues = verifyLabelEvent(args[0], args[1], labelhash, labelBytes, validUtf8);
+  if (integrityIssues.length > 0) {
+    console.warn(`Event ${location.transactionHash}_${location.logIndex} (label '${label}') failed verification: ${integrityIssues.join(', ')}`);
+  }
+  
+  return { labelhash, label, labelBytes, integrityIssues };
+}
+
 /**
  * Process an event from the blockchain
  */
 export async function processEvent(
   event: any, 
-  provider: ethers.JsonRpcProvider
+  provider: ethers.JsonRpcProvider | null
 ): Promise<HypermapEvent | null> {
   // Validate we have a fragment
   if (!event || !event.fragment) {
@@ -97,10 +270,10 @@ export async function processEvent(
     return null;
   }
   
-  // Get timestamp with fallback
-  let timestamp;
+  // Get timestamp with fallback (archived logs carry their own)
+  let timestamp = event.timestamp;
   try {
-    timestamp = await getBlockTimestamp(provider, event.blockNumber);
+    timestamp ??= await getBlockTimestamp(provider, event.blockNumber);
   } catch (err) {
     console.warn(`Error getting timestamp for block ${event.blockNumber}: ${err}`);
     timestamp = null;
@@ -108,11 +281,12 @@ export async function processEvent(
   
   // Create base event data
   const baseEvent = {
+    chainId: getActiveDeployment().chainId,
     blockNumber: event.blockNumber,
     blockHash: event.blockHash,
     transactionHash: event.transactionHash,
     transactionIndex: event.transactionIndex,
-    logIndex: event.index || event.logIndex, // ethers v6 uses index, fallback to logIndex
+    logIndex: event.index ?? event.logIndex, // ethers v6 uses index (0 for the first log of a block), fallback to logIndex
     timestamp
   };
 
@@ -128,10 +302,8 @@ export async function processEvent(
         eventType: 'Mint',
         parenthash: args[0],
         childhash: args[1],
-        // labelhash is now bytes and indexed
-        labelhash: args[2],
-        // label is now bytes instead of string
-        label: args[3] ? ethers.toUtf8String(args[3]) : ''
+        // labelhash, label, raw label bytes and mismatches with the name derivation
+        ...decodeLabelArgs(args, baseEvent)
       } as MintEvent;
       break;
     }
@@ -142,10 +314,8 @@ export async function processEvent(
         eventType: 'Fact',
         parenthash: args[0],
         facthash: args[1],
-        // labelhash is now bytes and indexed
-        labelhash: args[2],
-        // label is now bytes instead of string
-        label: args[3] ? ethers.toUtf8String(args[3]) : '',
+        // labelhash, label, raw label bytes and mismatches with the name derivation
+        ...decodeLabelArgs(args, baseEvent),
         data: args[4]
       } as FactEvent;
       break;
@@ -157,10 +327,8 @@ export async function processEvent(
         eventType: 'Note',
         parenthash: args[0],
         notehash: args[1],
-        // labelhash is now bytes and indexed
-        labelhash: args[2],
-        // label is now bytes instead of string
-        label: args[3] ? ethers.toUtf8String(args[3]) : '',
+        // labelhash, label, raw label bytes and mismatches with the name derivation
+        ...decodeLabelArgs(args, baseEvent),
         data: args[4]
       } as NoteEvent;
       break;
@@ -214,36 +382,76 @@ export async function processEvent(
 }
 
 /**
- * Parse raw logs into structured events
+ * Decode a single log into an event; throws if the ABI does not know the log
+ * or the event cannot be processed
+ */
+export async function decodeLog(
+  log: any,
+  contract: ethers.Contract,
+  provider: ethers.JsonRpcProvider | null
+): Promise<HypermapEvent> {
+  // Try to parse the log using the contract's interface
+  const parsedLog = contract.interface.parseLog(log);
+  if (!parsedLog) {
+    throw new Error(`No event in the ABI matches topic ${log.topics?.[0] ?? '(none)'}`);
+  }
+  
+  // Create a processed event with the parsed data
+  const processedEvent = await processEvent({
+    ...log,
+    fragment: parsedLog.fragment,
+    args: parsedLog.args
+  }, provider);
+  
+  if (!processedEvent) {
+    throw new Error(`Event ${parsedLog.name} is not supported`);
+  }
+  return processedEvent;
+}
+
+/**
+ * Parse raw logs into structured events.
+ * Logs are saved to the raw log archive first, if one is set. Without a provider,
+ * timestamps come from the logs themselves (archived logs) or the block header store.
+ * Logs that fail to decode are quarantined, if a quarantine store is set.
  */
 export async function parseLogsToEvents(
   logs: any[],
   contract: ethers.Contract,
-  provider: ethers.JsonRpcProvider
+  provider: ethers.JsonRpcProvider | null
 ): Promise<HypermapEvent[]> {
   const events = [];
+  const failures: QuarantinedLog[] = [];
+  
+  // Look up every block's timestamp once, before processing the individual logs
+  const timestamps = await getBlockTimestamps(
+    provider,
+    logs.filter(log => log.timestamp === undefined).map(log => log.blockNumber)
+  );
+  
+  if (rawLogArchive && logs.length > 0) {
+    // A failed archive write fails the chunk, so the archive has no holes behind the checkpoints
+    await rawLogArchive.saveLogs(logs.map(log => toRawLog(log, log.timestamp ?? timestamps.get(log.blockNumber))));
+  }
   
   for (const log of logs) {
     try {
-      // Try to parse the log using the contract's interface
-      const parsedLog = contract.interface.parseLog(log);
-      if (parsedLog) {
-        // Create a processed event with the parsed data
-        const processedEvent = await processEvent({
-          ...log,
-          fragment: parsedLog.fragment,
-          args: parsedLog.args
-        }, provider);
-        
-        if (processedEvent) {
-          events.push(processedEvent);
-        }
-      }
+      events.push(await decodeLog(log, contract, provider));
     } catch (error) {
-      // Silent error handling - just skip this log
+      failures.push({
+        ...toRawLog(log, log.timestamp ?? timestamps.get(log.blockNumber)),
+        error: error instanceof Error ? error.message : String(error),
+        abiVersion: getAbiVersion()
+      });
     }
   }
   
+  if (failures.length > 0) {
+    console.warn(`${failures.length} logs could not be decoded${quarantineStore ? ' and were quarantined' : ''}`);
+    // Like archiving, a failed quarantine write fails the chunk so no log is lost
+    await quarantineStore?.quarantineLogs(failures);
+  }
+  
   return events;
 }
 
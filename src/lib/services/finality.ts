@@ -0,0 +1,79 @@
+/**
+ * Finality Service
+ *
+ * Ingestion reads up to the chain head, so the newest stored events may still be
+ * reorganized away. Events are stored as 'pending' and promoted to 'finalized' once
+ * their block is final: CONFIRMATION_DEPTH blocks below the head (defaults to
+ * DEFAULT_CONFIRMATION_DEPTH), or the block the RPC reports for the block tag in
+ * FINALITY_TAG ('safe' or 'finalized') when it is set. Readers that must not see
+ * data that can still change ask for finalized events only.
+ */
+
+import { ethers } from 'ethers';
+import { FinalityPolicy, FinalityTag } from '../../types';
+import { DEFAULT_CONFIRMATION_DEPTH } from '../../constants';
+import { getActiveDeployment } from './deployments';
+import { finalizeEvents } from './mongodb';
+import { withRetry } from './retry';
+
+const FINALITY_TAGS: FinalityTag[] = ['safe', 'finalized'];
+
+// Whether the fallback from an unsupported block tag has been reported
+let tagFallbackReported = false;
+
+/**
+ * Get the finality policy from the environment (CONFIRMATION_DEPTH and FINALITY_TAG)
+ */
+export function getFinalityPolicy(): FinalityPolicy {
+  const depth = process.env.CONFIRMATION_DEPTH;
+  const confirmationDepth = depth ? parseInt(depth) : DEFAULT_CONFIRMATION_DEPTH;
+  if (!Number.isInteger(confirmationDepth) || confirmationDepth < 0) {
+    throw new Error(`CONFIRMATION_DEPTH must be a non-negative number of blocks (got '${depth}')`);
+  }
+
+  const tag = process.env.FINALITY_TAG?.trim() || null;
+  if (tag && !FINALITY_TAGS.includes(tag as FinalityTag)) {
+    throw new Error(`FINALITY_TAG must be one of ${FINALITY_TAGS.join(', ')} (got '${tag}')`);
+  }
+
+  return { confirmationDepth, tag: tag as FinalityTag | null };
+}
+
+/**
+ * Get the last final block for a chain head.
+ * With a block tag the RPC decides; without a provider, or if the RPC does not support
+ * the tag, the confirmation depth is used instead.
+ */
+export async function getFinalizedBlock(
+  provider: ethers.JsonRpcProvider | null,
+  headBlock: number,
+  policy: FinalityPolicy = getFinalityPolicy()
+): Promise<number> {
+  if (policy.tag && provider) {
+    try {
+      const block = await withRetry(() => provider.getBlock(policy.tag as FinalityTag));
+      if (block) return Math.min(block.number, headBlock);
+    } catch (error) {
+      if (!tagFallbackReported) {
+        console.warn(`RPC does not support the '${policy.tag}' block tag, using a confirmation depth of ${policy.confirmationDepth} blocks:`, error);
+        tagFallbackReported = true;
+      }
+    }
+  }
+
+  return headBlock - policy.confirmationDepth;
+}
+
+/**
+ * Promote the stored events of every block that is final at the given chain head.
+ * Returns the final block and the number of promoted events.
+ */
+export async function promoteFinalizedEvents(
+  provider: ethers.JsonRpcProvider | null,
+  headBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<{ finalizedBlock: number; promoted: number }> {
+  const finalizedBlock = await getFinalizedBlock(provider, headBlock);
+  const promoted = await finalizeEvents(finalizedBlock, chainId);
+  return { finalizedBlock, promoted };
+}
@@ -0,0 +1,200 @@
+/**
+ * Head Follower Service
+ *
+ * Follows the chain head for live indexing. With a WebSocket URL, new heads arrive
+ * through a newHeads subscription and new logs of the contract through an eth_subscribe
+ * log subscription (a log wakes the head handler for its block, which may come before
+ * the block's head notification); without one (or while the WebSocket is disconnected)
+ * the head is polled over HTTP. Handlers run one at a time, and head notifications that
+ * arrive while a handler is busy are coalesced into a single catch-up to the newest head.
+ * A WebSocket that closes or stops delivering heads is reconnected with backoff.
+ */
+
+import { ethers } from 'ethers';
+import { FOLLOW_POLL_INTERVAL_MS, FOLLOW_STALE_MS } from '../../constants';
+import { getRetryDelay, getRetryPolicy, getErrorMessage } from './retry';
+import { getActiveDeployment } from './deployments';
+
+export type FollowMode = 'websocket' | 'polling';
+
+export interface FollowHandlers {
+  onHead: (headBlock: number) => Promise<void>;        // Catch up to this head (stores and checkpoints)
+  onModeChange?: (mode: FollowMode) => void;           // Switched between WebSocket and polling
+}
+
+export interface FollowOptions {
+  wsUrl?: string;                  // WebSocket endpoint; polling only when missing
+  address?: string;                // Contract whose logs wake the head handler (defaults to the active deployment's)
+  pollIntervalMs?: number;         // Head polling interval
+  staleMs?: number;                // Reconnect when the WebSocket delivers no head for this long
+}
+
+export interface HeadFollower {
+  readonly mode: FollowMode;       // Current head source
+  stop(): Promise<void>;           // Unsubscribe and stop polling
+}
+
+/**
+ * Start following the chain head
+ */
+export function followHead(
+  provider: ethers.JsonRpcProvider,
+  handlers: FollowHandlers,
+  options: FollowOptions = {}
+): HeadFollower {
+  const pollIntervalMs = options.pollIntervalMs ?? FOLLOW_POLL_INTERVAL_MS;
+  const staleMs = options.staleMs ?? FOLLOW_STALE_MS;
+  const address = options.address ?? getActiveDeployment().contractAddress;
+  const reconnectPolicy = getRetryPolicy({ baseDelayMs: 1000 });
+
+  let mode: FollowMode = 'polling';
+  let stopped = false;
+  let wsProvider: ethers.WebSocketProvider | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let staleTimer: ReturnType<typeof setInterval> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectAttempts = 0;
+  let lastHeadAt = 0;
+
+  // Handlers run one at a time in arrival order
+  let queue: Promise<void> = Promise.resolve();
+  let targetHead = 0;
+  let headQueued = false;
+
+  function enqueue(task: () => Promise<void>): void {
+    queue = queue.then(task).catch(error => {
+      console.error('Follower handler failed:', error);
+    });
+  }
+
+  function requestHead(headBlock: number): void {
+    lastHeadAt = Date.now();
+    if (headBlock <= targetHead) return; // Already caught up (or queued) to this head
+    targetHead = headBlock;
+    if (headQueued) return;
+
+    headQueued = true;
+    enqueue(async () => {
+      headQueued = false;
+      await handlers.onHead(targetHead);
+    });
+  }
+
+  function setMode(next: FollowMode): void {
+    if (mode === next) return;
+    mode = next;
+    handlers.onModeChange?.(next);
+  }
+
+  function startPolling(): void {
+    if (pollTimer || stopped) return;
+    setMode('polling');
+
+    const poll = async () => {
+      try {
+        requestHead(await provider.getBlockNumber());
+      } catch (error) {
+        console.warn(`Error polling chain head: ${getErrorMessage(error)}`);
+      }
+    };
+    poll();
+    pollTimer = setInterval(poll, pollIntervalMs);
+  }
+
+  function stopPolling(): void {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  }
+
+  async function closeWebSocket(): Promise<void> {
+    if (staleTimer) clearInterval(staleTimer);
+    staleTimer = null;
+
+    const closing = wsProvider;
+    wsProvider = null;
+    if (closing) {
+      try {
+        await closing.destroy();
+      } catch {
+        // Already closed
+      }
+    }
+  }
+
+  // Fall back to polling and try the WebSocket again after a backoff delay
+  function scheduleReconnect(reason: string): void {
+    if (stopped || reconnectTimer) return;
+
+    reconnectAttempts++;
+    const delayMs = getRetryDelay(reconnectAttempts, reconnectPolicy);
+    console.warn(`WebSocket ${reason}, polling until reconnect in ${Math.round(delayMs / 1000)}s...`);
+
+    closeWebSocket();
+    startPolling();
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delayMs);
+  }
+
+  function connect(): void {
+    if (stopped || !options.wsUrl) return;
+
+    const ws = new ethers.WebSocketProvider(options.wsUrl);
+    wsProvider = ws;
+
+    // ethers does not handle closed sockets itself (its WebSocketLike leaves out onclose)
+    const socket: ethers.WebSocketLike & { onclose?: (() => void) | null } = ws.websocket;
+    socket.onclose = () => {
+      if (wsProvider === ws) scheduleReconnect('closed');
+    };
+    socket.onerror = (event?: { message?: string }) => {
+      if (wsProvider === ws) scheduleReconnect(`error: ${event?.message || 'connection failed'}`);
+    };
+
+    ws.on('block', (blockNumber: number) => {
+      // The subscription is live again: stop polling, then catch up any gap to this head
+      if (mode !== 'websocket') {
+        reconnectAttempts = 0;
+        stopPolling();
+        setMode('websocket');
+      }
+      requestHead(blockNumber);
+    });
+
+    // A new contract log means its block is in: catch up to it without waiting for its head
+    ws.on({ address }, (log: ethers.Log) => {
+      if (log.removed) return; // Orphaned logs are rolled back by the reorg check
+      requestHead(log.blockNumber);
+    });
+
+    // Heads stop arriving on silently dropped connections
+    lastHeadAt = Date.now();
+    staleTimer = setInterval(() => {
+      if (wsProvider === ws && Date.now() - lastHeadAt > staleMs) {
+        scheduleReconnect(`delivered no blocks for ${Math.round(staleMs / 1000)}s`);
+      }
+    }, Math.min(staleMs, 10000));
+  }
+
+  if (options.wsUrl) {
+    connect();
+  }
+  // Poll until the WebSocket delivers its first head (or for good without a WebSocket)
+  startPolling();
+
+  return {
+    get mode() {
+      return mode;
+    },
+
+    async stop(): Promise<void> {
+      stopped = true;
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      await closeWebSocket();
+      await queue;
+    }
+  };
+}
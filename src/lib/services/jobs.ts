@@ -0,0 +1,98 @@
+/**
+ * Extraction Job Service
+ *
+ * Runs the extraction jobs created from the dashboard on the server, so an extraction
+ * keeps going when the browser tab that started it is closed. Jobs are stored in the
+ * extractionjobs collection with their progress and log; a worker in the server process
+ * claims the oldest queued job and extracts it chunk by chunk, recording each chunk and
+ * renewing its heartbeat. Pausing or cancelling a job takes effect after the current
+ * chunk. A running job whose worker stopped reporting (the server was restarted) is
+ * taken over by the next worker after JOB_STALE_MS.
+ */
+
+import os from 'os';
+import { ExtractionJob, JobChunkResult } from '../../types';
+import { claimExtractionJob, recordExtractionJobChunk, finishExtractionJob } from './mongodb';
+
+// Extracts one chunk of a job, starting at a block and ending at most at the job's end block
+export type ChunkExtractor = (startBlock: number, endBlock: number | 'latest') => Promise<JobChunkResult>;
+
+// Worker id of this process
+const workerId = `${os.hostname()}:${process.pid}`;
+
+// Whether this process's worker is running
+let workerRunning = false;
+
+/**
+ * Start the job worker of this process unless it is already running.
+ * The worker runs in the background until no queued job is left; returns whether it was started.
+ */
+export function startJobWorker(extractChunk: ChunkExtractor): boolean {
+  if (workerRunning) return false;
+  workerRunning = true;
+
+  runJobs(extractChunk)
+    .catch((error: unknown) => console.error('Extraction job worker stopped:', error))
+    .finally(() => { workerRunning = false; });
+  return true;
+}
+
+/**
+ * Whether this process's job worker is running
+ */
+export function isJobWorkerRunning(): boolean {
+  return workerRunning;
+}
+
+// Run queued jobs one at a time until none is left
+async function runJobs(extractChunk: ChunkExtractor): Promise<void> {
+  let job: ExtractionJob | null;
+  while ((job = await claimExtractionJob(workerId))) {
+    console.log(`Running extraction job ${job._id} from block ${job.nextBlock}`);
+    await runJob(job, extractChunk);
+  }
+}
+
+// Extract a job chunk by chunk until it is done, fails, or is paused, cancelled or taken over
+async function runJob(job: ExtractionJob, extractChunk: ChunkExtractor): Promise<void> {
+  while (true) {
+    let chunk: JobChunkResult;
+    try {
+      chunk = await extractChunk(job.nextBlock, job.toBlock ?? 'latest');
+    } catch (error) {
+      chunk = {
+        status: 'error',
+        message: `Unexpected error: ${(error as Error).message}`,
+        targetBlock: job.targetBlock ?? job.nextBlock,
+        currentBlock: job.nextBlock,
+        eventsFound: 0,
+        eventsStored: 0,
+        error: (error as Error).stack || String(error)
+      };
+    }
+
+    if (chunk.status === 'error') {
+      await finishExtractionJob(job, workerId, 'failed', chunk.message, chunk.error ?? chunk.message);
+      console.error(`Extraction job ${job._id} failed: ${chunk.message}`);
+      return;
+    }
+
+    const updated = await recordExtractionJobChunk(job, workerId, chunk);
+    if (!updated) {
+      console.log(`Extraction job ${job._id} was resumed or taken over by another worker`);
+      return;
+    }
+
+    if (chunk.nextStartBlock === undefined) {
+      await finishExtractionJob(updated, workerId, 'completed', `Completed extraction up to block ${chunk.currentBlock}`);
+      console.log(`Extraction job ${job._id} completed`);
+      return;
+    }
+
+    if (updated.status !== 'running') {
+      console.log(`Extraction job ${job._id} ${updated.status} at block ${updated.nextBlock}`);
+      return;
+    }
+    job = updated;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Log Source Service
+ *
+ * Where the ingestion scripts get contract logs from. The RPC source asks the
+ * provider pool (eth_getLogs); the file source reads exported datasets, so the
+ * scripts can seed staging databases or run in CI without any network access.
+ *
+ * The file source reads eth_getLogs-shaped logs from `.ndjson` files (one log per
+ * line) or `.json` files (an array of logs, or a JSON-RPC response with the array
+ * in `result`), given as a file or a directory of files. Numbers may be hex
+ * quantities (as returned by the RPC) or plain numbers (as in the raw log archive).
+ * Block timestamps come from the logs (`timestamp` or `blockTimestamp`) or from
+ * optional block header files in the same formats, with eth_getBlockByNumber-shaped
+ * headers (`number`, `hash`, `timestamp`) or stored headers (`blockNumber`, `blockHash`, `timestamp`).
+ * Datasets are loaded into memory once.
+ */
+
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { LogSource } from '../../types';
+import { getActiveDeployment } from './deployments';
+
+/**
+ * Create a log source that queries the provider
+ */
+export function createRpcLogSource(provider: ethers.JsonRpcProvider, address = getActiveDeployment().contractAddress): LogSource {
+  return {
+    name: 'rpc',
+    provider,
+    getHeadBlock: () => provider.getBlockNumber(),
+    getLogs: (fromBlock: number, toBlock: number) => provider.getLogs({ address, fromBlock, toBlock })
+  };
+}
+
+/**
+ * Create a log source that reads exported NDJSON/JSON files (see the file header for formats)
+ */
+export function createFileLogSource(logsPath: string, headersPath?: string, address = getActiveDeployment().contractAddress): LogSource {
+  let logs: any[] | null = null;
+  let headBlock = 0;
+
+  // Load and index the dataset on first use
+  async function load(): Promise<any[]> {
+    if (logs) return logs;
+
+    const timestamps = new Map<number, number>();
+    if (headersPath) {
+      for (const header of await readRecords(headersPath)) {
+        const blockNumber = toNumber(header.number ?? header.blockNumber);
+        const timestamp = toNumber(header.timestamp);
+        if (blockNumber !== null && timestamp !== null) {
+          timestamps.set(blockNumber, timestamp);
+          headBlock = Math.max(headBlock, blockNumber);
+        }
+      }
+    }
+
+    logs = (await readRecords(logsPath))
+      .filter(log => !log.removed && log.address?.toLowerCase() === address.toLowerCase())
+      .map(log => toEthersLog(log, timestamps.get(toNumber(log.blockNumber) as number)))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    if (logs.length > 0) {
+      headBlock = Math.max(headBlock, logs[logs.length - 1].blockNumber);
+    }
+    return logs;
+  }
+
+  return {
+    name: `file:${logsPath}`,
+    provider: null,
+
+    async getHeadBlock(): Promise<number> {
+      await load();
+      return headBlock;
+    },
+
+    async getLogs(fromBlock: number, toBlock: number): Promise<any[]> {
+      const all = await load();
+      const start = lowerBound(all, fromBlock);
+      const end = lowerBound(all, toBlock + 1);
+      return all.slice(start, end);
+    }
+  };
+}
+
+/**
+ * Convert an eth_getLogs result (hex quantities) or an archived log to the shape ethers returns
+ */
+export function toEthersLog(log: any, timestamp?: number | null): any {
+  const blockTimestamp = toNumber(log.timestamp ?? log.blockTimestamp) ?? timestamp;
+
+  return {
+    address: log.address,
+    blockNumber: toNumber(log.blockNumber) as number,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    transactionIndex: toNumber(log.transactionIndex) ?? 0,
+    index: toNumber(log.index ?? log.logIndex) as number,
+    topics: log.topics || [],
+    data: log.data || '0x',
+    ...(blockTimestamp !== undefined && blockTimestamp !== null ? { timestamp: blockTimestamp } : {})
+  };
+}
+
+// Read records from an NDJSON/JSON file, or from every such file in a directory
+async function readRecords(target: string): Promise<any[]> {
+  const stat = await fs.promises.stat(target);
+  if (stat.isDirectory()) {
+    const names = (await fs.promises.readdir(target))
+      .filter(name => name.endsWith('.ndjson') || name.endsWith('.json'))
+      .sort();
+    const records: any[] = [];
+    for (const name of names) {
+      records.push(...await readRecords(path.join(target, name)));
+    }
+    return records;
+  }
+
+  const content = await fs.promises.readFile(target, 'utf8');
+  if (target.endsWith('.ndjson')) {
+    return content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+  }
+
+  const parsed = JSON.parse(content);
+  const records = Array.isArray(parsed) ? parsed : parsed.result;
+  if (!Array.isArray(records)) {
+    throw new Error(`${target} is neither an array nor a JSON-RPC response with an array result`);
+  }
+  return records;
+}
+
+// Parse a hex quantity or a number
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'string' && value.startsWith('0x') ? parseInt(value, 16) : Number(value);
+}
+
+// First position in block-ordered logs whose block is at least blockNumber
+function lowerBound(logs: any[], blockNumber: number): number {
+  let low = 0;
+  let high = logs.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (logs[middle].blockNumber < blockNumber) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
@@ -0,0 +1,239 @@
+/**
+ * Mock JSON-RPC Server
+ *
+ * A local JSON-RPC endpoint that answers from a recorded fixture (see
+ * scripts/record-fixture.ts), so the ingestion code can be run end to end without
+ * network access. It serves eth_chainId, net_version, eth_blockNumber, eth_getLogs,
+ * eth_getBlockByNumber, and eth_getTransactionByHash and eth_getTransactionReceipt
+ * from the fixture's optional transactions and receipts, single or batched. Blocks missing from the fixture are
+ * synthesized deterministically (hash from the block number, 2 second block times).
+ *
+ * Faults are injected by request count, so every run sees the same sequence:
+ * - rate limits: every nth HTTP request is answered with HTTP 429
+ * - timeouts: every nth HTTP request is held, then dropped without a response
+ * - range limits: eth_getLogs over more than maxBlockRange blocks is rejected
+ * - reorgs: blocks from a fork block onwards get new hashes (in their headers and logs)
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { RpcFixture } from '../../types';
+import { RPC_REQUEST_TIMEOUT_MS } from '../../constants';
+
+// Seconds between synthesized blocks (Base block time)
+const BLOCK_TIME_SECONDS = 2;
+
+export interface MockRpcOptions {
+  headBlock?: number;              // Block reported by eth_blockNumber (defaults to the fixture's last block)
+  rateLimitEvery?: number;         // Answer every nth request with HTTP 429 (0 = never)
+  timeoutEvery?: number;           // Drop every nth request without a response (0 = never)
+  timeoutMs?: number;              // How long a dropped request is held (defaults to longer than the client timeout)
+  maxBlockRange?: number;          // Largest eth_getLogs range before a range error (0 = unlimited)
+  reorgBlock?: number;             // Fork block of a reorg injected after reorgAfter requests
+  reorgAfter?: number;             // Requests served before the reorg is injected
+}
+
+export interface MockRpcStats {
+  requests: number;                // HTTP requests received
+  calls: Record<string, number>;   // JSON-RPC calls by method
+  rateLimited: number;             // Requests answered with 429
+  timedOut: number;                // Requests dropped
+  rangeErrors: number;             // eth_getLogs calls rejected for their range
+  reorgs: number[];                // Fork blocks of the injected reorgs
+}
+
+export interface MockRpcServer {
+  start(port?: number): Promise<string>; // Listen (port 0 = any free port) and return the URL
+  stop(): Promise<void>;
+  reorg(forkBlock: number): void;  // Replace the hashes of the blocks from forkBlock onwards
+  getStats(): MockRpcStats;
+}
+
+/**
+ * Create a mock JSON-RPC server for a fixture
+ */
+export function createMockRpcServer(fixture: RpcFixture, options: MockRpcOptions = {}): MockRpcServer {
+  const headBlock = options.headBlock ?? fixture.toBlock;
+  const timeoutMs = options.timeoutMs ?? RPC_REQUEST_TIMEOUT_MS + 1000;
+  const blocks = new Map<number, any>(fixture.blocks.map((block: any) => [Number(block.number), block]));
+  const recordedNumbers = [...blocks.keys()].sort((a, b) => a - b);
+  const transactions = new Map<string, any>((fixture.transactions ?? []).map((transaction: any) => [transaction.hash.toLowerCase(), transaction]));
+  const receipts = new Map<string, any>((fixture.receipts ?? []).map((receipt: any) => [receipt.transactionHash.toLowerCase(), receipt]));
+  const forks: number[] = []; // Fork blocks of the reorgs so far, each one changes later hashes again
+  const stats: MockRpcStats = { requests: 0, calls: {}, rateLimited: 0, timedOut: 0, rangeErrors: 0, reorgs: [] };
+  const heldRequests = new Set<NodeJS.Timeout>(); // Timers of the requests being dropped
+  let server: http.Server | null = null;
+
+  // Hash of a block on the current chain
+  function getBlockHash(blockNumber: number): string {
+    const recorded = blocks.get(blockNumber);
+    const baseHash = recorded ? recorded.hash : ethers.id(`mock-block-${blockNumber}`);
+    const epoch = forks.filter(forkBlock => forkBlock <= blockNumber).length;
+    return epoch === 0 ? baseHash : ethers.id(`${baseHash}-reorg-${epoch}`);
+  }
+
+  // Header of a block on the current chain (recorded or synthesized)
+  function getBlock(blockNumber: number): any {
+    if (blockNumber < 0 || blockNumber > headBlock) return null;
+
+    const recorded = blocks.get(blockNumber);
+    if (recorded) {
+      return { ...recorded, hash: getBlockHash(blockNumber), parentHash: getBlockHash(blockNumber - 1), transactions: [] };
+    }
+
+    // Time from the closest recorded block, or from the head if nothing was recorded
+    const anchor = recordedNumbers.reduce<number | null>((best, number) =>
+      best === null || Math.abs(number - blockNumber) < Math.abs(best - blockNumber) ? number : best, null);
+    const anchorTimestamp = anchor !== null ? Number(blocks.get(anchor).timestamp) : 0;
+    const timestamp = anchorTimestamp + ((blockNumber - (anchor ?? headBlock)) * BLOCK_TIME_SECONDS);
+
+    return {
+      number: ethers.toQuantity(blockNumber),
+      hash: getBlockHash(blockNumber),
+      parentHash: getBlockHash(blockNumber - 1),
+      timestamp: ethers.toQuantity(Math.max(0, timestamp)),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: '0x0',
+      gasUsed: '0x0',
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: '0x0',
+      transactions: []
+    };
+  }
+
+  // Resolve a block tag or quantity
+  function toBlockNumber(tag: unknown, fallback: number): number {
+    if (tag === undefined || tag === null) return fallback;
+    if (tag === 'latest' || tag === 'safe' || tag === 'finalized' || tag === 'pending') return headBlock;
+    if (tag === 'earliest') return 0;
+    return Number(tag);
+  }
+
+  function getLogs(filter: any): any[] {
+    const fromBlock = toBlockNumber(filter?.fromBlock, headBlock);
+    const toBlock = Math.min(toBlockNumber(filter?.toBlock, headBlock), headBlock);
+
+    if (options.maxBlockRange && toBlock - fromBlock + 1 > options.maxBlockRange) {
+      stats.rangeErrors++;
+      throw { code: -32005, message: `block range too large: max ${options.maxBlockRange} blocks` };
+    }
+
+    const addresses = [filter?.address ?? []].flat().map((address: string) => address.toLowerCase());
+    const topic0 = [filter?.topics?.[0] ?? []].flat();
+
+    return fixture.logs
+      .filter((log: any) => {
+        const blockNumber = Number(log.blockNumber);
+        return blockNumber >= fromBlock && blockNumber <= toBlock
+          && (addresses.length === 0 || addresses.includes(log.address.toLowerCase()))
+          && (topic0.length === 0 || topic0.includes(log.topics[0]));
+      })
+      .map((log: any) => ({ ...log, blockHash: getBlockHash(Number(log.blockNumber)) }));
+  }
+
+  // Answer a single JSON-RPC call
+  function handleCall(call: any): any {
+    stats.calls[call.method] = (stats.calls[call.method] || 0) + 1;
+    const reply = (result: unknown) => ({ jsonrpc: '2.0', id: call.id, result });
+
+    try {
+      switch (call.method) {
+        case 'eth_chainId':
+          return reply(ethers.toQuantity(fixture.chainId));
+        case 'net_version':
+          return reply(String(fixture.chainId));
+        case 'eth_blockNumber':
+          return reply(ethers.toQuantity(headBlock));
+        case 'eth_getLogs':
+          return reply(getLogs(call.params?.[0]));
+        case 'eth_getBlockByNumber':
+          return reply(getBlock(toBlockNumber(call.params?.[0], headBlock)));
+        case 'eth_getTransactionByHash':
+          return reply(transactions.get(String(call.params?.[0]).toLowerCase()) ?? null);
+        case 'eth_getTransactionReceipt':
+          return reply(receipts.get(String(call.params?.[0]).toLowerCase()) ?? null);
+        default:
+          return { jsonrpc: '2.0', id: call.id, error: { code: -32601, message: `the method ${call.method} does not exist/is not available` } };
+      }
+    } catch (error: any) {
+      return { jsonrpc: '2.0', id: call.id, error: { code: error.code ?? -32603, message: error.message ?? String(error) } };
+    }
+  }
+
+  function handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const requestNumber = ++stats.requests;
+
+    if (options.reorgBlock !== undefined && requestNumber === (options.reorgAfter ?? 0) + 1) {
+      reorg(options.reorgBlock);
+    }
+
+    if (options.timeoutEvery && requestNumber % options.timeoutEvery === 0) {
+      stats.timedOut++;
+      const timer = setTimeout(() => {
+        heldRequests.delete(timer);
+        request.socket.destroy();
+      }, timeoutMs);
+      heldRequests.add(timer);
+      return;
+    }
+
+    if (options.rateLimitEvery && requestNumber % options.rateLimitEvery === 0) {
+      stats.rateLimited++;
+      response.writeHead(429, { 'content-type': 'application/json' });
+      response.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: 429, message: 'Too Many Requests' } }));
+      return;
+    }
+
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      let payload: any;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        response.writeHead(400, { 'content-type': 'application/json' });
+        response.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+        return;
+      }
+
+      const result = Array.isArray(payload) ? payload.map(handleCall) : handleCall(payload);
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(result));
+    });
+  }
+
+  function reorg(forkBlock: number): void {
+    forks.push(forkBlock);
+    stats.reorgs.push(forkBlock);
+  }
+
+  return {
+    async start(port = 0): Promise<string> {
+      server = http.createServer(handleRequest);
+      await new Promise<void>((resolve, reject) => {
+        server?.once('error', reject);
+        server?.listen(port, '127.0.0.1', () => resolve());
+      });
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    },
+
+    async stop(): Promise<void> {
+      if (!server) return;
+      const closing = server;
+      server = null;
+      heldRequests.forEach(timer => clearTimeout(timer));
+      heldRequests.clear();
+      closing.closeAllConnections();
+      await new Promise<void>(resolve => closing.close(() => resolve()));
+    },
+
+    reorg,
+
+    getStats(): MockRpcStats {
+      return { ...stats, calls: { ...stats.calls }, reorgs: [...stats.reorgs] };
+    }
+  };
+}
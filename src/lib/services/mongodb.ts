@@ -8,12 +8,35 @@
 import { MongoClient, Db } from 'mongodb';
 import mongoose from 'mongoose';
 import { HypermapEvent, MintEvent, FactEvent, NoteEvent, 
-         GeneEvent, TransferEvent, HypermapEntry } from '../../types';
-import { ROOT_HASH } from '../../constants';
+         GeneEvent, TransferEvent, HypermapEntry, Address,
+         IndexerCheckpoint, PipelineStage,
+         BlockHeader, BlockHeaderStore, OrphanedBlock, ReorgRecord, Bytes, Bytes32,
+         RangeLease, LeaseSummary, CoverageRange, CoverageGap,
+         RawLog, RawLogArchive, QuarantinedLog, QuarantineStore, TransactionDetails,
+         ExtractionJob, JobStatus, JobChunkResult, OwnerReconciliation,
+         OwnershipRecord, OwnershipPoint, OwnerAt, OwnershipPeriod, NoteRevision,
+         FactAnomaly, FactAnomalyKind } from '../../types';
+import { ROOT_HASH, ZERO_ADDRESS, DEFAULT_CHAIN_ID,
+         LEASE_SIZE_BLOCKS, LEASE_DURATION_MS, LEASE_MAX_ATTEMPTS,
+         MATERIALIZE_BATCH_BLOCKS, JOB_STALE_MS, JOB_LOG_LIMIT,
+         PLACEHOLDER_LABEL, FULL_NAME_BATCH_SIZE, ENTRY_WRITE_BATCH_SIZE } from '../../constants';
+import { getActiveDeployment, getDeployment } from './deployments';
+import { getFullName, tokenIdToNamehash, namehashToTokenId, encodeLabelKey, decodeLabelKeys } from './names';
 
 // MongoDB Model types (will be imported from models)
 let HypermapEventModel: any;
 let HypermapEntryModel: any;
+let IndexerCheckpointModel: any;
+let BlockHeaderModel: any;
+let ReorgModel: any;
+let RangeLeaseModel: any;
+let CoverageRangeModel: any;
+let RawLogModel: any;
+let QuarantinedLogModel: any;
+let ExtractionJobModel: any;
+let OwnershipRecordModel: any;
+let NoteRevisionModel: any;
+let FactAnomalyModel: any;
 
 /**
  * Initialize MongoDB connection
@@ -28,11 +51,35 @@ export async function initMongoConnection(uri: string): Promise<void> {
     console.log('Connected to MongoDB');
     
     // Import models after connection to avoid model overwrite issues
-    const { HypermapEventModel: EventModel, HypermapEntryModel: EntryModel } = 
-      await import('../../models');
+    const { 
+      HypermapEventModel: EventModel, 
+      HypermapEntryModel: EntryModel,
+      IndexerCheckpointModel: CheckpointModel,
+      BlockHeaderModel: HeaderModel,
+      ReorgModel: ReorgRecordModel,
+      RangeLeaseModel: LeaseModel,
+      CoverageRangeModel: CoverageModel,
+      RawLogModel: LogModel,
+      QuarantinedLogModel: QuarantineModel,
+      ExtractionJobModel: JobModel,
+      OwnershipRecordModel: OwnershipModel,
+      NoteRevisionModel: NoteModel,
+      FactAnomalyModel: AnomalyModel
+    } = await import('../../models');
     
     HypermapEventModel = EventModel;
     HypermapEntryModel = EntryModel;
+    IndexerCheckpointModel = CheckpointModel;
+    BlockHeaderModel = HeaderModel;
+    ReorgModel = ReorgRecordModel;
+    RangeLeaseModel = LeaseModel;
+    CoverageRangeModel = CoverageModel;
+    RawLogModel = LogModel;
+    QuarantinedLogModel = QuarantineModel;
+    ExtractionJobModel = JobModel;
+    OwnershipRecordModel = OwnershipModel;
+    NoteRevisionModel = NoteModel;
+    FactAnomalyModel = AnomalyModel;
     
   } catch (error) {
     console.error('Error connecting to MongoDB:', error);
@@ -41,69 +88,1946 @@ export async function initMongoConnection(uri: string): Promise<void> {
 }
 
 /**
- * Store events in MongoDB
+ * Store events in MongoDB. Events are upserted by chain, transaction and log index and
+ * inserted with their event id (txHash_logIndex) as _id, so storing a range again
+ * (retried or recovered leases, gap fills) does not duplicate events, including events
+ * stored by earlier versions under generated ids. Returns how many events were new.
  */
-export async function storeEvents(events: HypermapEvent[]): Promise<void> {
-  if (!events.length) return;
+export async function storeEvents(events: HypermapEvent[]): Promise<{ upsertedCount: number; modifiedCount: number }> {
+  if (!events.length) return { upsertedCount: 0, modifiedCount: 0 };
+  
+  try {
+    // Validate models are initialized
+    if (!HypermapEventModel) {
+      throw new Error('MongoDB models not initialized');
+    }
+    
+    // Upsert through the native collection (the model would cast the string _id to an ObjectId);
+    // the unique (chainId, transactionHash, logIndex) index keeps concurrent writers of the same
+    // event from inserting it twice
+    const operations = events.map(event => ({
+      updateOne: {
+        filter: { chainId: event.chainId, transactionHash: event.transactionHash, logIndex: event.logIndex },
+        update: { $set: event, $setOnInsert: { _id: generateEventId(event), finality: 'pending' } }, // New events are pending until final
+        upsert: true
+      }
+    }));
+    const result = await HypermapEventModel.collection.bulkWrite(operations, { ordered: false });
+    
+    console.log(`Stored ${result.upsertedCount} new events in MongoDB, ${events.length - result.upsertedCount} were already stored`);
+    return { upsertedCount: result.upsertedCount, modifiedCount: result.modifiedCount };
+  } catch (error: any) {
+    // Handle duplicate key errors (concurrent upserts of the same event)
+    if (error.code === 11000) {
+      console.log(`Some events already exist in database, skipped duplicates`);
+      return { upsertedCount: error.result?.upsertedCount ?? 0, modifiedCount: error.result?.modifiedCount ?? 0 };
+    } else {
+      console.error(`Error storing events:`, error);
+      throw error; // Rethrow so callers do not checkpoint a failed chunk
+    }
+  }
+}
+
+/**
+ * Get events for an entry
+ */
+export async function getEventsForEntry(
+  namehash: string,
+  chainId = getActiveDeployment().chainId
+): Promise<HypermapEvent[]> {
+  // Validate models are initialized
+  if (!HypermapEventModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  // Query all event types that might reference this entry
+  const events = await HypermapEventModel.find({
+    chainId,
+    $or: [
+      { eventType: 'Mint', parenthash: namehash },
+      { eventType: 'Mint', childhash: namehash },
+      { eventType: 'Fact', parenthash: namehash },
+      { eventType: 'Note', parenthash: namehash },
+      { eventType: 'Gene', entry: namehash },
+      { eventType: 'Transfer', id: namehashToTokenId(namehash) }
+    ]
+  }).sort({ blockNumber: 1, logIndex: 1 }).lean();
+  
+  return events;
+}
+
+/**
+ * Get an entry by namehash
+ */
+export async function getEntry(
+  namehash: string,
+  chainId = getActiveDeployment().chainId
+): Promise<HypermapEntry | null> {
+  // Validate models are initialized
+  if (!HypermapEntryModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const entry: HypermapEntry | null = await HypermapEntryModel.findOne({ chainId, namehash }).lean();
+  return entry && withDecodedLabelKeys(entry);
+}
+
+/**
+ * Get an entry by its full name (e.g. 'foo.bar.os')
+ */
+export async function getEntryByName(
+  fullName: string,
+  chainId = getActiveDeployment().chainId
+): Promise<HypermapEntry | null> {
+  // Validate models are initialized
+  if (!HypermapEntryModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const entry: HypermapEntry | null = await HypermapEntryModel.findOne({ chainId, fullName }).lean();
+  return entry && withDecodedLabelKeys(entry);
+}
+
+/**
+ * Get the indexing checkpoint for a pipeline stage
+ */
+export async function getCheckpoint(
+  stage: PipelineStage,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<IndexerCheckpoint | null> {
+  // Validate models are initialized
+  if (!IndexerCheckpointModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return IndexerCheckpointModel.findOne({
+    chainId,
+    contractAddress: contractAddress.toLowerCase(),
+    stage
+  }).lean();
+}
+
+/**
+ * Get all stored indexing checkpoints
+ */
+export async function getCheckpoints(): Promise<IndexerCheckpoint[]> {
+  // Validate models are initialized
+  if (!IndexerCheckpointModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return IndexerCheckpointModel.find().sort({ chainId: 1, stage: 1 }).lean();
+}
+
+/**
+ * Resolve the block a pipeline stage should resume from
+ * (the block after its checkpoint, or the deployment block if there is none)
+ */
+export async function resolveStartBlock(
+  stage: PipelineStage,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<number> {
+  const checkpoint = await getCheckpoint(stage, chainId, contractAddress);
+  return checkpoint ? checkpoint.lastBlock + 1 : getDeployment(chainId).deploymentBlock;
+}
+
+/**
+ * Advance the checkpoint of a pipeline stage after a chunk completed.
+ * 
+ * The update is a single atomic operation that only applies when the chunk
+ * continues the checkpointed range (fromBlock <= lastBlock + 1), so runs over
+ * a detached range never move the checkpoint past blocks that were not scanned.
+ * Returns true if the checkpoint now covers toBlock.
+ */
+export async function saveCheckpoint(
+  stage: PipelineStage,
+  fromBlock: number,
+  toBlock: number,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<boolean> {
+  // Validate models are initialized
+  if (!IndexerCheckpointModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const key = { chainId, contractAddress: contractAddress.toLowerCase(), stage };
+  
+  const updated = await IndexerCheckpointModel.findOneAndUpdate(
+    { ...key, lastBlock: { $gte: fromBlock - 1, $lt: toBlock } },
+    { $set: { lastBlock: toBlock } },
+    { new: true }
+  );
+  if (updated) return true;
+  
+  // No contiguous checkpoint - create the first one for this stage
+  try {
+    await IndexerCheckpointModel.create({ ...key, lastBlock: toBlock });
+    return true;
+  } catch (error: any) {
+    // A checkpoint already exists but does not continue into this chunk
+    if (error.code === 11000) {
+      const existing = await getCheckpoint(stage, chainId, contractAddress);
+      return !!existing && existing.lastBlock >= toBlock;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move checkpoints at or after a block back to the block before it
+ */
+export async function rewindCheckpoints(
+  lastBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<void> {
+  // Validate models are initialized
+  if (!IndexerCheckpointModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await IndexerCheckpointModel.updateMany(
+    { chainId, lastBlock: { $gt: lastBlock } },
+    { $set: { lastBlock } }
+  );
+}
+
+/**
+ * Generate the unique ID of an event (transaction hash and log index)
+ */
+export function generateEventId(event: HypermapEvent): string {
+  return `${event.transactionHash}_${event.logIndex}`;
+}
+
+/**
+ * Store block headers seen during ingestion (upserted by chain and block number)
+ */
+export async function storeBlockHeaders(headers: BlockHeader[]): Promise<void> {
+  if (!headers.length) return;
+  
+  // Validate models are initialized
+  if (!BlockHeaderModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await BlockHeaderModel.bulkWrite(headers.map(header => ({
+    updateOne: {
+      filter: { chainId: header.chainId, blockNumber: header.blockNumber },
+      update: { $set: header },
+      upsert: true
+    }
+  })), { ordered: false });
+}
+
+/**
+ * Get stored block headers from a block onwards, in block order
+ */
+export async function getBlockHeaders(
+  fromBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<BlockHeader[]> {
+  // Validate models are initialized
+  if (!BlockHeaderModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return BlockHeaderModel.find({ chainId, blockNumber: { $gte: fromBlock } })
+    .sort({ blockNumber: 1 })
+    .lean();
+}
+
+/**
+ * Get stored timestamps for a set of blocks
+ */
+export async function getStoredBlockTimestamps(
+  blockNumbers: number[],
+  chainId = getActiveDeployment().chainId
+): Promise<Map<number, number>> {
+  // Validate models are initialized
+  if (!BlockHeaderModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const headers: BlockHeader[] = await BlockHeaderModel.find({
+    chainId,
+    blockNumber: { $in: blockNumbers },
+    timestamp: { $ne: null }
+  }).select('blockNumber timestamp').lean();
+  
+  return new Map(headers.map(header => [header.blockNumber, header.timestamp as number]));
+}
+
+/**
+ * Block header store backed by the blockheaders collection
+ * (pass to setBlockHeaderStore in the event service)
+ */
+export const mongoBlockHeaderStore: BlockHeaderStore = {
+  getTimestamps: (blockNumbers: number[]) => getStoredBlockTimestamps(blockNumbers),
+  saveHeaders: (headers: BlockHeader[]) => storeBlockHeaders(headers)
+};
+
+/**
+ * Get block numbers of stored events that have no timestamp, in block order
+ */
+export async function getBlocksMissingTimestamps(
+  limit = 1000,
+  chainId = getActiveDeployment().chainId
+): Promise<number[]> {
+  // Validate models are initialized
+  if (!HypermapEventModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const blocks = await HypermapEventModel.aggregate([
+    { $match: { chainId, timestamp: null } },
+    { $group: { _id: '$blockNumber' } },
+    { $sort: { _id: 1 } },
+    { $limit: limit }
+  ]);
+  
+  return blocks.map((block: { _id: number }) => block._id);
+}
+
+/**
+ * Set the timestamp of all stored events in the given blocks
+ * Returns the number of updated events
+ */
+export async function setEventTimestamps(
+  timestamps: Map<number, number>,
+  chainId = getActiveDeployment().chainId
+): Promise<number> {
+  if (!timestamps.size) return 0;
+  
+  // Validate models are initialized
+  if (!HypermapEventModel || !OwnershipRecordModel || !NoteRevisionModel || !FactAnomalyModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const updates = [...timestamps].map(([blockNumber, timestamp]) => ({
+    updateMany: {
+      filter: { chainId, blockNumber, timestamp: null },
+      update: { $set: { timestamp } }
+    }
+  }));
+  
+  const result = await HypermapEventModel.bulkWrite(updates, { ordered: false });
+  await OwnershipRecordModel.bulkWrite(updates, { ordered: false });
+  await NoteRevisionModel.bulkWrite(updates, { ordered: false });
+  await FactAnomalyModel.bulkWrite(updates, { ordered: false });
+  
+  return result.modifiedCount;
+}
+
+/**
+ * Get the hashes of transactions whose stored events have no transaction details,
+ * in block order
+ */
+export async function getTransactionsMissingDetails(
+  limit = 1000,
+  chainId = getActiveDeployment().chainId
+): Promise<string[]> {
+  // Validate models are initialized
+  if (!HypermapEventModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const transactions = await HypermapEventModel.aggregate([
+    { $match: { chainId, txFrom: null } },
+    { $group: { _id: '$transactionHash', blockNumber: { $min: '$blockNumber' } } },
+    { $sort: { blockNumber: 1, _id: 1 } },
+    { $limit: limit }
+  ]);
+  
+  return transactions.map((transaction: { _id: string }) => transaction._id);
+}
+
+/**
+ * Set the transaction details on all stored events of the given transactions
+ * Returns the number of updated events
+ */
+export async function setEventTransactionDetails(
+  details: TransactionDetails[],
+  chainId = getActiveDeployment().chainId
+): Promise<number> {
+  if (!details.length) return 0;
+  
+  // Validate models are initialized
+  if (!HypermapEventModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const result = await HypermapEventModel.bulkWrite(details.map(({ transactionHash, ...fields }) => ({
+    updateMany: {
+      filter: { chainId, transactionHash },
+      update: { $set: fields }
+    }
+  })), { ordered: false });
+  
+  return result.modifiedCount;
+}
+
+/**
+ * Mark the stored events up to the final block as finalized
+ * Returns the number of events promoted from pending
+ */
+export async function finalizeEvents(
+  finalizedBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<number> {
+  // Validate models are initialized
+  if (!HypermapEventModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  // Events stored before finality tracking have no finality field and count as pending
+  const result = await HypermapEventModel.updateMany(
+    { chainId, finality: { $ne: 'finalized' }, blockNumber: { $lte: finalizedBlock } },
+    { $set: { finality: 'finalized' } }
+  );
+  
+  return result.modifiedCount;
+}
+
+/**
+ * Count the stored events that are pending and finalized
+ */
+export async function countEventsByFinality(
+  chainId = getActiveDeployment().chainId
+): Promise<{ pending: number; finalized: number }> {
+  // Validate models are initialized
+  if (!HypermapEventModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const [pending, finalized] = await Promise.all([
+    HypermapEventModel.countDocuments({ chainId, finality: { $ne: 'finalized' } }),
+    HypermapEventModel.countDocuments({ chainId, finality: 'finalized' })
+  ]);
+  
+  return { pending, finalized };
+}
+
+/**
+ * Count the stored Mint, Fact and Note events whose hashes or label failed verification
+ */
+export async function countEventsWithIntegrityIssues(chainId = getActiveDeployment().chainId): Promise<number> {
+  // Validate models are initialized
+  if (!HypermapEventModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return HypermapEventModel.countDocuments({ chainId, 'integrityIssues.0': { $exists: true } });
+}
+
+/**
+ * Get the most recent reorganizations, newest first
+ */
+export async function getReorgs(limit = 20, chainId = getActiveDeployment().chainId): Promise<ReorgRecord[]> {
+  // Validate models are initialized
+  if (!ReorgModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return ReorgModel.find({ chainId }).sort({ createdAt: -1 }).limit(limit).lean();
+}
+
+/**
+ * Roll back everything stored from a fork block onwards after a reorganization.
+ * 
+ * Deletes the orphaned events, archived and quarantined logs, block headers,
+ * ownership records, note revisions and fact anomalies, rewinds the checkpoints so the range is ingested again, re-derives every entry
+ * the orphaned events touched from the remaining events, and records the reorg
+ * for downstream consumers.
+ */
+export async function rollbackFromBlock(
+  forkBlock: number,
+  headBlock: number,
+  orphanedBlocks: OrphanedBlock[],
+  chainId = getActiveDeployment().chainId
+): Promise<ReorgRecord> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !HypermapEntryModel || !BlockHeaderModel || !ReorgModel || !RawLogModel || !QuarantinedLogModel || !OwnershipRecordModel || !NoteRevisionModel || !FactAnomalyModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  // 1. Collect and delete the orphaned events
+  const orphanedEvents: HypermapEvent[] = await HypermapEventModel.find({ 
+    chainId,
+    blockNumber: { $gte: forkBlock } 
+  }).lean();
+  
+  await HypermapEventModel.deleteMany({ chainId, blockNumber: { $gte: forkBlock } });
+  await BlockHeaderModel.deleteMany({ chainId, blockNumber: { $gte: forkBlock } });
+  await deleteRawLogsFromBlock(forkBlock, chainId);
+  await QuarantinedLogModel.deleteMany({ chainId, blockNumber: { $gte: forkBlock } });
+  await OwnershipRecordModel.deleteMany({ chainId, blockNumber: { $gte: forkBlock } });
+  await NoteRevisionModel.deleteMany({ chainId, blockNumber: { $gte: forkBlock } });
+  await FactAnomalyModel.deleteMany({ chainId, blockNumber: { $gte: forkBlock } });
+  
+  // 2. Make every stage ingest the rolled back range again
+  await rewindCheckpoints(forkBlock - 1, chainId);
+  await rewindCoverage(forkBlock - 1, chainId);
+  
+  // 3. Re-derive the entries touched by orphaned events from the remaining events
+  const affectedEntries = await rederiveEntries(orphanedEvents, chainId);
+  
+  // 4. Record the reorg
+  const record: ReorgRecord = {
+    chainId,
+    forkBlock,
+    headBlock,
+    orphanedBlocks,
+    removedEventIds: orphanedEvents.map(generateEventId),
+    affectedEntries
+  };
+  await ReorgModel.create(record);
+  
+  console.log(`Rolled back reorg from block ${forkBlock}: removed ${orphanedEvents.length} events, re-derived ${affectedEntries.length} entries`);
+  return record;
+}
+
+/**
+ * Get stored events of a block range in chain order (block number, then log index)
+ */
+export async function getEventsInBlockRange(
+  fromBlock: number,
+  toBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<HypermapEvent[]> {
+  // Validate models are initialized
+  if (!HypermapEventModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return HypermapEventModel.find({ chainId, blockNumber: { $gte: fromBlock, $lte: toBlock } })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .lean();
+}
+
+/**
+ * Split a block range into backfill leases.
+ * 
+ * Leases that are already planned are kept; only blocks after the last planned
+ * lease are added, so planning again with a later end block extends the plan.
+ * Failed leases are queued again. Returns the number of new leases.
+ */
+export async function planLeases(
+  fromBlock: number,
+  toBlock: number,
+  leaseSize = LEASE_SIZE_BLOCKS,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<number> {
+  // Validate models are initialized
+  if (!RangeLeaseModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const key = { chainId, contractAddress: contractAddress.toLowerCase() };
+  
+  await RangeLeaseModel.updateMany(
+    { ...key, status: 'failed' },
+    { $set: { status: 'pending', owner: null, expiresAt: null, attempts: 0 } }
+  );
+  
+  const lastLease: RangeLease | null = await RangeLeaseModel.findOne(key).sort({ toBlock: -1 }).lean();
+  const leases: RangeLease[] = [];
+  
+  for (let start = Math.max(fromBlock, lastLease ? lastLease.toBlock + 1 : fromBlock); start <= toBlock; start += leaseSize) {
+    leases.push({
+      ...key,
+      fromBlock: start,
+      toBlock: Math.min(start + leaseSize - 1, toBlock),
+      status: 'pending',
+      owner: null,
+      expiresAt: null,
+      attempts: 0,
+      eventCount: 0
+    });
+  }
+  
+  if (!leases.length) return 0;
+  
+  try {
+    const result = await RangeLeaseModel.insertMany(leases, { ordered: false });
+    return result.length;
+  } catch (error: any) {
+    // Another planner inserted some of the same leases
+    if (error.code === 11000) {
+      return error.insertedDocs?.length ?? 0;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Claim the lowest pending (or expired) backfill lease for a worker.
+ * Expired leases that used up their attempts are marked failed instead.
+ */
+export async function claimLease(
+  owner: string,
+  durationMs = LEASE_DURATION_MS,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<RangeLease | null> {
+  // Validate models are initialized
+  if (!RangeLeaseModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const key = { chainId, contractAddress: contractAddress.toLowerCase() };
+  const now = new Date();
+  
+  await RangeLeaseModel.updateMany(
+    { ...key, status: 'claimed', expiresAt: { $lt: now }, attempts: { $gte: LEASE_MAX_ATTEMPTS } },
+    { $set: { status: 'failed', owner: null, expiresAt: null, lastError: 'Lease expired on its last attempt' } }
+  );
+  
+  return RangeLeaseModel.findOneAndUpdate(
+    {
+      ...key,
+      $or: [
+        { status: 'pending' },
+        { status: 'claimed', expiresAt: { $lt: now } }
+      ]
+    },
+    {
+      $set: { status: 'claimed', owner, expiresAt: new Date(now.getTime() + durationMs) },
+      $inc: { attempts: 1 }
+    },
+    { sort: { fromBlock: 1 }, new: true }
+  ).lean();
+}
+
+/**
+ * Extend a worker's claim on a lease. Returns false if the worker no longer holds it.
+ */
+export async function renewLease(
+  lease: RangeLease,
+  owner: string,
+  durationMs = LEASE_DURATION_MS
+): Promise<boolean> {
+  // Validate models are initialized
+  if (!RangeLeaseModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const result = await RangeLeaseModel.updateOne(
+    { _id: lease._id, owner, status: 'claimed' },
+    { $set: { expiresAt: new Date(Date.now() + durationMs) } }
+  );
+  return result.matchedCount === 1;
+}
+
+/**
+ * Mark a lease as done. Returns false if the worker no longer held it.
+ */
+export async function completeLease(lease: RangeLease, owner: string, eventCount: number): Promise<boolean> {
+  // Validate models are initialized
+  if (!RangeLeaseModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const result = await RangeLeaseModel.updateOne(
+    { _id: lease._id, owner, status: 'claimed' },
+    { $set: { status: 'done', owner: null, expiresAt: null, eventCount, completedAt: new Date() } }
+  );
+  return result.matchedCount === 1;
+}
+
+/**
+ * Release a lease after a failed attempt: queue it again, or mark it failed after
+ * LEASE_MAX_ATTEMPTS claims
+ */
+export async function failLease(lease: RangeLease, owner: string, error: string): Promise<void> {
+  // Validate models are initialized
+  if (!RangeLeaseModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await RangeLeaseModel.updateOne(
+    { _id: lease._id, owner, status: 'claimed' },
+    { $set: {
+      status: lease.attempts >= LEASE_MAX_ATTEMPTS ? 'failed' : 'pending',
+      owner: null,
+      expiresAt: null,
+      lastError: error
+    } }
+  );
+}
+
+/**
+ * Count the backfill leases by state
+ */
+export async function getLeaseSummary(
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<LeaseSummary> {
+  // Validate models are initialized
+  if (!RangeLeaseModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const key = { chainId, contractAddress: contractAddress.toLowerCase() };
+  const now = new Date();
+  
+  const [counts, expired, first, last] = await Promise.all([
+    RangeLeaseModel.aggregate([
+      { $match: key },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ]),
+    RangeLeaseModel.countDocuments({ ...key, status: 'claimed', expiresAt: { $lt: now } }),
+    RangeLeaseModel.findOne(key).sort({ fromBlock: 1 }).lean(),
+    RangeLeaseModel.findOne(key).sort({ toBlock: -1 }).lean()
+  ]);
+  
+  const byStatus: Record<string, number> = {};
+  for (const { _id, count } of counts) {
+    byStatus[_id] = count;
+  }
+  
+  return {
+    total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+    pending: byStatus.pending || 0,
+    claimed: (byStatus.claimed || 0) - expired,
+    expired,
+    done: byStatus.done || 0,
+    failed: byStatus.failed || 0,
+    fromBlock: first ? first.fromBlock : null,
+    toBlock: last ? last.toBlock : null
+  };
+}
+
+/**
+ * Get backfill leases in a state, in block order
+ */
+export async function getLeases(
+  status: RangeLease['status'],
+  limit = 20,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<RangeLease[]> {
+  // Validate models are initialized
+  if (!RangeLeaseModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return RangeLeaseModel.find({ chainId, contractAddress: contractAddress.toLowerCase(), status })
+    .sort({ fromBlock: 1 })
+    .limit(limit)
+    .lean();
+}
+
+/**
+ * Advance the 'extract' checkpoint over the completed leases that continue it.
+ * Leases complete out of order, so the checkpoint only moves up to the first gap.
+ * Returns the extract checkpoint block, or null if there is none yet.
+ */
+export async function advanceCheckpointFromLeases(
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<number | null> {
+  // Validate models are initialized
+  if (!RangeLeaseModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const key = { chainId, contractAddress: contractAddress.toLowerCase() };
+  const checkpoint = await getCheckpoint('extract', chainId, contractAddress);
+  
+  const leases: RangeLease[] = await RangeLeaseModel.find({
+    ...key,
+    ...(checkpoint ? { toBlock: { $gt: checkpoint.lastBlock } } : {})
+  }).sort({ fromBlock: 1 }).lean();
+  if (!leases.length) return checkpoint ? checkpoint.lastBlock : null;
+  
+  // Without a checkpoint, the plan's first block is the start of the extracted range
+  const start = checkpoint ? checkpoint.lastBlock + 1 : leases[0].fromBlock;
+  let lastBlock = start - 1;
+  
+  for (const lease of leases) {
+    if (lease.status !== 'done' || lease.fromBlock > lastBlock + 1) break;
+    lastBlock = lease.toBlock;
+  }
+  
+  if (lastBlock >= start) {
+    await saveCheckpoint('extract', start, lastBlock, chainId, contractAddress);
+    return lastBlock;
+  }
+  return checkpoint ? checkpoint.lastBlock : null;
+}
+
+// Job states that hold on to their block range
+const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running', 'paused'];
+
+// Append a line to a job's log, keeping the latest JOB_LOG_LIMIT lines
+function jobLog(message: string) {
+  return { logs: { $each: [{ at: new Date(), message }], $slice: -JOB_LOG_LIMIT } };
+}
+
+// Filter for the active jobs whose range overlaps a block range (a null end block follows the chain head)
+function overlappingJobsFilter(job: Pick<ExtractionJob, 'chainId' | 'contractAddress' | 'fromBlock' | 'toBlock'>) {
+  return {
+    chainId: job.chainId,
+    contractAddress: job.contractAddress,
+    status: { $in: ACTIVE_JOB_STATUSES },
+    ...(job.toBlock !== null ? { fromBlock: { $lte: job.toBlock } } : {}),
+    $or: [{ toBlock: null }, { toBlock: { $gte: job.fromBlock } }]
+  };
+}
+
+// Describe the block range of a job
+function formatJobRange(job: Pick<ExtractionJob, 'fromBlock' | 'toBlock'>): string {
+  return `blocks ${job.fromBlock} to ${job.toBlock ?? 'latest'}`;
+}
+
+/**
+ * Queue an extraction job for a block range (a null end block follows the chain head).
+ * Fails if the range overlaps a queued, running or paused job; of two overlapping jobs
+ * created at the same time, the one created first is kept.
+ */
+export async function createExtractionJob(
+  fromBlock: number,
+  toBlock: number | null,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<ExtractionJob> {
+  // Validate models are initialized
+  if (!ExtractionJobModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const range = { chainId, contractAddress: contractAddress.toLowerCase(), fromBlock, toBlock };
+  const existing: ExtractionJob | null = await ExtractionJobModel.findOne(overlappingJobsFilter(range)).lean();
+  if (existing) {
+    throw new Error(`Blocks ${fromBlock} to ${toBlock ?? 'latest'} overlap extraction job ${existing._id} (${existing.status}, ${formatJobRange(existing)})`);
+  }
+  
+  const job: ExtractionJob = (await ExtractionJobModel.create({
+    ...range,
+    nextBlock: fromBlock,
+    status: 'queued',
+    logs: [{ at: new Date(), message: `Queued extraction of ${formatJobRange(range)}` }]
+  })).toObject();
+  
+  // Another job for an overlapping range may have been created since the check
+  const earlier: ExtractionJob | null = await ExtractionJobModel.findOne({
+    ...overlappingJobsFilter(range),
+    _id: { $lt: job._id }
+  }).lean();
+  if (earlier) {
+    await ExtractionJobModel.deleteOne({ _id: job._id });
+    throw new Error(`Blocks ${fromBlock} to ${toBlock ?? 'latest'} overlap extraction job ${earlier._id} (${earlier.status}, ${formatJobRange(earlier)})`);
+  }
+  
+  return job;
+}
+
+/**
+ * Claim the oldest queued extraction job for a worker, or a running job whose worker
+ * has not reported for staleMs (the server stopped or crashed)
+ */
+export async function claimExtractionJob(
+  owner: string,
+  staleMs = JOB_STALE_MS,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<ExtractionJob | null> {
+  // Validate models are initialized
+  if (!ExtractionJobModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const now = new Date();
+  
+  return ExtractionJobModel.findOneAndUpdate(
+    {
+      chainId,
+      contractAddress: contractAddress.toLowerCase(),
+      $or: [
+        { status: 'queued' },
+        { status: 'running', heartbeatAt: { $lt: new Date(now.getTime() - staleMs) } }
+      ]
+    },
+    {
+      $set: { status: 'running', owner, heartbeatAt: now },
+      $push: jobLog(`Started by worker ${owner}`)
+    },
+    { sort: { createdAt: 1 }, new: true }
+  ).lean();
+}
+
+/**
+ * Record a processed chunk of a job and renew the worker's heartbeat.
+ * Returns the updated job (its status tells whether it was paused or cancelled
+ * meanwhile), or null if the worker no longer holds it.
+ */
+export async function recordExtractionJobChunk(
+  job: ExtractionJob,
+  owner: string,
+  chunk: JobChunkResult
+): Promise<ExtractionJob | null> {
+  // Validate models are initialized
+  if (!ExtractionJobModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return ExtractionJobModel.findOneAndUpdate(
+    { _id: job._id, owner },
+    {
+      $set: {
+        nextBlock: chunk.nextStartBlock ?? chunk.currentBlock + 1,
+        targetBlock: chunk.targetBlock,
+        heartbeatAt: new Date()
+      },
+      $inc: { chunks: 1, eventsFound: chunk.eventsFound, eventsStored: chunk.eventsStored },
+      $push: jobLog(chunk.message)
+    },
+    { new: true }
+  ).lean();
+}
+
+/**
+ * Mark a running job as completed or failed. Returns false if the worker no longer
+ * held it, or it was paused or cancelled meanwhile.
+ */
+export async function finishExtractionJob(
+  job: ExtractionJob,
+  owner: string,
+  status: 'completed' | 'failed',
+  message: string,
+  error?: string
+): Promise<boolean> {
+  // Validate models are initialized
+  if (!ExtractionJobModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const result = await ExtractionJobModel.updateOne(
+    { _id: job._id, owner, status: 'running' },
+    {
+      $set: { status, owner: null, heartbeatAt: null, completedAt: new Date(), ...(error ? { error } : {}) },
+      $push: jobLog(message)
+    }
+  );
+  return result.matchedCount === 1;
+}
+
+/**
+ * Move a job to another state if it is in one of the given states (pause, resume, cancel).
+ * Queued jobs are released by their worker; a job that is queued again from a finished
+ * state must not overlap an active job. A running worker notices pauses and cancellations
+ * after its current chunk. Returns the updated job, or null if it was in none of the states.
+ */
+export async function updateExtractionJobStatus(
+  id: string,
+  from: JobStatus[],
+  to: JobStatus,
+  message: string
+): Promise<ExtractionJob | null> {
+  // Validate models are initialized
+  if (!ExtractionJobModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const job: ExtractionJob | null = await ExtractionJobModel.findById(id).lean();
+  if (!job || !from.includes(job.status)) return null;
+  
+  if (ACTIVE_JOB_STATUSES.includes(to) && !ACTIVE_JOB_STATUSES.includes(job.status)) {
+    const overlapping: ExtractionJob | null = await ExtractionJobModel.findOne({
+      ...overlappingJobsFilter(job),
+      _id: { $ne: job._id }
+    }).lean();
+    if (overlapping) {
+      throw new Error(`Extraction job ${id} overlaps extraction job ${overlapping._id} (${overlapping.status}, ${formatJobRange(overlapping)})`);
+    }
+  }
+  
+  const update: Record<string, unknown> = { status: to };
+  if (to === 'queued') {
+    Object.assign(update, { owner: null, heartbeatAt: null });
+  } else if (to === 'cancelled') {
+    update.completedAt = new Date();
+  }
+  
+  return ExtractionJobModel.findOneAndUpdate(
+    { _id: job._id, status: job.status },
+    {
+      $set: update,
+      ...(to === 'queued' ? { $unset: { error: 1, completedAt: 1 } } : {}),
+      $push: jobLog(message)
+    },
+    { new: true }
+  ).lean();
+}
+
+/**
+ * Get the most recently created extraction jobs of a deployment, newest first
+ */
+export async function getExtractionJobs(
+  limit = 20,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<ExtractionJob[]> {
+  // Validate models are initialized
+  if (!ExtractionJobModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return ExtractionJobModel.find({ chainId, contractAddress: contractAddress.toLowerCase() })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .lean();
+}
+
+/**
+ * Rebuild the entries touched by a set of events from all of their stored events,
+ * replayed in chain order. Used when events are removed (reorgs) or stored out of
+ * order (gap fills), where applying the events on top of the entries would be wrong.
+ * Returns the namehashes of the rebuilt entries.
+ */
+export async function rederiveEntries(
+  events: HypermapEvent[],
+  chainId = getActiveDeployment().chainId
+): Promise<Bytes32[]> {
+  // Validate models are initialized
+  if (!HypermapEntryModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const affectedEntries = [...new Set(events.flatMap(getEntryHashes))]
+    .filter(namehash => namehash && namehash !== ROOT_HASH);
+  if (!affectedEntries.length) return [];
+  
+  await HypermapEntryModel.deleteMany({ chainId, namehash: { $in: affectedEntries } });
+  
+  const replayEvents = new Map<string, HypermapEvent>();
+  for (const namehash of affectedEntries) {
+    for (const event of await getEventsForEntry(namehash, chainId)) {
+      replayEvents.set(generateEventId(event), event);
+    }
+  }
+  
+  await processEventsToEntries(
+    [...replayEvents.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+  );
+  return affectedEntries;
+}
+
+/**
+ * Record a scanned block range in the coverage ledger.
+ * 
+ * The range is merged with the scanned ranges of the same stage it overlaps or
+ * touches, so the ledger stays small. The merged range is inserted before the
+ * ranges it replaces are deleted, so concurrent writers never lose coverage.
+ * Failed ranges inside the scanned range are removed.
+ */
+export async function recordCoverage(
+  stage: PipelineStage,
+  fromBlock: number,
+  toBlock: number,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<void> {
+  // Validate models are initialized
+  if (!CoverageRangeModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const key = { chainId, contractAddress: contractAddress.toLowerCase() };
+  
+  const neighbours: (CoverageRange & { _id: mongoose.Types.ObjectId })[] = await CoverageRangeModel.find({
+    ...key,
+    stage,
+    status: 'scanned',
+    fromBlock: { $lte: toBlock + 1 },
+    toBlock: { $gte: fromBlock - 1 }
+  }).lean();
+  
+  await CoverageRangeModel.create({
+    ...key,
+    stage,
+    status: 'scanned',
+    fromBlock: Math.min(fromBlock, ...neighbours.map(range => range.fromBlock)),
+    toBlock: Math.max(toBlock, ...neighbours.map(range => range.toBlock))
+  });
+  
+  if (neighbours.length > 0) {
+    await CoverageRangeModel.deleteMany({ _id: { $in: neighbours.map(range => range._id) } });
+  }
+  
+  await CoverageRangeModel.deleteMany({
+    ...key,
+    status: 'failed',
+    fromBlock: { $gte: fromBlock },
+    toBlock: { $lte: toBlock }
+  });
+}
+
+/**
+ * Record a block range whose scan was given up in the coverage ledger
+ */
+export async function recordCoverageFailure(
+  stage: PipelineStage,
+  fromBlock: number,
+  toBlock: number,
+  error: string,
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<void> {
+  // Validate models are initialized
+  if (!CoverageRangeModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await CoverageRangeModel.create({
+    chainId,
+    contractAddress: contractAddress.toLowerCase(),
+    stage,
+    status: 'failed',
+    fromBlock,
+    toBlock,
+    error
+  });
+}
+
+/**
+ * Remove coverage after a block (e.g. after a reorg rollback)
+ */
+export async function rewindCoverage(
+  lastBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<void> {
+  // Validate models are initialized
+  if (!CoverageRangeModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await CoverageRangeModel.deleteMany({ chainId, fromBlock: { $gt: lastBlock } });
+  await CoverageRangeModel.updateMany(
+    { chainId, toBlock: { $gt: lastBlock } },
+    { $set: { toBlock: lastBlock } }
+  );
+}
+
+/**
+ * Find the block ranges between two blocks that no scan of the given stages covers.
+ * Gaps overlapping a failed range report the last recorded error.
+ */
+export async function findCoverageGaps(
+  fromBlock: number,
+  toBlock: number,
+  stages: PipelineStage[] = ['extract', 'index'],
+  chainId = getActiveDeployment().chainId,
+  contractAddress = getActiveDeployment().contractAddress
+): Promise<CoverageGap[]> {
+  // Validate models are initialized
+  if (!CoverageRangeModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const key = { chainId, contractAddress: contractAddress.toLowerCase() };
+  const overlapping = { fromBlock: { $lte: toBlock }, toBlock: { $gte: fromBlock } };
+  
+  const [scanned, failed]: [CoverageRange[], CoverageRange[]] = await Promise.all([
+    CoverageRangeModel.find({ ...key, ...overlapping, stage: { $in: stages }, status: 'scanned' })
+      .sort({ fromBlock: 1 }).lean(),
+    CoverageRangeModel.find({ ...key, ...overlapping, stage: { $in: stages }, status: 'failed' })
+      .sort({ updatedAt: -1 }).lean()
+  ]);
+  
+  // Walk the scanned ranges in block order and collect what lies between them
+  const gaps: CoverageGap[] = [];
+  let nextBlock = fromBlock;
+  
+  const addGap = (gapFrom: number, gapTo: number) => {
+    const failure = failed.find(range => range.fromBlock <= gapTo && range.toBlock >= gapFrom);
+    gaps.push({
+      fromBlock: gapFrom,
+      toBlock: gapTo,
+      reason: failure ? 'failed' : 'unscanned',
+      ...(failure ? { error: failure.error } : {})
+    });
+  };
+  
+  for (const range of scanned) {
+    if (range.fromBlock > nextBlock) {
+      addGap(nextBlock, Math.min(range.fromBlock - 1, toBlock));
+    }
+    nextBlock = Math.max(nextBlock, range.toBlock + 1);
+    if (nextBlock > toBlock) break;
+  }
+  
+  if (nextBlock <= toBlock) {
+    addGap(nextBlock, toBlock);
+  }
+  
+  return gaps;
+}
+
+/**
+ * Store raw logs in the archive collection (upserted by txHash_logIndex)
+ */
+export async function storeRawLogs(logs: RawLog[]): Promise<void> {
+  if (!logs.length) return;
+  
+  // Validate models are initialized
+  if (!RawLogModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await RawLogModel.bulkWrite(logs.map(log => ({
+    updateOne: {
+      filter: { _id: `${log.transactionHash}_${log.logIndex}` },
+      update: { $set: log },
+      upsert: true
+    }
+  })), { ordered: false });
+}
+
+/**
+ * Get archived raw logs of a block range in chain order (block number, then log index)
+ */
+export async function getRawLogs(
+  fromBlock: number,
+  toBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<RawLog[]> {
+  // Validate models are initialized
+  if (!RawLogModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return RawLogModel.find({ chainId, blockNumber: { $gte: fromBlock, $lte: toBlock } })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .select('-_id -createdAt -updatedAt -__v')
+    .lean();
+}
+
+/**
+ * Get the newest block with archived raw logs
+ */
+export async function getLastRawLogBlock(chainId = getActiveDeployment().chainId): Promise<number | null> {
+  // Validate models are initialized
+  if (!RawLogModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const last: RawLog | null = await RawLogModel.findOne({ chainId })
+    .sort({ blockNumber: -1 })
+    .select('blockNumber')
+    .lean();
+  return last ? last.blockNumber : null;
+}
+
+/**
+ * Delete archived raw logs from a block onwards
+ */
+export async function deleteRawLogsFromBlock(
+  blockNumber: number,
+  chainId = getActiveDeployment().chainId
+): Promise<void> {
+  // Validate models are initialized
+  if (!RawLogModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await RawLogModel.deleteMany({ chainId, blockNumber: { $gte: blockNumber } });
+}
+
+/**
+ * Raw log archive backed by the rawlogs collection
+ * (pass to setRawLogArchive in the event service)
+ */
+export const mongoRawLogArchive: RawLogArchive = {
+  saveLogs: (logs: RawLog[]) => storeRawLogs(logs),
+  getLogs: (fromBlock: number, toBlock: number) => getRawLogs(fromBlock, toBlock),
+  getLastBlock: () => getLastRawLogBlock(),
+  removeFromBlock: (blockNumber: number) => deleteRawLogsFromBlock(blockNumber)
+};
+
+/**
+ * Quarantine logs that failed to decode (upserted by txHash_logIndex).
+ * Logs that are already quarantined get the new error and ABI version, and their
+ * attempt count is increased.
+ */
+export async function quarantineLogs(logs: QuarantinedLog[]): Promise<void> {
+  if (!logs.length) return;
+  
+  // Validate models are initialized
+  if (!QuarantinedLogModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await QuarantinedLogModel.bulkWrite(logs.map(({ attempts, createdAt, updatedAt, ...log }) => ({
+    updateOne: {
+      filter: { _id: `${log.transactionHash}_${log.logIndex}` },
+      update: { $set: log, $inc: { attempts: 1 } },
+      upsert: true
+    }
+  })), { ordered: false });
+}
+
+/**
+ * Get quarantined logs of a chain in id order, starting after an id (for paging)
+ */
+export async function getQuarantinedLogs(
+  limit = 1000,
+  afterId?: string,
+  chainId = getActiveDeployment().chainId
+): Promise<(QuarantinedLog & { _id: string })[]> {
+  // Validate models are initialized
+  if (!QuarantinedLogModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return QuarantinedLogModel.find(afterId ? { chainId, _id: { $gt: afterId } } : { chainId })
+    .sort({ _id: 1 })
+    .limit(limit)
+    .lean();
+}
+
+/**
+ * Count the quarantined logs of a chain
+ */
+export async function countQuarantinedLogs(chainId = getActiveDeployment().chainId): Promise<number> {
+  // Validate models are initialized
+  if (!QuarantinedLogModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return QuarantinedLogModel.countDocuments({ chainId });
+}
+
+/**
+ * Remove logs from the quarantine (after they were decoded)
+ */
+export async function releaseQuarantinedLogs(ids: string[]): Promise<void> {
+  if (!ids.length) return;
+  
+  // Validate models are initialized
+  if (!QuarantinedLogModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await QuarantinedLogModel.deleteMany({ _id: { $in: ids } });
+}
+
+/**
+ * Quarantine store backed by the quarantinedlogs collection
+ * (pass to setQuarantineStore in the event service)
+ */
+export const mongoQuarantineStore: QuarantineStore = {
+  quarantineLogs: (logs: QuarantinedLog[]) => quarantineLogs(logs)
+};
+
+/**
+ * Replace the stored events of a set of blocks with newly decoded events.
+ * The ownership records, note revisions and fact anomalies of the blocks are removed
+ * with their events and are recorded again when the entries are re-derived. Returns the events that were removed.
+ */
+export async function replaceEventsInBlocks(
+  blockNumbers: number[],
+  events: HypermapEvent[],
+  chainId = getActiveDeployment().chainId
+): Promise<HypermapEvent[]> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !OwnershipRecordModel || !NoteRevisionModel || !FactAnomalyModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const filter = { chainId, blockNumber: { $in: blockNumbers } };
+  const removed: HypermapEvent[] = await HypermapEventModel.find(filter).lean();
+  
+  await HypermapEventModel.deleteMany(filter);
+  await OwnershipRecordModel.deleteMany(filter);
+  await NoteRevisionModel.deleteMany(filter);
+  await FactAnomalyModel.deleteMany(filter);
+  await storeEvents(events);
+  return removed;
+}
+
+/**
+ * Delete all entries, ownership records, note revisions and fact anomalies of a chain
+ * and apply every stored event again in chain order, in batches of
+ * MATERIALIZE_BATCH_BLOCKS blocks. Returns the number of events applied.
+ */
+export async function rebuildEntries(
+  onBatch?: (fromBlock: number, toBlock: number, eventCount: number) => void,
+  chainId = getActiveDeployment().chainId
+): Promise<number> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !HypermapEntryModel || !OwnershipRecordModel || !NoteRevisionModel || !FactAnomalyModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const [first, last]: (HypermapEvent | null)[] = await Promise.all([
+    HypermapEventModel.findOne({ chainId }).sort({ blockNumber: 1 }).select('blockNumber').lean(),
+    HypermapEventModel.findOne({ chainId }).sort({ blockNumber: -1 }).select('blockNumber').lean()
+  ]);
+  
+  await HypermapEntryModel.deleteMany({ chainId });
+  await OwnershipRecordModel.deleteMany({ chainId });
+  await NoteRevisionModel.deleteMany({ chainId });
+  await FactAnomalyModel.deleteMany({ chainId });
+  if (!first || !last) return 0;
+  
+  let totalEvents = 0;
+  for (let fromBlock = first.blockNumber; fromBlock <= last.blockNumber; fromBlock += MATERIALIZE_BATCH_BLOCKS) {
+    const toBlock = Math.min(fromBlock + MATERIALIZE_BATCH_BLOCKS - 1, last.blockNumber);
+    const events = await getEventsInBlockRange(fromBlock, toBlock, chainId);
+    await processEventsToEntries(events);
+    totalEvents += events.length;
+    onBatch?.(fromBlock, toBlock, events.length);
+  }
+  
+  return totalEvents;
+}
+
+/**
+ * Resolve placeholder entries whose Mint event is stored (it was processed before the
+ * placeholder was created, e.g. by out-of-order backfill workers). Returns the number
+ * of resolved placeholders.
+ */
+export async function resolvePlaceholderEntries(chainId = getActiveDeployment().chainId): Promise<number> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !HypermapEntryModel) {
+    throw new Error('MongoDB models not initialized');
+  }
   
-  try {
-    // Validate models are initialized
-    if (!HypermapEventModel) {
-      throw new Error('MongoDB models not initialized');
+  const placeholders: HypermapEntry[] = await HypermapEntryModel.find({ chainId, label: PLACEHOLDER_LABEL })
+    .select('namehash')
+    .lean();
+  let resolved = 0;
+  
+  for (const placeholder of placeholders) {
+    const mint: MintEvent | null = await HypermapEventModel.findOne({ chainId, eventType: 'Mint', childhash: placeholder.namehash })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .lean();
+    if (!mint) continue;
+    
+    await HypermapEntryModel.updateOne(
+      { chainId, namehash: placeholder.namehash },
+      { $set: { label: mint.label, parentHash: mint.parenthash, creationBlock: mint.blockNumber } }
+    );
+    await HypermapEntryModel.updateOne(
+      { chainId, namehash: mint.parenthash },
+      { $addToSet: { children: placeholder.namehash } }
+    );
+    resolved++;
+  }
+  
+  return resolved;
+}
+
+/**
+ * Compute the full names of all entries of a chain, from the top-level entries down,
+ * after clearing the existing ones, and create the unique full name index.
+ * Entries below a placeholder or a label that cannot be named stay unnamed, as do
+ * entries whose name another entry already holds (conflicts).
+ */
+export async function backfillFullNames(
+  onLevel?: (depth: number, named: number) => void,
+  chainId = getActiveDeployment().chainId
+): Promise<{ named: number; unnamed: number; conflicts: number }> {
+  // Validate models are initialized
+  if (!HypermapEntryModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await HypermapEntryModel.updateMany({ chainId, fullName: { $exists: true } }, { $unset: { fullName: 1 } });
+  await HypermapEntryModel.syncIndexes();
+  
+  let level: { namehash: Bytes32; fullName: string | null }[] = [{ namehash: ROOT_HASH, fullName: null }];
+  let named = 0;
+  let conflicts = 0;
+  
+  for (let depth = 1; level.length > 0; depth++) {
+    const next: { namehash: Bytes32; fullName: string }[] = [];
+    
+    for (let i = 0; i < level.length; i += FULL_NAME_BATCH_SIZE) {
+      const parentNames = new Map(level.slice(i, i + FULL_NAME_BATCH_SIZE).map(parent => [parent.namehash, parent.fullName]));
+      const children: HypermapEntry[] = await HypermapEntryModel.find({ chainId, parentHash: { $in: [...parentNames.keys()] } })
+        .select('namehash label parentHash')
+        .lean();
+      
+      const namedChildren = children
+        .map(child => ({ namehash: child.namehash, fullName: getFullName(child.label, child.parentHash, parentNames.get(child.parentHash)) }))
+        .filter((child): child is { namehash: Bytes32; fullName: string } => child.fullName !== null);
+      if (!namedChildren.length) continue;
+      
+      // Names held by another entry fail on the unique index; the other updates still apply
+      const failed = new Set<number>();
+      try {
+        await HypermapEntryModel.bulkWrite(namedChildren.map(child => ({
+          updateOne: {
+            filter: { chainId, namehash: child.namehash },
+            update: { $set: { fullName: child.fullName } }
+          }
+        })), { ordered: false });
+      } catch (error: any) {
+        if (!error.writeErrors) throw error;
+        for (const writeError of error.writeErrors) {
+          if (writeError.code !== 11000) throw error;
+          failed.add(writeError.index);
+        }
+      }
+      
+      conflicts += failed.size;
+      next.push(...namedChildren.filter((_, index) => !failed.has(index)));
     }
     
-    // Insert events
-    const result = await HypermapEventModel.insertMany(events, { 
-      ordered: false, // Continue processing if some docs fail
-      rawResult: true  // Get detailed result info
-    });
+    named += next.length;
+    onLevel?.(depth, next.length);
+    level = next;
+  }
+  
+  const unnamed = await HypermapEntryModel.countDocuments({ chainId, fullName: { $exists: false } });
+  return { named, unnamed, conflicts };
+}
+
+/**
+ * Recompute the owner of every entry of a chain from its latest stored Transfer
+ * (entries without Transfers, or whose token was burned, have no owner).
+ * With dryRun the differences are counted but not written.
+ */
+export async function reconcileOwners(
+  dryRun = false,
+  chainId = getActiveDeployment().chainId
+): Promise<OwnerReconciliation> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !HypermapEntryModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  // Owner after the latest Transfer of each token
+  const latestTransfers: { _id: string; to: Address }[] = await HypermapEventModel.aggregate([
+    { $match: { chainId, eventType: 'Transfer', id: { $type: 'string' } } },
+    { $sort: { blockNumber: -1, logIndex: -1 } },
+    { $group: { _id: '$id', to: { $first: '$to' } } }
+  ]).allowDiskUse(true);
+  
+  const owners = new Map<Bytes32, Address | null>();
+  for (const { _id, to } of latestTransfers) {
+    owners.set(tokenIdToNamehash(_id), to.toLowerCase() === ZERO_ADDRESS ? null : to.toLowerCase());
+  }
+  
+  const result: OwnerReconciliation = { entries: 0, updated: 0, cleared: 0, unchanged: 0, missingEntries: 0 };
+  const seen = new Set<Bytes32>();
+  let operations: any[] = [];
+  
+  const flush = async () => {
+    if (!dryRun && operations.length > 0) {
+      await HypermapEntryModel.bulkWrite(operations, { ordered: false });
+    }
+    operations = [];
+  };
+  
+  for await (const entry of HypermapEntryModel.find({ chainId }).select('namehash owner').lean().cursor()) {
+    result.entries++;
+    seen.add(entry.namehash);
+    const owner = owners.get(entry.namehash) ?? null;
     
-    console.log(`Stored ${result.insertedCount} events in MongoDB`);
-  } catch (error: any) {
-    // Handle duplicate key errors
-    if (error.code === 11000) {
-      console.log(`Some events already exist in database, skipped duplicates`);
+    if ((entry.owner ?? null) === owner) {
+      result.unchanged++;
+      continue;
+    }
+    
+    if (owner) {
+      result.updated++;
+      operations.push({ updateOne: { filter: { _id: entry._id }, update: { $set: { owner } } } });
     } else {
-      console.error(`Error storing events:`, error);
+      result.cleared++;
+      operations.push({ updateOne: { filter: { _id: entry._id }, update: { $unset: { owner: 1 } } } });
     }
+    if (operations.length >= ENTRY_WRITE_BATCH_SIZE) await flush();
   }
+  await flush();
+  
+  result.missingEntries = [...owners.keys()].filter(namehash => !seen.has(namehash)).length;
+  return result;
 }
 
+// Fields of ownership records returned by queries (plain values, without the document id)
+const OWNERSHIP_RECORD_FIELDS = '-_id -__v -createdAt -updatedAt';
+
 /**
- * Get events for an entry
+ * Rebuild the ownership history of a chain from its stored Transfer events
+ * (for databases indexed before ownership was recorded). Returns the number of records.
  */
-export async function getEventsForEntry(namehash: string): Promise<HypermapEvent[]> {
+export async function rebuildOwnershipHistory(chainId = getActiveDeployment().chainId): Promise<number> {
   // Validate models are initialized
-  if (!HypermapEventModel) {
+  if (!HypermapEventModel || !OwnershipRecordModel) {
     throw new Error('MongoDB models not initialized');
   }
   
-  // Query all event types that might reference this entry
-  const events = await HypermapEventModel.find({
-    $or: [
-      { eventType: 'Mint', parenthash: namehash },
-      { eventType: 'Mint', childhash: namehash },
-      { eventType: 'Fact', parenthash: namehash },
-      { eventType: 'Note', parenthash: namehash },
-      { eventType: 'Gene', entry: namehash },
-      { eventType: 'Transfer', id: namehash }
-    ]
-  }).sort({ blockNumber: 1, logIndex: 1 }).lean();
+  await OwnershipRecordModel.deleteMany({ chainId });
   
-  return events;
+  // Upserted like the indexer does, so records it writes meanwhile are not duplicated
+  let operations: any[] = [];
+  let total = 0;
+  
+  const flush = async () => {
+    if (operations.length > 0) {
+      await OwnershipRecordModel.bulkWrite(operations, { ordered: false });
+      total += operations.length;
+    }
+    operations = [];
+  };
+  
+  for await (const event of HypermapEventModel.find({ chainId, eventType: 'Transfer', id: { $type: 'string' } }).lean().cursor()) {
+    const record = toOwnershipRecord(event);
+    operations.push({ updateOne: { filter: eventRecordKey(record), update: { $set: record }, upsert: true } });
+    if (operations.length >= ENTRY_WRITE_BATCH_SIZE) await flush();
+  }
+  await flush();
+  
+  return total;
 }
 
 /**
- * Get an entry by namehash
+ * Get the ownership history of an entry (its Transfers in chain order)
  */
-export async function getEntry(namehash: string): Promise<HypermapEntry | null> {
+export async function getOwnershipHistory(
+  namehash: Bytes32,
+  chainId = getActiveDeployment().chainId
+): Promise<OwnershipRecord[]> {
   // Validate models are initialized
-  if (!HypermapEntryModel) {
+  if (!OwnershipRecordModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return OwnershipRecordModel.find({ chainId, namehash: namehash.toLowerCase() })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .select(OWNERSHIP_RECORD_FIELDS)
+    .lean();
+}
+
+/**
+ * Get the owner of an entry at the end of a block, or at a moment (Unix seconds).
+ * Moments need the timestamps of the entry's Transfers (see backfill-timestamps).
+ */
+export async function getOwnerAt(
+  namehash: Bytes32,
+  point: OwnershipPoint,
+  chainId = getActiveDeployment().chainId
+): Promise<OwnerAt> {
+  // Validate models are initialized
+  if (!OwnershipRecordModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  namehash = namehash.toLowerCase();
+  
+  if ('timestamp' in point) {
+    const untimed = await OwnershipRecordModel.countDocuments({ chainId, namehash, timestamp: null });
+    if (untimed > 0) {
+      throw new Error(`${untimed} Transfers of ${namehash} have no timestamp yet, run backfill-timestamps or query by block`);
+    }
+  }
+  
+  const filter = 'timestamp' in point
+    ? { chainId, namehash, timestamp: { $lte: point.timestamp } }
+    : { chainId, namehash, blockNumber: { $lte: point.blockNumber } };
+  const since: OwnershipRecord | null = await OwnershipRecordModel.findOne(filter)
+    .sort({ blockNumber: -1, logIndex: -1 })
+    .select(OWNERSHIP_RECORD_FIELDS)
+    .lean();
+  
+  return {
+    namehash,
+    owner: since && since.to !== ZERO_ADDRESS ? since.to : null,
+    since
+  };
+}
+
+/**
+ * Get the periods in which an address owned entries, in the order they were acquired
+ */
+export async function getOwnershipPeriods(
+  address: Address,
+  chainId = getActiveDeployment().chainId
+): Promise<OwnershipPeriod[]> {
+  // Validate models are initialized
+  if (!OwnershipRecordModel || !HypermapEntryModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  address = address.toLowerCase();
+  const records: OwnershipRecord[] = await OwnershipRecordModel.find({ chainId, $or: [{ from: address }, { to: address }] })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .select(OWNERSHIP_RECORD_FIELDS)
+    .lean();
+  
+  // Walk the Transfers in chain order, opening a period on each Transfer to the address and closing it on the next one away
+  const periods: OwnershipPeriod[] = [];
+  const open = new Map<Bytes32, OwnershipPeriod>();
+  for (const record of records) {
+    if (record.from === address) {
+      const period = open.get(record.namehash) ?? { namehash: record.namehash, acquired: null, released: null };
+      if (!open.has(record.namehash)) periods.push(period);
+      period.released = record;
+      open.delete(record.namehash);
+    }
+    if (record.to === address) {
+      const period: OwnershipPeriod = { namehash: record.namehash, acquired: record, released: null };
+      periods.push(period);
+      open.set(record.namehash, period);
+    }
+  }
+  
+  const namehashes = [...new Set(periods.map(period => period.namehash))];
+  const entries: Pick<HypermapEntry, 'namehash' | 'fullName'>[] = await HypermapEntryModel.find({ chainId, namehash: { $in: namehashes } })
+    .select('namehash fullName')
+    .lean();
+  const fullNames = new Map(entries.map(entry => [entry.namehash, entry.fullName]));
+  
+  return periods.map(period => {
+    const fullName = fullNames.get(period.namehash);
+    return fullName ? { ...period, fullName } : period;
+  });
+}
+
+// Fields of note revisions returned by queries (plain values, without the document id)
+const NOTE_REVISION_FIELDS = '-_id -__v -createdAt -updatedAt';
+
+/**
+ * Rebuild the note history of a chain from its stored Note events (for databases
+ * indexed before notes were versioned), then set every entry's notes to their latest
+ * revision in chain order. Returns the number of revisions and of entry notes that changed.
+ */
+export async function rebuildNoteHistory(
+  chainId = getActiveDeployment().chainId
+): Promise<{ revisions: number; updatedNotes: number }> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !HypermapEntryModel || !NoteRevisionModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await NoteRevisionModel.deleteMany({ chainId });
+  
+  // Upserted like the indexer does, so revisions it writes meanwhile are not duplicated
+  let operations: any[] = [];
+  let revisions = 0;
+  
+  for await (const event of HypermapEventModel.find({ chainId, eventType: 'Note' }).lean().cursor()) {
+    const revision = toNoteRevision(event);
+    operations.push({ updateOne: { filter: eventRecordKey(revision), update: { $set: revision }, upsert: true } });
+    if (operations.length >= ENTRY_WRITE_BATCH_SIZE) {
+      await NoteRevisionModel.bulkWrite(operations, { ordered: false });
+      revisions += operations.length;
+      operations = [];
+    }
+  }
+  if (operations.length > 0) {
+    await NoteRevisionModel.bulkWrite(operations, { ordered: false });
+    revisions += operations.length;
+    operations = [];
+  }
+  
+  // Set every note of the entries to its latest revision
+  let updatedNotes = 0;
+  const latestRevisions = NoteRevisionModel.aggregate([
+    { $match: { chainId } },
+    { $sort: { blockNumber: -1, logIndex: -1 } },
+    { $group: { _id: { namehash: '$namehash', label: '$label' }, data: { $first: '$data' } } }
+  ]).allowDiskUse(true).cursor();
+  
+  for await (const { _id, data } of latestRevisions) {
+    operations.push({
+      updateOne: { filter: { chainId, namehash: _id.namehash }, update: { $set: { [`notes.${encodeLabelKey(_id.label)}`]: data } } }
+    });
+    if (operations.length >= ENTRY_WRITE_BATCH_SIZE) {
+      updatedNotes += (await HypermapEntryModel.bulkWrite(operations, { ordered: false })).modifiedCount;
+      operations = [];
+    }
+  }
+  if (operations.length > 0) {
+    updatedNotes += (await HypermapEntryModel.bulkWrite(operations, { ordered: false })).modifiedCount;
+  }
+  
+  return { revisions, updatedNotes };
+}
+
+/**
+ * Get the revisions of an entry's notes (of one label, or all of them) in chain order
+ */
+export async function getNoteRevisions(
+  namehash: Bytes32,
+  label?: string,
+  chainId = getActiveDeployment().chainId
+): Promise<NoteRevision[]> {
+  // Validate models are initialized
+  if (!NoteRevisionModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return NoteRevisionModel.find({ chainId, namehash: namehash.toLowerCase(), ...(label !== undefined ? { label } : {}) })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .select(NOTE_REVISION_FIELDS)
+    .lean();
+}
+
+/**
+ * Find the fact anomalies of a chain again from its stored Fact events (for databases
+ * indexed before facts were write-once), and set the facts that were overwritten back
+ * to their first value. Returns the number of facts set more than once, of anomalies
+ * and of entry facts that were restored.
+ */
+export async function rebuildFactAnomalies(
+  chainId = getActiveDeployment().chainId
+): Promise<{ facts: number; anomalies: number; restoredFacts: number }> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !HypermapEntryModel || !FactAnomalyModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  await FactAnomalyModel.deleteMany({ chainId });
+  
+  // Facts with more than one Fact event
+  const repeatedFacts = HypermapEventModel.aggregate([
+    { $match: { chainId, eventType: 'Fact' } },
+    { $group: { _id: { parenthash: '$parenthash', label: '$label' }, count: { $sum: 1 } } },
+    { $match: { count: { $gt: 1 } } }
+  ]).allowDiskUse(true).cursor();
+  
+  const result = { facts: 0, anomalies: 0, restoredFacts: 0 };
+  for await (const { _id } of repeatedFacts) {
+    const facts: FactEvent[] = await HypermapEventModel.find({ chainId, eventType: 'Fact', parenthash: _id.parenthash, label: _id.label })
+      .sort({ blockNumber: 1, logIndex: 1 })
+      .lean();
+    const { first, anomalies } = await recordFactAnomalies(facts);
+    if (anomalies === 0) continue; // The same Fact event stored more than once
+    
+    const updated = await HypermapEntryModel.updateOne(
+      { chainId, namehash: first.parenthash },
+      { $set: { [`facts.${encodeLabelKey(first.label)}`]: first.data } }
+    );
+    result.facts++;
+    result.anomalies += anomalies;
+    result.restoredFacts += updated.modifiedCount;
+  }
+  
+  return result;
+}
+
+/**
+ * Get the most recent fact anomalies (Fact events that tried to set a fact again), newest first
+ */
+export async function getFactAnomalies(limit = 50, chainId = getActiveDeployment().chainId): Promise<FactAnomaly[]> {
+  // Validate models are initialized
+  if (!FactAnomalyModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  return FactAnomalyModel.find({ chainId })
+    .sort({ blockNumber: -1, logIndex: -1 })
+    .limit(limit)
+    .select('-_id -__v -updatedAt')
+    .lean();
+}
+
+/**
+ * Count the fact anomalies of a chain by kind
+ */
+export async function countFactAnomalies(chainId = getActiveDeployment().chainId): Promise<Record<FactAnomalyKind, number>> {
+  // Validate models are initialized
+  if (!FactAnomalyModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const [conflicting, repeated] = await Promise.all([
+    FactAnomalyModel.countDocuments({ chainId, kind: 'conflicting-value' }),
+    FactAnomalyModel.countDocuments({ chainId, kind: 'repeated-value' })
+  ]);
+  
+  return { 'conflicting-value': conflicting, 'repeated-value': repeated };
+}
+
+/**
+ * Rewrite the facts and notes of every entry of a chain from its stored Fact and Note
+ * events, with the labels encoded as map keys (for databases indexed before labels were
+ * encoded, where labels with a '.' were stored as nested objects and labels starting
+ * with '$' or empty were not stored). Each fact keeps its first value and each note its
+ * latest one. Returns the number of entries whose facts and whose notes changed (an entry
+ * can count in both).
+ */
+export async function rewriteEntryLabelKeys(
+  chainId = getActiveDeployment().chainId
+): Promise<{ facts: number; notes: number }> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !HypermapEntryModel) {
+    throw new Error('MongoDB models not initialized');
+  }
+  
+  const updated = { facts: 0, notes: 0 };
+  for (const [field, eventType, order] of [['facts', 'Fact', 1], ['notes', 'Note', -1]] as const) {
+    // Entries that have facts (or notes), with the first value of each fact (or the latest value of each note)
+    const entryValues = HypermapEventModel.aggregate([
+      { $match: { chainId, eventType } },
+      { $sort: { blockNumber: order, logIndex: order } },
+      { $group: { _id: { parenthash: '$parenthash', label: '$label' }, data: { $first: '$data' } } },
+      { $group: { _id: '$_id.parenthash', values: { $push: { label: '$_id.label', data: '$data' } } } }
+    ]).allowDiskUse(true).cursor();
+    
+    let operations: any[] = [];
+    for await (const { _id, values } of entryValues) {
+      const map = Object.fromEntries(values.map(({ label, data }: { label: string; data: Bytes }) => [encodeLabelKey(label), data]));
+      operations.push({ updateOne: { filter: { chainId, namehash: _id }, update: { $set: { [field]: map } } } });
+      if (operations.length >= ENTRY_WRITE_BATCH_SIZE) {
+        updated[field] += (await HypermapEntryModel.bulkWrite(operations, { ordered: false })).modifiedCount;
+        operations = [];
+      }
+    }
+    if (operations.length > 0) {
+      updated[field] += (await HypermapEntryModel.bulkWrite(operations, { ordered: false })).modifiedCount;
+    }
+  }
+  
+  return updated;
+}
+
+/**
+ * Tag events and entries stored before deployments were chain scoped with a chain id
+ * (Base mainnet, the only deployment indexed before), then replace the old unique
+ * namehash index of the entries with the chain scoped one.
+ * Returns the number of tagged events and entries.
+ */
+export async function migrateChainIds(
+  chainId = DEFAULT_CHAIN_ID
+): Promise<{ events: number; entries: number }> {
+  // Validate models are initialized
+  if (!HypermapEventModel || !HypermapEntryModel) {
     throw new Error('MongoDB models not initialized');
   }
   
-  const entry = await HypermapEntryModel.findOne({ namehash }).lean();
-  return entry;
+  const untagged = { chainId: { $exists: false } };
+  const events = await HypermapEventModel.updateMany(untagged, { $set: { chainId } });
+  const entries = await HypermapEntryModel.updateMany(untagged, { $set: { chainId } });
+  
+  await HypermapEntryModel.syncIndexes();
+  return { events: events.modifiedCount, entries: entries.modifiedCount };
+}
+
+/**
+ * Get the namehashes of the entries an event applies to
+ */
+export function getEntryHashes(event: HypermapEvent): Bytes32[] {
+  switch (event.eventType) {
+    case 'Mint':
+      return [event.parenthash, event.childhash];
+    case 'Fact':
+    case 'Note':
+      return [event.parenthash];
+    case 'Gene':
+      return [event.entry];
+    case 'Transfer':
+      return event.id ? [tokenIdToNamehash(event.id)] : [];
+    default:
+      return [];
+  }
 }
 
 /**
@@ -145,14 +2069,15 @@ export async function processEventsToEntries(events: HypermapEvent[]): Promise<v
 
 // Process a Mint event
 async function processMintEvent(event: MintEvent): Promise<void> {
-  // Check if parent entry exists, if not, create root entry
-  let parentEntry = await HypermapEntryModel.findOne({ namehash: event.parenthash });
+  // Check if parent entry exists, if not, create a placeholder for it
+  let parentEntry = await HypermapEntryModel.findOne({ chainId: event.chainId, namehash: event.parenthash });
   
   if (!parentEntry && event.parenthash !== ROOT_HASH) {
     // Create parent entry if it doesn't exist and isn't the root hash
     parentEntry = await HypermapEntryModel.create({
+      chainId: event.chainId,
       namehash: event.parenthash,
-      label: '[unknown]', // Placeholder until we find the actual label
+      label: PLACEHOLDER_LABEL, // Placeholder until we find the actual label
       parentHash: ROOT_HASH, // Assuming unknown parents are attached to root
       children: [],
       notes: {},
@@ -164,9 +2089,10 @@ async function processMintEvent(event: MintEvent): Promise<void> {
   
   // Create child entry or update if it already exists
   const childEntry = await HypermapEntryModel.findOneAndUpdate(
-    { namehash: event.childhash },
+    { chainId: event.chainId, namehash: event.childhash },
     {
       $setOnInsert: {
+        chainId: event.chainId,
         namehash: event.childhash,
         label: event.label,
         parentHash: event.parenthash,
@@ -182,10 +2108,32 @@ async function processMintEvent(event: MintEvent): Promise<void> {
     { upsert: true, new: true }
   );
   
+  // Resolve the placeholder created when one of this entry's children was minted first
+  if (childEntry.label === PLACEHOLDER_LABEL) {
+    await HypermapEntryModel.updateOne(
+      { chainId: event.chainId, namehash: event.childhash },
+      { $set: { label: event.label, parentHash: event.parenthash, creationBlock: event.blockNumber } }
+    );
+  }
+  
+  // Take the owner from the entry's Transfers (the token can be transferred before the Mint is logged)
+  if (!childEntry.owner) {
+    const owner = await findOwnerFromTransfers(event.chainId, event.childhash);
+    if (owner) {
+      await HypermapEntryModel.updateOne({ chainId: event.chainId, namehash: event.childhash }, { $set: { owner } });
+    }
+  }
+  
+  // Name the entry, and rename its descendants if it was a placeholder
+  const fullName = getFullName(event.label, event.parenthash, parentEntry?.fullName);
+  if ((childEntry.fullName ?? null) !== fullName) {
+    await nameEntryTree(event.chainId, event.childhash, fullName);
+  }
+  
   // Update parent's children array if parent exists
   if (parentEntry) {
     await HypermapEntryModel.updateOne(
-      { namehash: event.parenthash },
+      { chainId: event.chainId, namehash: event.parenthash },
       { 
         $addToSet: { children: event.childhash },
         $set: { lastUpdateBlock: event.blockNumber }
@@ -194,55 +2142,189 @@ async function processMintEvent(event: MintEvent): Promise<void> {
   }
 }
 
+// Set or clear the full name of an entry. A name another entry already holds is left
+// unset (returns false): the unique index allows each full name once per chain.
+async function setEntryFullName(chainId: number, namehash: Bytes32, fullName: string | null): Promise<boolean> {
+  try {
+    await HypermapEntryModel.updateOne(
+      { chainId, namehash },
+      fullName ? { $set: { fullName } } : { $unset: { fullName: 1 } }
+    );
+    return true;
+  } catch (error: any) {
+    if (error.code !== 11000) throw error;
+    console.warn(`Full name '${fullName}' of entry ${namehash} is already held by another entry, leaving it unnamed`);
+    await HypermapEntryModel.updateOne({ chainId, namehash }, { $unset: { fullName: 1 } });
+    return false;
+  }
+}
+
+// Set the full name of an entry and rename its descendants to match, level by level
+async function nameEntryTree(chainId: number, namehash: Bytes32, fullName: string | null): Promise<void> {
+  let level = [{ namehash, fullName }];
+  
+  while (level.length > 0) {
+    const next: { namehash: Bytes32; fullName: string | null }[] = [];
+    
+    for (const entry of level) {
+      const named = await setEntryFullName(chainId, entry.namehash, entry.fullName);
+      const parentName = named ? entry.fullName : null;
+      
+      const children: HypermapEntry[] = await HypermapEntryModel.find({ chainId, parentHash: entry.namehash })
+        .select('namehash label fullName')
+        .lean();
+      for (const child of children) {
+        const childName = getFullName(child.label, entry.namehash, parentName);
+        if ((child.fullName ?? null) !== childName) {
+          next.push({ namehash: child.namehash, fullName: childName });
+        }
+      }
+    }
+    
+    level = next;
+  }
+}
+
 // Process a Fact event
 async function processFactEvent(event: FactEvent): Promise<void> {
+  // Facts are write-once: the first Fact of a label in chain order sets the value and later ones
+  // are anomalies (events can be processed out of order, so the first one is taken from the stored events)
+  const stored: FactEvent[] = await HypermapEventModel.find({ chainId: event.chainId, eventType: 'Fact', parenthash: event.parenthash, label: event.label })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .lean();
+  const isEvent = (fact: FactEvent) => fact.transactionHash === event.transactionHash && fact.logIndex === event.logIndex;
+  const facts = stored.some(isEvent)
+    ? stored
+    : [...stored, event].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  const { first } = await recordFactAnomalies(facts);
+  const isFirst = isEvent(first);
+  
+  if (!isFirst) {
+    console.warn(`Fact ${event.label} of ${event.parenthash} was already set in block ${first.blockNumber}, keeping its first value`);
+  }
+  
   // Find the entry this fact is attached to
-  const entry = await HypermapEntryModel.findOne({ namehash: event.parenthash });
+  const entry = await HypermapEntryModel.findOne({ chainId: event.chainId, namehash: event.parenthash });
   
   if (!entry) {
     console.warn(`Fact event references unknown entry: ${event.parenthash}`);
     return;
   }
   
-  // Update the entry with the new fact
+  // Update the entry with the first value of the fact (only the first Fact updates the entry)
   await HypermapEntryModel.updateOne(
-    { namehash: event.parenthash },
+    { chainId: event.chainId, namehash: event.parenthash },
     { 
       $set: { 
-        [`facts.${event.label}`]: event.data,
-        lastUpdateBlock: event.blockNumber 
+        [`facts.${encodeLabelKey(event.label)}`]: first.data,
+        ...(isFirst ? { lastUpdateBlock: event.blockNumber } : {})
       }
     }
   );
 }
 
+// Record the Fact events of a fact (in chain order) after the first one as anomalies; returns the first
+// one and the number of anomalies. A Fact event stored more than once counts once.
+async function recordFactAnomalies(facts: FactEvent[]): Promise<{ first: FactEvent; anomalies: number }> {
+  const seen = new Set<string>();
+  const [first, ...later] = facts.filter(fact => {
+    const id = generateEventId(fact);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+  
+  // The first Fact was an anomaly while an earlier Fact was stored (removed since by a reorg or replay)
+  await FactAnomalyModel.deleteOne(eventRecordKey(first));
+  
+  if (later.length > 0) {
+    await FactAnomalyModel.bulkWrite(later.map(fact => {
+      const anomaly = toFactAnomaly(fact, first);
+      return { updateOne: { filter: eventRecordKey(anomaly), update: { $set: anomaly }, upsert: true } };
+    }), { ordered: false });
+  }
+  
+  return { first, anomalies: later.length };
+}
+
+// Get the anomaly of a Fact event that came after the first Fact of its label
+function toFactAnomaly(fact: FactEvent, first: FactEvent): FactAnomaly {
+  return {
+    chainId: fact.chainId,
+    kind: fact.data === first.data ? 'repeated-value' : 'conflicting-value',
+    namehash: fact.parenthash,
+    label: fact.label,
+    facthash: fact.facthash,
+    data: fact.data,
+    blockNumber: fact.blockNumber,
+    logIndex: fact.logIndex,
+    transactionHash: fact.transactionHash,
+    ...(fact.timestamp != null ? { timestamp: fact.timestamp } : {}),
+    kept: {
+      data: first.data,
+      blockNumber: first.blockNumber,
+      logIndex: first.logIndex,
+      transactionHash: first.transactionHash
+    }
+  };
+}
+
 // Process a Note event
 async function processNoteEvent(event: NoteEvent): Promise<void> {
+  // Keep the value as a revision of the note (also for entries that are not stored yet)
+  const revision = toNoteRevision(event);
+  await NoteRevisionModel.updateOne(eventRecordKey(revision), { $set: revision }, { upsert: true });
+  
   // Find the entry this note is attached to
-  const entry = await HypermapEntryModel.findOne({ namehash: event.parenthash });
+  const entry = await HypermapEntryModel.findOne({ chainId: event.chainId, namehash: event.parenthash });
   
   if (!entry) {
     console.warn(`Note event references unknown entry: ${event.parenthash}`);
     return;
   }
   
+  // The entry holds the latest revision in chain order (events can be processed out of order)
+  const latest: NoteRevision | null = await NoteRevisionModel.findOne({ chainId: event.chainId, namehash: revision.namehash, label: event.label })
+    .sort({ blockNumber: -1, logIndex: -1 })
+    .lean();
+  
   // Update the entry with the new note
   await HypermapEntryModel.updateOne(
-    { namehash: event.parenthash },
+    { chainId: event.chainId, namehash: event.parenthash },
     { 
       $set: { 
-        [`notes.${event.label}`]: event.data,
+        [`notes.${encodeLabelKey(event.label)}`]: (latest ?? revision).data,
         lastUpdateBlock: event.blockNumber 
       }
     }
   );
 }
 
+// Decode the fact and note labels of an entry read from the database
+function withDecodedLabelKeys(entry: HypermapEntry): HypermapEntry {
+  return { ...entry, facts: decodeLabelKeys(entry.facts), notes: decodeLabelKeys(entry.notes) };
+}
+
+// Get the note revision of a Note event
+function toNoteRevision(event: NoteEvent): NoteRevision {
+  return {
+    chainId: event.chainId,
+    namehash: event.parenthash.toLowerCase(),
+    label: event.label,
+    notehash: event.notehash,
+    data: event.data,
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+    ...(event.timestamp != null ? { timestamp: event.timestamp } : {})
+  };
+}
+
 // Process a Gene event
 async function processGeneEvent(event: GeneEvent): Promise<void> {
   // Update the entry with the new gene
   await HypermapEntryModel.updateOne(
-    { namehash: event.entry },
+    { chainId: event.chainId, namehash: event.entry },
     { 
       $set: { 
         gene: event.gene,
@@ -254,17 +2336,63 @@ async function processGeneEvent(event: GeneEvent): Promise<void> {
 
 // Process a Transfer event
 async function processTransferEvent(event: TransferEvent): Promise<void> {
-  // Convert BigNumber id to namehash (assuming id is a hex string of the namehash)
-  const entryId = event.id;
+  if (!event.id) {
+    console.warn(`Transfer event ${event.transactionHash}_${event.logIndex} has no token id`);
+    return;
+  }
+  
+  // Token ids are namehashes read as uint256
+  const namehash = tokenIdToNamehash(event.id);
+  
+  // Record the change of owner (also for entries whose Mint is not stored yet)
+  const record = toOwnershipRecord(event);
+  await OwnershipRecordModel.updateOne(eventRecordKey(record), { $set: record }, { upsert: true });
+  
+  // Only the latest Transfer in chain order sets the owner (events can be processed out of order)
+  const latest: OwnershipRecord | null = await OwnershipRecordModel.findOne({ chainId: event.chainId, namehash })
+    .sort({ blockNumber: -1, logIndex: -1 })
+    .lean();
+  if (latest && (latest.blockNumber !== record.blockNumber || latest.logIndex !== record.logIndex)) {
+    return;
+  }
   
-  // Update the entry with the new owner
+  // Update the entry with the new owner (a transfer to the zero address burns it)
   await HypermapEntryModel.updateOne(
-    { namehash: entryId },
-    { 
-      $set: { 
-        owner: event.to,
-        lastUpdateBlock: event.blockNumber 
-      }
-    }
+    { chainId: event.chainId, namehash },
+    isBurn(event)
+      ? { $unset: { owner: 1 }, $set: { lastUpdateBlock: event.blockNumber } }
+      : { $set: { owner: event.to.toLowerCase(), lastUpdateBlock: event.blockNumber } }
   );
-}
\ No newline at end of file
+}
+
+// Get the ownership record of a Transfer event
+function toOwnershipRecord(event: TransferEvent): OwnershipRecord {
+  return {
+    chainId: event.chainId,
+    namehash: tokenIdToNamehash(event.id),
+    from: event.from.toLowerCase(),
+    to: event.to.toLowerCase(),
+    blockNumber: event.blockNumber,
+    logIndex: event.logIndex,
+    transactionHash: event.transactionHash,
+    ...(event.timestamp != null ? { timestamp: event.timestamp } : {})
+  };
+}
+
+// Unique key of an ownership record or note revision (its event)
+function eventRecordKey(record: Pick<HypermapEvent, 'chainId' | 'transactionHash' | 'logIndex'>) {
+  return { chainId: record.chainId, transactionHash: record.transactionHash, logIndex: record.logIndex };
+}
+
+// Whether a Transfer burns the token (mints come from the zero address)
+function isBurn(event: TransferEvent): boolean {
+  return event.to.toLowerCase() === ZERO_ADDRESS;
+}
+
+// Get the owner after the latest stored Transfer of an entry (null if there is none, or it was burned)
+async function findOwnerFromTransfers(chainId: number, namehash: Bytes32): Promise<Address | null> {
+  const transfer: TransferEvent | null = await HypermapEventModel.findOne({ chainId, eventType: 'Transfer', id: namehashToTokenId(namehash) })
+    .sort({ blockNumber: -1, logIndex: -1 })
+    .lean();
+  return transfer && !isBurn(transfer) ? transfer.to.toLowerCase() : null;
+}
@@ -0,0 +1,147 @@
+/**
+ * Names Service
+ *
+ * Recomputes the HyperMap name derivation to check decoded Mint, Fact and Note events
+ * against their label. The contract hashes an entry's label bytes into its labelhash
+ * (keccak256(label), the event's indexed labelhash topic) and the entry's namehash
+ * (childhash, facthash or notehash) from its parent's namehash and the labelhash:
+ * keccak256(parenthash ++ labelhash), starting from ROOT_HASH. Labels are raw bytes on
+ * chain and are decoded as UTF-8 with replacement characters, so invalid UTF-8 does not
+ * lose the event.
+ *
+ * An entry's full name joins the labels from the entry up to the root with dots
+ * (e.g. 'foo.bar.os'). It is only known when every label on the way is: placeholder
+ * parents and labels that are empty, contain a dot or were not valid UTF-8 leave the
+ * entry and its descendants without a full name.
+ *
+ * Entries are ERC-721 tokens whose token id is the namehash read as a uint256; Transfer
+ * events carry the id as a decimal string.
+ *
+ * Fact and note labels are the keys of an entry's facts and notes maps. MongoDB map keys
+ * cannot contain '.' or start with '$' and cannot be empty, so labels are stored
+ * percent-encoded: '%', '.', '$' and NUL become '%25', '%2E', '%24' and '%00', and the
+ * empty label is stored as '%'. Entries are read back with the labels decoded.
+ */
+
+import { ethers } from 'ethers';
+import { Bytes, Bytes32, IntegrityIssue } from '../../types';
+import { ROOT_HASH, PLACEHOLDER_LABEL } from '../../constants';
+
+// Characters of labels that cannot be used in map keys, and their escapes
+const LABEL_KEY_ESCAPES: Record<string, string> = { '%': '%25', '.': '%2E', '$': '%24', '\0': '%00' };
+const LABEL_KEY_CHARACTERS: Record<string, string> = Object.fromEntries(
+  Object.entries(LABEL_KEY_ESCAPES).map(([character, escape]) => [escape, character])
+);
+
+/**
+ * Get the labelhash of a label (keccak256 of its bytes)
+ */
+export function getLabelhash(label: Bytes | Uint8Array): Bytes32 {
+  return ethers.keccak256(label);
+}
+
+/**
+ * Get the namehash of a child entry from its parent's namehash and its labelhash
+ */
+export function getChildNamehash(parenthash: Bytes32, labelhash: Bytes32): Bytes32 {
+  return ethers.solidityPackedKeccak256(['bytes32', 'bytes32'], [parenthash, labelhash]);
+}
+
+/**
+ * Get the namehash of a full name (labels separated by '.', e.g. 'ware.hypr')
+ */
+export function getNamehash(name: string): Bytes32 {
+  return name.split('.').reverse().reduce(
+    (parenthash: Bytes32, label: string) => getChildNamehash(parenthash, getLabelhash(ethers.toUtf8Bytes(label))),
+    ROOT_HASH
+  );
+}
+
+/**
+ * Get the namehash of the entry a token id belongs to
+ */
+export function tokenIdToNamehash(id: string | bigint): Bytes32 {
+  return ethers.toBeHex(BigInt(id), 32);
+}
+
+/**
+ * Get the token id (decimal string) of an entry's namehash
+ */
+export function namehashToTokenId(namehash: Bytes32): string {
+  return BigInt(namehash).toString();
+}
+
+/**
+ * Get the full name of an entry from its label and its parent (null if it cannot be named)
+ */
+export function getFullName(label: string, parentHash: Bytes32, parentFullName: string | null | undefined): string | null {
+  if (!label || label === PLACEHOLDER_LABEL || label.includes('.') || label.includes('\uFFFD')) {
+    return null;
+  }
+  if (parentHash === ROOT_HASH) {
+    return label;
+  }
+  return parentFullName ? `${label}.${parentFullName}` : null;
+}
+
+/**
+ * Encode a fact or note label as a map key
+ */
+export function encodeLabelKey(label: string): string {
+  if (label === '') return '%';
+  return label.replace(/[%.$\0]/g, character => LABEL_KEY_ESCAPES[character]);
+}
+
+/**
+ * Decode a map key back into its fact or note label
+ */
+export function decodeLabelKey(key: string): string {
+  if (key === '%') return '';
+  return key.replace(/%(25|2E|24|00)/g, escape => LABEL_KEY_CHARACTERS[escape]);
+}
+
+/**
+ * Decode the keys of a facts or notes map
+ */
+export function decodeLabelKeys<T>(values: Record<string, T> | undefined): Record<string, T> {
+  return Object.fromEntries(Object.entries(values ?? {}).map(([key, value]) => [decodeLabelKey(key), value]));
+}
+
+/**
+ * Decode label bytes as UTF-8. Invalid sequences become replacement characters (U+FFFD)
+ * and the label is reported as invalid.
+ */
+export function decodeLabel(labelBytes: Bytes): { label: string; validUtf8: boolean } {
+  try {
+    return { label: ethers.toUtf8String(labelBytes), validUtf8: true };
+  } catch {
+    return { label: ethers.toUtf8String(labelBytes, ethers.Utf8ErrorFuncs.replace), validUtf8: false };
+  }
+}
+
+/**
+ * Check the hashes of a Mint, Fact or Note event against its label bytes and parent.
+ * Returns the issues found (none if the event matches the name derivation).
+ */
+export function verifyLabelEvent(
+  parenthash: Bytes32,
+  namehash: Bytes32,
+  labelhash: Bytes32,
+  labelBytes: Bytes,
+  validUtf8 = true
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const expectedLabelhash = getLabelhash(labelBytes);
+
+  if (labelhash.toLowerCase() !== expectedLabelhash) {
+    issues.push('labelhash-mismatch');
+  }
+  if (namehash.toLowerCase() !== getChildNamehash(parenthash, expectedLabelhash)) {
+    issues.push('namehash-mismatch');
+  }
+  if (!validUtf8) {
+    issues.push('invalid-utf8');
+  }
+
+  return issues;
+}
@@ -0,0 +1,65 @@
+/**
+ * Notes Service
+ *
+ * Notes are raw byte values an entry holds under a label such as '~ip' or '~ws-port'.
+ * Every Note event is kept as a revision of its note (see getNoteRevisions in
+ * mongodb.ts), so earlier values can be compared with later ones. Many notes are
+ * binary (IP addresses, ports), so values are compared byte by byte and are only
+ * shown as text when they are readable UTF-8.
+ */
+
+import { ethers } from 'ethers';
+import { Bytes, NoteDiff, NoteRevision, NoteValue } from '../../types';
+
+// Control characters other than tabs and line breaks (binary data that happens to be valid UTF-8)
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/;
+
+/**
+ * Get a note value as bytes and, when it is readable UTF-8, as text
+ */
+export function getNoteValue(data: Bytes | null | undefined): NoteValue {
+  const bytes = ethers.getBytes(data || '0x');
+  let text: string | null = null;
+  try {
+    text = ethers.toUtf8String(bytes);
+  } catch {
+    // Not valid UTF-8
+  }
+
+  return {
+    hex: ethers.hexlify(bytes),
+    length: bytes.length,
+    text: text !== null && !CONTROL_CHARACTERS.test(text) ? text : null
+  };
+}
+
+/**
+ * Compare two revisions of a note. The byte ranges that differ are found by comparing
+ * the values position by position; bytes past the end of the shorter value differ.
+ */
+export function diffNoteRevisions(from: NoteRevision, to: NoteRevision): NoteDiff {
+  const before = ethers.getBytes(from.data || '0x');
+  const after = ethers.getBytes(to.data || '0x');
+
+  const changedRanges: { offset: number; length: number }[] = [];
+  for (let offset = 0; offset < Math.max(before.length, after.length); offset++) {
+    if (offset < before.length && offset < after.length && before[offset] === after[offset]) continue;
+
+    const last = changedRanges[changedRanges.length - 1];
+    if (last && last.offset + last.length === offset) {
+      last.length++;
+    } else {
+      changedRanges.push({ offset, length: 1 });
+    }
+  }
+
+  return {
+    label: to.label,
+    from,
+    to,
+    before: getNoteValue(from.data),
+    after: getNoteValue(to.data),
+    changed: changedRanges.length > 0,
+    changedRanges
+  };
+}
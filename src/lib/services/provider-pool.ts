@@ -0,0 +1,246 @@
+/**
+ * RPC Provider Pool
+ *
+ * A JSON-RPC provider that spreads requests over several RPC endpoints.
+ * Each endpoint has a configured weight and a health score derived from its recent
+ * error rate and latency; requests go to a healthy endpoint picked by score, and a
+ * request that fails on one endpoint (HTTP errors, timeouts, rate limits) fails over
+ * to the next one. Endpoints that fail are cooled down with exponential backoff.
+ *
+ * Endpoints are configured as a comma-separated list of `url` or `url|weight`
+ * (e.g. `BASE_RPC_URLS=https://a.example/key|3,https://mainnet.base.org|1`).
+ */
+
+import { ethers } from 'ethers';
+import { RpcEndpointConfig, RpcEndpointHealth } from '../../types';
+import { RPC_REQUEST_TIMEOUT_MS, RPC_MAX_COOLDOWN_MS } from '../../constants';
+import { classifyRpcError } from './retry';
+import { getActiveDeployment, getDeploymentRpcUrls } from './deployments';
+
+// Weight of the newest sample in the moving averages
+const EWMA_ALPHA = 0.2;
+
+// Internal state per endpoint
+interface EndpointState {
+  url: string;
+  label: string;
+  weight: number;
+  requests: number;
+  failures: number;
+  errorRate: number;             // Moving average of failures (0-1)
+  avgLatencyMs: number;          // Moving average latency of successful requests
+  consecutiveFailures: number;
+  cooldownUntil: number;         // Epoch ms before which the endpoint is skipped
+  lastError?: string;
+}
+
+/**
+ * Parse an endpoint list (`url` or `url|weight`, comma-separated)
+ */
+export function parseRpcEndpoints(value: string): RpcEndpointConfig[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [url, weight] = entry.split('|');
+      const parsedWeight = parseFloat(weight);
+      return {
+        url: url.trim(),
+        weight: parsedWeight > 0 ? parsedWeight : 1
+      };
+    });
+}
+
+/**
+ * Get the configured RPC endpoint list of the active deployment
+ * (BASE_RPC_URLS, falling back to BASE_RPC_URL, for Base mainnet)
+ */
+export function getConfiguredRpcUrls(): string {
+  return getDeploymentRpcUrls(getActiveDeployment());
+}
+
+/**
+ * Provider that routes JSON-RPC requests over a pool of endpoints
+ */
+export class RpcProviderPool extends ethers.JsonRpcProvider {
+  #endpoints: EndpointState[];
+
+  constructor(endpoints: RpcEndpointConfig[], network?: ethers.Networkish, options?: ethers.JsonRpcApiProviderOptions) {
+    if (endpoints.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+
+    super(endpoints[0].url, network, options);
+
+    this.#endpoints = endpoints.map((endpoint, index) => ({
+      url: endpoint.url,
+      label: getEndpointLabel(endpoint.url, index),
+      weight: endpoint.weight,
+      requests: 0,
+      failures: 0,
+      errorRate: 0,
+      avgLatencyMs: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0
+    }));
+  }
+
+  /**
+   * Send a payload to the best available endpoint, failing over on endpoint errors
+   */
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const tried = new Set<EndpointState>();
+    let lastError: unknown = null;
+
+    while (tried.size < this.#endpoints.length) {
+      const endpoint = this.#selectEndpoint(tried);
+      tried.add(endpoint);
+
+      const started = Date.now();
+      try {
+        const results = await sendToEndpoint(endpoint.url, payload);
+
+        // A throttling error in the JSON-RPC response is an endpoint failure too
+        const throttled = results.find(result => isThrottleResult(result));
+        if (throttled) {
+          throw new Error(`RPC endpoint throttled: ${(throttled as any).error.message}`);
+        }
+
+        this.#recordSuccess(endpoint, Date.now() - started);
+        return results;
+      } catch (error) {
+        this.#recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Get the health of every endpoint in the pool
+   */
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.#endpoints.map(endpoint => ({
+      label: endpoint.label,
+      weight: endpoint.weight,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      errorRate: Math.round(endpoint.errorRate * 100) / 100,
+      avgLatencyMs: Math.round(endpoint.avgLatencyMs),
+      score: Math.round(getScore(endpoint, now) * 100) / 100,
+      coolingDown: endpoint.cooldownUntil > now,
+      lastError: endpoint.lastError
+    }));
+  }
+
+  /**
+   * Send eth_blockNumber to every endpoint once and return the resulting health
+   */
+  async probeEndpoints(): Promise<RpcEndpointHealth[]> {
+    await Promise.all(this.#endpoints.map(async endpoint => {
+      const started = Date.now();
+      try {
+        const [result] = await sendToEndpoint(endpoint.url, {
+          method: 'eth_blockNumber',
+          params: [],
+          id: 1,
+          jsonrpc: '2.0'
+        });
+        if ('error' in result) {
+          throw new Error((result as any).error.message);
+        }
+        this.#recordSuccess(endpoint, Date.now() - started);
+      } catch (error) {
+        this.#recordFailure(endpoint, error);
+      }
+    }));
+
+    return this.getHealth();
+  }
+
+  // Pick an untried endpoint, weighted by score; cooling endpoints only when nothing else is left
+  #selectEndpoint(tried: Set<EndpointState>): EndpointState {
+    const now = Date.now();
+    const candidates = this.#endpoints.filter(endpoint => !tried.has(endpoint));
+    const available = candidates.filter(endpoint => endpoint.cooldownUntil <= now);
+
+    if (available.length === 0) {
+      // Everything is cooling down - use the endpoint that recovers first
+      return candidates.reduce((best, endpoint) => endpoint.cooldownUntil < best.cooldownUntil ? endpoint : best);
+    }
+
+    const scores = available.map(endpoint => getScore(endpoint, now));
+    const total = scores.reduce((sum, score) => sum + score, 0);
+    let pick = Math.random() * total;
+
+    for (let i = 0; i < available.length; i++) {
+      pick -= scores[i];
+      if (pick <= 0) return available[i];
+    }
+    return available[available.length - 1];
+  }
+
+  #recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.requests++;
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_ALPHA);
+    endpoint.avgLatencyMs = endpoint.avgLatencyMs === 0
+      ? latencyMs
+      : endpoint.avgLatencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+  }
+
+  #recordFailure(endpoint: EndpointState, error: unknown): void {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    endpoint.consecutiveFailures++;
+    endpoint.cooldownUntil = Date.now() + Math.min(
+      RPC_MAX_COOLDOWN_MS,
+      1000 * Math.pow(2, endpoint.consecutiveFailures - 1)
+    );
+    endpoint.lastError = error instanceof Error ? ((error as any).shortMessage || error.message) : String(error);
+  }
+}
+
+// Score an endpoint: weight scaled down by its error rate and latency (0 while cooling down)
+function getScore(endpoint: EndpointState, now: number): number {
+  if (endpoint.cooldownUntil > now) return 0;
+  const latencyFactor = 1 + endpoint.avgLatencyMs / 1000;
+  return Math.max(0.01, endpoint.weight * (1 - endpoint.errorRate) / latencyFactor);
+}
+
+// Send a JSON-RPC payload to a single endpoint without ethers' built-in throttle retries
+async function sendToEndpoint(
+  url: string,
+  payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+): Promise<Array<ethers.JsonRpcResult>> {
+  const request = new ethers.FetchRequest(url);
+  request.timeout = RPC_REQUEST_TIMEOUT_MS;
+  request.setThrottleParams({ maxAttempts: 1 });
+  request.body = JSON.stringify(payload);
+  request.setHeader('content-type', 'application/json');
+
+  const response = await request.send();
+  response.assertOk();
+
+  const body = response.bodyJson;
+  return Array.isArray(body) ? body : [body];
+}
+
+// Check whether a JSON-RPC result is a throttling error
+function isThrottleResult(result: any): boolean {
+  return Boolean(result?.error) && classifyRpcError(result.error) === 'rate-limited';
+}
+
+// Label an endpoint without exposing API keys in its path or query
+function getEndpointLabel(url: string, index: number): string {
+  try {
+    return `#${index + 1} ${new URL(url).host}`;
+  } catch {
+    return `#${index + 1}`;
+  }
+}
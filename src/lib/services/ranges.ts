@@ -0,0 +1,124 @@
+/**
+ * Range Planner Service
+ *
+ * Plans the block ranges passed to eth_getLogs. The window is halved when the RPC
+ * reports that a range or its result set is too large, grows again after a run of
+ * successful requests, and never exceeds the provider's maximum block range
+ * (configured via RPC_MAX_BLOCK_RANGE or learned from error messages).
+ */
+
+import {
+  DEFAULT_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  CHUNK_GROWTH_SUCCESSES
+} from '../../constants';
+import { classifyRpcError, getErrorMessage, recordRetryMetric } from './retry';
+
+export interface RangePlannerOptions {
+  initialChunkSize?: number;   // Chunk size to start with
+  minChunkSize?: number;       // Never shrink below this
+  maxChunkSize?: number;       // Provider-specific maximum block range
+  growthSuccesses?: number;    // Consecutive successes before the window doubles
+}
+
+export interface RangePlanner {
+  readonly chunkSize: number;                          // Current window size in blocks
+  nextEnd(fromBlock: number, toBlock: number): number; // Last block of the next range starting at fromBlock
+  recordSuccess(): void;                               // Report a successful request
+  recordRangeError(error: unknown): boolean;           // Report an error; true if it was a range error and the window shrank
+}
+
+/**
+ * Check whether an error means the requested range (or its result set) is too large
+ */
+export function isRangeTooLargeError(error: unknown): boolean {
+  return classifyRpcError(error) === 'range-too-large';
+}
+
+/**
+ * Extract a block range size the provider says it accepts, if the error mentions one
+ * (e.g. Alchemy's "up to a 2K block range" or "this block range should work: [0x1, 0x7d0]")
+ */
+export function getSuggestedRangeSize(error: unknown): number | null {
+  const message = getErrorMessage(error);
+
+  const suggested = message.match(/\[\s*(0x[0-9a-f]+)\s*,\s*(0x[0-9a-f]+)\s*\]/i);
+  if (suggested) {
+    const size = Number(BigInt(suggested[2]) - BigInt(suggested[1])) + 1;
+    if (size > 0) return size;
+  }
+
+  const upTo = message.match(/up to a (\d+)(k?) block range/i);
+  if (upTo) {
+    return parseInt(upTo[1]) * (upTo[2] ? 1000 : 1);
+  }
+
+  const maximum = message.match(/maximum (?:block )?range(?: is| of)?:?\s*(\d+)/i);
+  if (maximum) {
+    return parseInt(maximum[1]);
+  }
+
+  return null;
+}
+
+/**
+ * Get the maximum block range configured for the RPC provider
+ */
+export function getConfiguredMaxRange(): number {
+  const configured = parseInt(process.env.RPC_MAX_BLOCK_RANGE || '');
+  return configured > 0 ? configured : MAX_CHUNK_SIZE;
+}
+
+/**
+ * Create a range planner
+ */
+export function createRangePlanner(options: RangePlannerOptions = {}): RangePlanner {
+  const minChunkSize = options.minChunkSize ?? MIN_CHUNK_SIZE;
+  let maxChunkSize = Math.max(minChunkSize, options.maxChunkSize ?? getConfiguredMaxRange());
+  const growthSuccesses = options.growthSuccesses ?? CHUNK_GROWTH_SUCCESSES;
+
+  let chunkSize = clamp(options.initialChunkSize ?? DEFAULT_CHUNK_SIZE);
+  let successes = 0;
+
+  function clamp(size: number): number {
+    return Math.max(minChunkSize, Math.min(maxChunkSize, size));
+  }
+
+  return {
+    get chunkSize() {
+      return chunkSize;
+    },
+
+    nextEnd(fromBlock: number, toBlock: number): number {
+      return Math.min(fromBlock + chunkSize - 1, toBlock);
+    },
+
+    recordSuccess(): void {
+      successes++;
+      if (successes >= growthSuccesses && chunkSize < maxChunkSize) {
+        chunkSize = clamp(chunkSize * 2);
+        successes = 0;
+      }
+    },
+
+    recordRangeError(error: unknown): boolean {
+      if (!isRangeTooLargeError(error)) return false;
+      successes = 0;
+
+      // Learn the provider's limit when it tells us, so the window never grows past it again
+      const suggested = getSuggestedRangeSize(error);
+      if (suggested !== null && suggested < maxChunkSize) {
+        maxChunkSize = Math.max(minChunkSize, suggested);
+      }
+
+      const previous = chunkSize;
+      chunkSize = clamp(suggested !== null ? Math.min(suggested, Math.floor(chunkSize / 2)) : Math.floor(chunkSize / 2));
+
+      // A shrunk window is a retry of the range; otherwise the caller's retry policy decides
+      const shrank = chunkSize < previous;
+      if (shrank) recordRetryMetric('range-too-large', true);
+      return shrank;
+    }
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Reorg Service
+ *
+ * Detects chain reorganizations by re-checking the hashes of recently ingested blocks
+ * against the canonical chain, and rolls back data stored from orphaned blocks.
+ */
+
+import { ethers } from 'ethers';
+import { HypermapEvent, BlockHeader, OrphanedBlock, ReorgRecord } from '../../types';
+import { REORG_WINDOW_BLOCKS } from '../../constants';
+import { getActiveDeployment } from './deployments';
+import { storeBlockHeaders, getBlockHeaders, rollbackFromBlock } from './mongodb';
+import { clearBlockTimestampCache, getRawLogArchive } from './events';
+import { withRetry } from './retry';
+
+/**
+ * Record the hashes of an ingested chunk's blocks that are within the reorg window.
+ * Blocks with events take their hash from the events; the chunk's last block is
+ * fetched as well, so reorgs of blocks without events are still detected.
+ */
+export async function recordChunkBlocks(
+  provider: ethers.JsonRpcProvider,
+  events: HypermapEvent[],
+  toBlock: number,
+  headBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<void> {
+  const windowStart = headBlock - REORG_WINDOW_BLOCKS;
+  if (toBlock < windowStart) return;
+
+  const headers = new Map<number, BlockHeader>();
+
+  for (const event of events) {
+    if (event.blockNumber >= windowStart) {
+      headers.set(event.blockNumber, {
+        chainId,
+        blockNumber: event.blockNumber,
+        blockHash: event.blockHash,
+        timestamp: event.timestamp ?? undefined
+      });
+    }
+  }
+
+  if (!headers.has(toBlock)) {
+    const block = await withRetry(() => provider.getBlock(toBlock));
+    if (block?.hash) {
+      headers.set(toBlock, {
+        chainId,
+        blockNumber: toBlock,
+        blockHash: block.hash,
+        timestamp: Number(block.timestamp)
+      });
+    }
+  }
+
+  await storeBlockHeaders([...headers.values()]);
+}
+
+/**
+ * Compare the stored hashes within the reorg window with the canonical chain.
+ * Returns the first block to roll back and the orphaned blocks, or null if the
+ * stored blocks are all canonical.
+ */
+export async function detectReorg(
+  provider: ethers.JsonRpcProvider,
+  headBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<{ forkBlock: number; orphanedBlocks: OrphanedBlock[] } | null> {
+  const windowStart = headBlock - REORG_WINDOW_BLOCKS;
+  const stored = await getBlockHeaders(windowStart, chainId);
+  if (!stored.length) return null;
+
+  // Block hashes chain together, so a canonical newest block means nothing below it changed
+  const newest = stored[stored.length - 1];
+  const newestBlock = await withRetry(() => provider.getBlock(newest.blockNumber));
+  if (newestBlock?.hash === newest.blockHash) return null;
+
+  // Walk up from the oldest stored block to find where the chains diverge
+  let lastCanonicalBlock: number | null = null;
+  const orphanedBlocks: OrphanedBlock[] = [];
+
+  for (const header of stored) {
+    const block = header === newest ? newestBlock : await withRetry(() => provider.getBlock(header.blockNumber));
+    const canonicalHash = block?.hash ?? null;
+
+    if (orphanedBlocks.length === 0 && canonicalHash === header.blockHash) {
+      lastCanonicalBlock = header.blockNumber;
+      continue;
+    }
+
+    orphanedBlocks.push({
+      blockNumber: header.blockNumber,
+      storedHash: header.blockHash,
+      canonicalHash
+    });
+  }
+
+  // Without a canonical block to anchor on, roll back the whole window
+  const forkBlock = lastCanonicalBlock !== null ? lastCanonicalBlock + 1 : windowStart;
+
+  return { forkBlock, orphanedBlocks };
+}
+
+/**
+ * Detect a reorganization of recently ingested blocks and roll it back.
+ * Returns the reorg record, or null if no reorg was found.
+ */
+export async function checkForReorg(
+  provider: ethers.JsonRpcProvider,
+  headBlock: number,
+  chainId = getActiveDeployment().chainId
+): Promise<ReorgRecord | null> {
+  const reorg = await detectReorg(provider, headBlock, chainId);
+  if (!reorg) return null;
+
+  console.warn(`Chain reorganization detected: ${reorg.orphanedBlocks.length} stored blocks orphaned, rolling back from block ${reorg.forkBlock}`);
+  clearBlockTimestampCache(reorg.forkBlock);
+  const record = await rollbackFromBlock(reorg.forkBlock, headBlock, reorg.orphanedBlocks, chainId);
+  // The rawlogs collection is rolled back with the events; file archives are trimmed here
+  await getRawLogArchive()?.removeFromBlock(reorg.forkBlock);
+  return record;
+}
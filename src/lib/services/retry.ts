@@ -0,0 +1,225 @@
+/**
+ * Retry Service
+ *
+ * One classification of RPC errors and one retry policy for every call path.
+ * Errors are sorted into categories:
+ * - rate-limited: the provider is throttling us (HTTP 429, "rate limit", quota messages)
+ * - range-too-large: an eth_getLogs range or its result set is too large (handled by the range planner)
+ * - transient: network failures, timeouts, server errors and malformed responses
+ * - permanent: everything else (invalid requests, reverts, decoding errors)
+ *
+ * Retries use exponential backoff with jitter. The policy defaults come from
+ * src/constants.ts and can be overridden with the RPC_RETRY_MAX_RETRIES,
+ * RPC_RETRY_BASE_DELAY_MS, RPC_RETRY_MAX_DELAY_MS and RPC_RETRY_JITTER_MS
+ * environment variables. Every classified error is counted per category.
+ */
+
+import { RpcErrorCategory, RetryMetrics } from '../../types';
+import {
+  MAX_RETRIES,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  RETRY_JITTER_MS
+} from '../../constants';
+
+export interface RetryPolicy {
+  maxRetries: number;              // Retries after the first attempt
+  baseDelayMs: number;             // Delay before the first retry
+  maxDelayMs: number;              // Upper bound for a single delay
+  jitterMs: number;                // Random delay added to each retry
+  retryOn: RpcErrorCategory[];     // Categories that are retried
+}
+
+export interface RetryDecision {
+  category: RpcErrorCategory;      // Category of the error
+  retry: boolean;                  // Whether to try again
+  delayMs: number;                 // Delay before the next attempt (0 if not retrying)
+}
+
+export interface RetryOptions extends Partial<RetryPolicy> {
+  onRetry?: (error: unknown, decision: RetryDecision, retry: number) => void; // Called before each retry
+}
+
+export const ERROR_CATEGORIES: RpcErrorCategory[] = ['rate-limited', 'range-too-large', 'transient', 'permanent'];
+
+// Messages returned by RPC providers when a range or its result set is too large
+const RANGE_ERROR_PATTERNS = [
+  'query returned more than',       // Infura, QuickNode, geth
+  'response size exceeded',         // Alchemy
+  'block range',                    // "block range too large", "exceed maximum block range", ...
+  'range is too large',
+  'range too large',
+  'too many blocks',
+  'eth_getlogs is limited',         // Public endpoints
+  'log response size'
+];
+
+// Messages returned by RPC providers when they throttle requests
+const RATE_LIMIT_PATTERNS = [
+  'too many requests',
+  'rate limit',
+  'rate-limit',
+  'throttl',
+  'capacity',
+  'exceeded your',                  // "You've exceeded your compute units per second"
+  'daily request count',
+  'request limit'
+];
+
+// Network-level failures and server-side errors worth trying again
+const TRANSIENT_CODES = ['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR', 'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN'];
+const TRANSIENT_PATTERNS = [
+  'timeout',
+  'timed out',
+  'socket hang up',
+  'fetch failed',
+  'network error',
+  'header not found',               // Node behind the requested block
+  'missing response',               // Batch responses dropped by a throttled provider
+  'internal error',
+  'bad gateway',
+  'service unavailable',
+  'gateway timeout'
+];
+
+// Per-category counters for this process
+const metrics = new Map<RpcErrorCategory, RetryMetrics>(
+  ERROR_CATEGORIES.map(category => [category, { category, errors: 0, retries: 0, failures: 0 }])
+);
+
+/**
+ * Get the text of an error including nested RPC error details
+ */
+export function getErrorMessage(error: unknown): string {
+  if (!error) return '';
+  if (typeof error === 'string') return error;
+  const err = error as any;
+  return [err instanceof Error ? String(err) : '', err.message, err.shortMessage, err.info?.error?.message, err.error?.message]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Sort an error (an ethers error, a plain Error or a JSON-RPC error object) into a category
+ */
+export function classifyRpcError(error: unknown): RpcErrorCategory {
+  const err = (error ?? {}) as any;
+  const message = getErrorMessage(error).toLowerCase();
+  const codes = [err.code, err.error?.code, err.info?.error?.code, err.cause?.code];
+
+  if (RANGE_ERROR_PATTERNS.some(pattern => message.includes(pattern))) {
+    return 'range-too-large';
+  }
+
+  if (codes.includes(429) || /\b429\b/.test(message) || RATE_LIMIT_PATTERNS.some(pattern => message.includes(pattern))) {
+    return 'rate-limited';
+  }
+
+  if (codes.some(code => TRANSIENT_CODES.includes(code)) || TRANSIENT_PATTERNS.some(pattern => message.includes(pattern))) {
+    return 'transient';
+  }
+
+  return 'permanent';
+}
+
+/**
+ * Get the retry policy, merging overrides over the configured defaults
+ */
+export function getRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return {
+    maxRetries: getConfiguredNumber('RPC_RETRY_MAX_RETRIES', MAX_RETRIES),
+    baseDelayMs: getConfiguredNumber('RPC_RETRY_BASE_DELAY_MS', RETRY_BASE_DELAY_MS),
+    maxDelayMs: getConfiguredNumber('RPC_RETRY_MAX_DELAY_MS', RETRY_MAX_DELAY_MS),
+    jitterMs: getConfiguredNumber('RPC_RETRY_JITTER_MS', RETRY_JITTER_MS),
+    retryOn: ['rate-limited', 'transient'],
+    ...overrides
+  };
+}
+
+/**
+ * Decide whether a failed attempt should be retried and record it in the metrics.
+ * `retry` is the number of the retry that would follow (1 for the first retry).
+ */
+export function getRetryDecision(error: unknown, retry: number, policy: RetryPolicy = getRetryPolicy()): RetryDecision {
+  const category = classifyRpcError(error);
+  const shouldRetry = policy.retryOn.includes(category) && retry <= policy.maxRetries;
+  recordRetryMetric(category, shouldRetry);
+
+  return {
+    category,
+    retry: shouldRetry,
+    delayMs: shouldRetry ? getRetryDelay(retry, policy) : 0
+  };
+}
+
+/**
+ * Backoff delay before the given retry (1-based): base * 2^(retry - 1), capped, plus jitter
+ */
+export function getRetryDelay(retry: number, policy: RetryPolicy = getRetryPolicy()): number {
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry - 1));
+  return backoff + Math.random() * policy.jitterMs;
+}
+
+/**
+ * Run an operation, retrying it according to the policy
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { onRetry, ...overrides } = options;
+  const policy = getRetryPolicy(overrides);
+
+  for (let retry = 1; ; retry++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const decision = getRetryDecision(error, retry, policy);
+      if (!decision.retry) throw error;
+
+      onRetry?.(error, decision, retry);
+      await sleep(decision.delayMs);
+    }
+  }
+}
+
+/**
+ * Count an error of a category, and whether it was retried or given up on
+ */
+export function recordRetryMetric(category: RpcErrorCategory, retried: boolean): void {
+  const entry = metrics.get(category) as RetryMetrics;
+  entry.errors++;
+  if (retried) {
+    entry.retries++;
+  } else {
+    entry.failures++;
+  }
+}
+
+/**
+ * Get the retry counters of this process per error category
+ */
+export function getRetryMetrics(): RetryMetrics[] {
+  return ERROR_CATEGORIES.map(category => ({ ...(metrics.get(category) as RetryMetrics) }));
+}
+
+/**
+ * Reset the retry counters (e.g. before a run that reports its own counters)
+ */
+export function resetRetryMetrics(): void {
+  metrics.forEach(entry => {
+    entry.errors = 0;
+    entry.retries = 0;
+    entry.failures = 0;
+  });
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Read a non-negative number from the environment
+function getConfiguredNumber(name: string, fallback: number): number {
+  const configured = parseInt(process.env[name] || '');
+  return configured >= 0 ? configured : fallback;
+}
@@ -1,6 +1,13 @@
 import mongoose from 'mongoose';
-import { HypermapEventSchema, HypermapEntrySchema } from '../schemas';
-import { HypermapEvent, HypermapEntry } from '../types';
+import { 
+  HypermapEventSchema, HypermapEntrySchema, IndexerCheckpointSchema,
+  BlockHeaderSchema, ReorgSchema, RangeLeaseSchema, CoverageRangeSchema, RawLogSchema,
+  QuarantinedLogSchema, ExtractionJobSchema, OwnershipRecordSchema, NoteRevisionSchema, FactAnomalySchema
+} from '../schemas';
+import { 
+  HypermapEvent, HypermapEntry, IndexerCheckpoint, BlockHeader, ReorgRecord, RangeLease, CoverageRange, RawLog,
+  QuarantinedLog, ExtractionJob, OwnershipRecord, NoteRevision, FactAnomaly
+} from '../types';
 
 // Models
 export const HypermapEventModel = (mongoose.models.HypermapEvent as mongoose.Model<HypermapEvent>) || 
@@ -9,9 +16,53 @@ export const HypermapEventModel = (mongoose.models.HypermapEvent as mongoose.Mod
 export const HypermapEntryModel = (mongoose.models.HypermapEntry as mongoose.Model<HypermapEntry>) || 
   mongoose.model<HypermapEntry>('HypermapEntry', HypermapEntrySchema);
 
+export const IndexerCheckpointModel = (mongoose.models.IndexerCheckpoint as mongoose.Model<IndexerCheckpoint>) || 
+  mongoose.model<IndexerCheckpoint>('IndexerCheckpoint', IndexerCheckpointSchema);
+
+export const BlockHeaderModel = (mongoose.models.BlockHeader as mongoose.Model<BlockHeader>) || 
+  mongoose.model<BlockHeader>('BlockHeader', BlockHeaderSchema);
+
+export const ReorgModel = (mongoose.models.Reorg as mongoose.Model<ReorgRecord>) || 
+  mongoose.model<ReorgRecord>('Reorg', ReorgSchema);
+
+export const RangeLeaseModel = (mongoose.models.RangeLease as mongoose.Model<RangeLease>) || 
+  mongoose.model<RangeLease>('RangeLease', RangeLeaseSchema);
+
+export const CoverageRangeModel = (mongoose.models.CoverageRange as mongoose.Model<CoverageRange>) || 
+  mongoose.model<CoverageRange>('CoverageRange', CoverageRangeSchema);
+
+export const RawLogModel = (mongoose.models.RawLog as mongoose.Model<RawLog>) || 
+  mongoose.model<RawLog>('RawLog', RawLogSchema);
+
+export const QuarantinedLogModel = (mongoose.models.QuarantinedLog as mongoose.Model<QuarantinedLog>) || 
+  mongoose.model<QuarantinedLog>('QuarantinedLog', QuarantinedLogSchema);
+
+export const ExtractionJobModel = (mongoose.models.ExtractionJob as mongoose.Model<ExtractionJob>) || 
+  mongoose.model<ExtractionJob>('ExtractionJob', ExtractionJobSchema);
+
+export const OwnershipRecordModel = (mongoose.models.OwnershipRecord as mongoose.Model<OwnershipRecord>) || 
+  mongoose.model<OwnershipRecord>('OwnershipRecord', OwnershipRecordSchema);
+
+export const NoteRevisionModel = (mongoose.models.NoteRevision as mongoose.Model<NoteRevision>) || 
+  mongoose.model<NoteRevision>('NoteRevision', NoteRevisionSchema);
+
+export const FactAnomalyModel = (mongoose.models.FactAnomaly as mongoose.Model<FactAnomaly>) || 
+  mongoose.model<FactAnomaly>('FactAnomaly', FactAnomalySchema);
+
 // Initialize the database with proper indexes
 export async function initDatabase() {
   // Ensure indexes are created
   await HypermapEntryModel.createIndexes();
   await HypermapEventModel.createIndexes();
+  await IndexerCheckpointModel.createIndexes();
+  await BlockHeaderModel.createIndexes();
+  await ReorgModel.createIndexes();
+  await RangeLeaseModel.createIndexes();
+  await CoverageRangeModel.createIndexes();
+  await RawLogModel.createIndexes();
+  await QuarantinedLogModel.createIndexes();
+  await ExtractionJobModel.createIndexes();
+  await OwnershipRecordModel.createIndexes();
+  await NoteRevisionModel.createIndexes();
+  await FactAnomalyModel.createIndexes();
 }
\ No newline at end of file
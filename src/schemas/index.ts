@@ -3,6 +3,7 @@ import { Schema } from 'mongoose';
 // Event schema for all HyperMap events
 export const HypermapEventSchema = new Schema({
   // Base event fields
+  chainId: { type: Number, index: true }, // Chain of the deployment the event was emitted on
   eventType: { type: String, required: true, index: true, enum: ['Mint', 'Fact', 'Note', 'Gene', 'Transfer', 'Zero', 'Upgraded'] },
   blockNumber: { type: Number, required: true, index: true },
   blockHash: { type: String, required: true }, // Bytes32
@@ -10,6 +11,14 @@ export const HypermapEventSchema = new Schema({
   transactionIndex: { type: Number, required: true },
   logIndex: { type: Number, required: true },
   timestamp: { type: Number, index: true }, // Optional, indexed for date filtering
+  finality: { type: String, enum: ['pending', 'finalized'], default: 'pending', index: true }, // Pending until the block is final
+  
+  // Transaction details (set by the enrichment stage)
+  txFrom: { type: String, sparse: true, index: true },    // Address - transaction sender (indexed)
+  txTo: { type: String, sparse: true, index: true },      // Address - called address (indexed)
+  gasUsed: { type: String, sparse: true },                // uint256 as decimal string
+  effectiveGasPrice: { type: String, sparse: true },      // uint256 as decimal string (wei)
+  txStatus: { type: Number, sparse: true },               // Receipt status (1 = success)
   
   // Mint event fields - bytes32 (indexed)
   parenthash: { type: String, sparse: true, index: true }, // Bytes32
@@ -20,8 +29,10 @@ export const HypermapEventSchema = new Schema({
   notehash: { type: String, sparse: true, index: true },  // Bytes32
   
   // Common fields for various events
-  labelhash: { type: String, sparse: true, index: true }, // Bytes (indexed) - hex string of raw bytes
-  label: { type: String, sparse: true, index: true },     // String - UTF8 decoded from bytes
+  labelhash: { type: String, sparse: true, index: true }, // Bytes32 - keccak256 of the label bytes (indexed topic)
+  label: { type: String, sparse: true, index: true },     // String - UTF8 decoded from bytes (U+FFFD for invalid sequences)
+  labelBytes: { type: String, sparse: true },             // Bytes - hex string of the raw label
+  integrityIssues: { type: [String], default: undefined, sparse: true, index: true }, // Mismatches with the name derivation
   data: { type: String, sparse: true },                   // Bytes - hex string of raw bytes
   
   // Gene event fields
@@ -42,16 +53,19 @@ export const HypermapEventSchema = new Schema({
   timestamps: true 
 });
 
+HypermapEventSchema.index({ chainId: 1, transactionHash: 1, logIndex: 1 }, { unique: true });
+
 // Schema for HyperMap entries
 export const HypermapEntrySchema = new Schema({
-  namehash: { type: String, required: true, unique: true, index: true }, // Bytes32 - entry identifier
+  chainId: { type: Number, index: true },                                // Chain of the deployment the entry belongs to
+  namehash: { type: String, required: true, index: true },               // Bytes32 - entry identifier (unique per chain)
   label: { type: String, required: true, index: true },                  // Human-readable label (UTF8 string)
   parentHash: { type: String, required: true, index: true },             // Bytes32 - parent entry
-  fullName: { type: String, sparse: true },                              // Fully qualified name
+  fullName: { type: String },                                            // Fully qualified name (e.g. 'foo.bar.os'), unset while unknown
   owner: { type: String, sparse: true, index: true },                    // Address - owner of the entry
   gene: { type: String, sparse: true, index: true },                     // Address - associated gene contract
-  notes: { type: Map, of: Schema.Types.Mixed, default: {} },             // Map of notes by label
-  facts: { type: Map, of: Schema.Types.Mixed, default: {} },             // Map of facts by label
+  notes: { type: Map, of: Schema.Types.Mixed, default: {} },             // Map of notes by label (encoded, see encodeLabelKey)
+  facts: { type: Map, of: Schema.Types.Mixed, default: {} },             // Map of facts by label (encoded, see encodeLabelKey)
   children: { type: [String], default: [] },                             // Array of child namehashes (Bytes32[])
   creationBlock: { type: Number, required: true, index: true },          // Block number when created
   lastUpdateBlock: { type: Number, required: true }                      // Block number of last update
@@ -59,3 +73,209 @@ export const HypermapEntrySchema = new Schema({
   timestamps: true
 });
 
+HypermapEntrySchema.index({ chainId: 1, namehash: 1 }, { unique: true });
+HypermapEntrySchema.index({ chainId: 1, fullName: 1 }, { unique: true, partialFilterExpression: { fullName: { $type: 'string' } } });
+
+// Schema for the ownership history (one document per Transfer event)
+export const OwnershipRecordSchema = new Schema({
+  chainId: { type: Number, required: true },                             // Chain id
+  namehash: { type: String, required: true },                            // Bytes32 - transferred entry (token id as a namehash)
+  from: { type: String, required: true },                                // Address - previous owner (lowercase)
+  to: { type: String, required: true },                                  // Address - new owner (lowercase)
+  blockNumber: { type: Number, required: true },                         // Block of the Transfer
+  logIndex: { type: Number, required: true },                            // Log index of the Transfer
+  transactionHash: { type: String, required: true },                     // Bytes32 - transaction of the Transfer
+  timestamp: { type: Number }                                            // Block timestamp (seconds), unset until known
+}, {
+  timestamps: true
+});
+
+OwnershipRecordSchema.index({ chainId: 1, transactionHash: 1, logIndex: 1 }, { unique: true });
+OwnershipRecordSchema.index({ chainId: 1, namehash: 1, blockNumber: 1, logIndex: 1 });
+OwnershipRecordSchema.index({ chainId: 1, from: 1 });
+OwnershipRecordSchema.index({ chainId: 1, to: 1 });
+OwnershipRecordSchema.index({ chainId: 1, blockNumber: 1 });
+
+// Schema for the note history (one document per Note event)
+export const NoteRevisionSchema = new Schema({
+  chainId: { type: Number, required: true },                             // Chain id
+  namehash: { type: String, required: true },                            // Bytes32 - entry the note belongs to
+  label: { type: String, required: true },                               // Note label (e.g. '~ip')
+  notehash: { type: String, required: true },                            // Bytes32 - namehash of the note
+  data: { type: String },                                                // Bytes - value of the note
+  blockNumber: { type: Number, required: true },                         // Block of the Note
+  logIndex: { type: Number, required: true },                            // Log index of the Note
+  transactionHash: { type: String, required: true },                     // Bytes32 - transaction of the Note
+  timestamp: { type: Number }                                            // Block timestamp (seconds), unset until known
+}, {
+  timestamps: true
+});
+
+NoteRevisionSchema.index({ chainId: 1, transactionHash: 1, logIndex: 1 }, { unique: true });
+NoteRevisionSchema.index({ chainId: 1, namehash: 1, label: 1, blockNumber: 1, logIndex: 1 });
+NoteRevisionSchema.index({ chainId: 1, blockNumber: 1 });
+
+// Schema for fact anomalies (Fact events that tried to set a fact again)
+export const FactAnomalySchema = new Schema({
+  chainId: { type: Number, required: true },                             // Chain id
+  kind: { type: String, required: true, enum: ['conflicting-value', 'repeated-value'] }, // Whether the value differs from the kept one
+  namehash: { type: String, required: true },                            // Bytes32 - entry the fact belongs to
+  label: { type: String, required: true },                               // Fact label
+  facthash: { type: String, required: true },                            // Bytes32 - namehash of the fact
+  data: { type: String },                                                // Bytes - value that was not applied
+  blockNumber: { type: Number, required: true },                         // Block of the Fact
+  logIndex: { type: Number, required: true },                            // Log index of the Fact
+  transactionHash: { type: String, required: true },                     // Bytes32 - transaction of the Fact
+  timestamp: { type: Number },                                           // Block timestamp (seconds), unset until known
+  kept: {                                                                // First Fact of the label (its value is kept)
+    data: { type: String },
+    blockNumber: { type: Number, required: true },
+    logIndex: { type: Number, required: true },
+    transactionHash: { type: String, required: true }
+  }
+}, {
+  timestamps: true
+});
+
+FactAnomalySchema.index({ chainId: 1, transactionHash: 1, logIndex: 1 }, { unique: true });
+FactAnomalySchema.index({ chainId: 1, namehash: 1, label: 1 });
+FactAnomalySchema.index({ chainId: 1, blockNumber: 1 });
+
+// Schema for indexing checkpoints (one document per chain, contract and pipeline stage)
+export const IndexerCheckpointSchema = new Schema({
+  chainId: { type: Number, required: true },                             // Chain id (e.g. 8453 for Base)
+  contractAddress: { type: String, required: true },                     // Address - lowercase contract address
+  stage: { type: String, required: true, enum: ['extract', 'index', 'materialize'] }, // Pipeline stage
+  lastBlock: { type: Number, required: true }                            // Last block of the last completed chunk
+}, {
+  timestamps: true
+});
+
+IndexerCheckpointSchema.index({ chainId: 1, contractAddress: 1, stage: 1 }, { unique: true });
+
+// Schema for recently ingested block headers (used to detect chain reorganizations)
+export const BlockHeaderSchema = new Schema({
+  chainId: { type: Number, required: true },                             // Chain id
+  blockNumber: { type: Number, required: true },                         // Block number
+  blockHash: { type: String, required: true },                           // Bytes32 - hash seen at ingestion time
+  timestamp: { type: Number }                                            // Block timestamp (seconds)
+}, {
+  timestamps: true
+});
+
+BlockHeaderSchema.index({ chainId: 1, blockNumber: 1 }, { unique: true });
+
+// Schema for detected chain reorganizations
+export const ReorgSchema = new Schema({
+  chainId: { type: Number, required: true, index: true },                // Chain id
+  forkBlock: { type: Number, required: true, index: true },              // First block rolled back
+  headBlock: { type: Number, required: true },                           // Chain head at detection time
+  orphanedBlocks: [{                                                     // Stored blocks no longer canonical
+    _id: false,
+    blockNumber: { type: Number, required: true },
+    storedHash: { type: String, required: true },                        // Bytes32
+    canonicalHash: { type: String, default: null }                       // Bytes32 (null if block no longer exists)
+  }],
+  removedEventIds: { type: [String], default: [] },                      // Deleted event ids (txHash_logIndex)
+  affectedEntries: { type: [String], default: [] }                       // Re-derived entry namehashes (Bytes32[])
+}, {
+  timestamps: true
+});
+
+// Schema for backfill range leases (claimed and processed by parallel workers)
+export const RangeLeaseSchema = new Schema({
+  chainId: { type: Number, required: true },                             // Chain id
+  contractAddress: { type: String, required: true },                     // Address - lowercase contract address
+  fromBlock: { type: Number, required: true },                           // First block of the lease
+  toBlock: { type: Number, required: true },                             // Last block of the lease
+  status: { type: String, required: true, enum: ['pending', 'claimed', 'done', 'failed'], default: 'pending' },
+  owner: { type: String, default: null },                                // Worker id holding the lease
+  expiresAt: { type: Date, default: null },                              // Claim expiry
+  attempts: { type: Number, default: 0 },                                // Number of claims so far
+  eventCount: { type: Number, default: 0 },                              // Events stored when completed
+  lastError: { type: String },                                           // Error of the last failed attempt
+  completedAt: { type: Date }                                            // Completion time
+}, {
+  timestamps: true
+});
+
+RangeLeaseSchema.index({ chainId: 1, contractAddress: 1, fromBlock: 1 }, { unique: true });
+RangeLeaseSchema.index({ status: 1, expiresAt: 1 });
+
+// Schema for extraction jobs run by the server's job worker
+export const ExtractionJobSchema = new Schema({
+  chainId: { type: Number, required: true },                             // Chain id
+  contractAddress: { type: String, required: true },                     // Address - lowercase contract address
+  fromBlock: { type: Number, required: true },                           // First block of the job
+  toBlock: { type: Number, default: null },                              // Last block of the job (null: follow the chain head)
+  targetBlock: { type: Number, default: null },                          // Last block as of the latest chunk
+  nextBlock: { type: Number, required: true },                           // First block of the next chunk
+  status: { type: String, required: true, enum: ['queued', 'running', 'paused', 'completed', 'failed', 'cancelled'], default: 'queued' },
+  owner: { type: String, default: null },                                // Worker id running the job
+  heartbeatAt: { type: Date, default: null },                            // Last sign of life of the worker
+  chunks: { type: Number, default: 0 },                                  // Chunks processed so far
+  eventsFound: { type: Number, default: 0 },                             // Events found so far
+  eventsStored: { type: Number, default: 0 },                            // New events stored so far
+  logs: { type: [{ _id: false, at: Date, message: String }], default: [] }, // Latest JOB_LOG_LIMIT log lines
+  error: { type: String },                                               // Error of a failed job
+  completedAt: { type: Date }                                            // Time the job completed, failed or was cancelled
+}, {
+  timestamps: true
+});
+
+ExtractionJobSchema.index({ chainId: 1, contractAddress: 1, status: 1 });
+ExtractionJobSchema.index({ status: 1, heartbeatAt: 1 });
+
+// Schema for the coverage ledger (block ranges that were scanned or failed)
+export const CoverageRangeSchema = new Schema({
+  chainId: { type: Number, required: true },                             // Chain id
+  contractAddress: { type: String, required: true },                     // Address - lowercase contract address
+  stage: { type: String, required: true, enum: ['extract', 'index', 'materialize'] }, // Stage that scanned the range
+  fromBlock: { type: Number, required: true },                           // First block of the range
+  toBlock: { type: Number, required: true },                             // Last block of the range
+  status: { type: String, required: true, enum: ['scanned', 'failed'] }, // Completed, or given up after retries
+  error: { type: String }                                                // Error of a failed range
+}, {
+  timestamps: true
+});
+
+CoverageRangeSchema.index({ chainId: 1, contractAddress: 1, status: 1, fromBlock: 1 });
+
+// Schema for archived raw contract logs (keyed by txHash_logIndex, like event ids)
+export const RawLogSchema = new Schema({
+  _id: { type: String },                                                 // txHash_logIndex
+  chainId: { type: Number, required: true },                             // Chain id
+  address: { type: String, required: true },                             // Address - lowercase emitting contract
+  blockNumber: { type: Number, required: true },                         // Block number
+  blockHash: { type: String, required: true },                           // Bytes32
+  transactionHash: { type: String, required: true },                     // Bytes32
+  transactionIndex: { type: Number, required: true },                    // Position of the transaction in the block
+  logIndex: { type: Number, required: true },                            // Position of the log in the block
+  topics: { type: [String], default: [] },                               // Bytes32[] - signature and indexed arguments
+  data: { type: String, default: '0x' },                                 // Bytes - ABI-encoded non-indexed arguments
+  timestamp: { type: Number }                                            // Block timestamp (seconds), if known
+}, {
+  timestamps: true
+});
+
+RawLogSchema.index({ chainId: 1, blockNumber: 1, logIndex: 1 });
+
+// Schema for logs that failed to decode (keyed by txHash_logIndex, like event ids)
+export const QuarantinedLogSchema = new Schema({
+  _id: { type: String },                                                 // txHash_logIndex
+  chainId: { type: Number, required: true },                             // Chain id
+  address: { type: String, required: true },                             // Address - lowercase emitting contract
+  blockNumber: { type: Number, required: true, index: true },            // Block number
+  blockHash: { type: String, required: true },                           // Bytes32
+  transactionHash: { type: String, required: true },                     // Bytes32
+  transactionIndex: { type: Number, required: true },                    // Position of the transaction in the block
+  logIndex: { type: Number, required: true },                            // Position of the log in the block
+  topics: { type: [String], default: [] },                               // Bytes32[] - signature and indexed arguments
+  data: { type: String, default: '0x' },                                 // Bytes - ABI-encoded non-indexed arguments
+  timestamp: { type: Number },                                           // Block timestamp (seconds), if known
+  error: { type: String, required: true },                               // Decoding error of the last attempt
+  abiVersion: { type: String, required: true },                          // ABI version (hash) of the last attempt
+  attempts: { type: Number, default: 0 }                                 // Decoding attempts so far
+}, {
+  timestamps: true
+});
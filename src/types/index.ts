@@ -7,29 +7,47 @@ export type Address = string;          // Ethereum address as hex string
 
 // Base event interface
 export interface BaseHypermapEvent {
+  chainId: number;
   blockNumber: number;
   blockHash: Bytes32;
   transactionHash: Bytes32;
   transactionIndex: number;
   logIndex: number;
   timestamp?: number;
+  finality?: Finality;         // 'pending' until the block is final (see src/lib/services/finality.ts)
+  // Transaction details, set by the enrichment stage (npm run enrich-events)
+  txFrom?: Address;            // Sender of the transaction
+  txTo?: Address | null;       // Called address (the HyperMap contract, or e.g. a TBA that called it)
+  gasUsed?: string;            // Gas used by the whole transaction (decimal string)
+  effectiveGasPrice?: string;  // Price paid per gas in wei (decimal string)
+  txStatus?: number;           // Receipt status (1 = success)
 }
 
+// Mismatch between a Mint, Fact or Note event and the name derivation (see src/lib/services/names.ts)
+export type IntegrityIssue =
+  | 'labelhash-mismatch'   // labelhash is not keccak256 of the label bytes
+  | 'namehash-mismatch'    // childhash/facthash/notehash is not derived from parenthash and the label
+  | 'invalid-utf8';        // label bytes are not valid UTF-8 (decoded with replacement characters)
+
 // Event types based on the plan
 export interface MintEvent extends BaseHypermapEvent {
   eventType: 'Mint';
   parenthash: Bytes32;         // bytes32 (indexed)
   childhash: Bytes32;          // bytes32 (indexed)
-  labelhash: Bytes;            // bytes (indexed) - raw bytes converted to hex string 
-  label: string;               // bytes - decoded from UTF8
+  labelhash: Bytes32;          // bytes (indexed) - keccak256 of the label bytes (the log topic)
+  label: string;               // bytes - decoded from UTF8 (invalid sequences replaced with U+FFFD)
+  labelBytes: Bytes;           // bytes - raw label
+  integrityIssues: IntegrityIssue[]; // Mismatches with the name derivation (empty if none)
 }
 
 export interface FactEvent extends BaseHypermapEvent {
   eventType: 'Fact';
   parenthash: Bytes32;         // bytes32 (indexed)
   facthash: Bytes32;           // bytes32 (indexed)
-  labelhash: Bytes;            // bytes (indexed) - raw bytes converted to hex string
-  label: string;               // bytes - decoded from UTF8
+  labelhash: Bytes32;          // bytes (indexed) - keccak256 of the label bytes (the log topic)
+  label: string;               // bytes - decoded from UTF8 (invalid sequences replaced with U+FFFD)
+  labelBytes: Bytes;           // bytes - raw label
+  integrityIssues: IntegrityIssue[]; // Mismatches with the name derivation (empty if none)
   data: Bytes;                 // bytes
 }
 
@@ -37,8 +55,10 @@ export interface NoteEvent extends BaseHypermapEvent {
   eventType: 'Note';
   parenthash: Bytes32;         // bytes32 (indexed)
   notehash: Bytes32;           // bytes32 (indexed)
-  labelhash: Bytes;            // bytes (indexed) - raw bytes converted to hex string
-  label: string;               // bytes - decoded from UTF8
+  labelhash: Bytes32;          // bytes (indexed) - keccak256 of the label bytes (the log topic)
+  label: string;               // bytes - decoded from UTF8 (invalid sequences replaced with U+FFFD)
+  labelBytes: Bytes;           // bytes - raw label
+  integrityIssues: IntegrityIssue[]; // Mismatches with the name derivation (empty if none)
   data: Bytes;                 // bytes
 }
 
@@ -81,6 +101,8 @@ export interface GetEventsParams {
   limit?: number;       // Items per page (default: 20)
   type?: string;        // Event type filter (e.g., 'Mint', 'Fact')
   startDate?: string;   // Start date filter (format: 'YYYY-MM-DD')
+  chainId?: number;     // Chain of the deployment (default: the active deployment)
+  finalizedOnly?: boolean; // Only events from final blocks (default: false)
   // Future filters can be added here (e.g., endDate, block range)
 }
 
@@ -92,10 +114,11 @@ export interface GetEventsResponse {
 
 // Hypermap Entry type
 export interface HypermapEntry {
+  chainId: number;                 // Chain of the deployment the entry belongs to
   namehash: Bytes32;               // bytes32 - entry identifier
   label: string;                   // Human-readable label
   parentHash: Bytes32;             // bytes32 - parent entry
-  fullName?: string;               // Fully qualified name
+  fullName?: string;               // Fully qualified name (e.g. 'foo.bar.os'), unset while a label on the way to the root is unknown
   owner?: Address;                 // address - owner of the entry
   gene?: Address;                  // address - associated gene contract
   notes: Record<string, any>;      // Map of notes
@@ -105,3 +128,407 @@ export interface HypermapEntry {
   lastUpdateBlock: number;         // Block number of last update
 }
 
+// Result of recomputing entry owners from the stored Transfer events
+export interface OwnerReconciliation {
+  entries: number;                 // Entries checked
+  updated: number;                 // Entries whose owner was set or changed
+  cleared: number;                 // Entries whose owner was removed (no Transfer, or burned)
+  unchanged: number;               // Entries whose owner was already right
+  missingEntries: number;          // Tokens with Transfers but no entry (their Mint is not stored)
+}
+
+// Change of owner of an entry, recorded from a Transfer event (ownership history)
+export interface OwnershipRecord {
+  chainId: number;                 // Chain of the deployment the Transfer was emitted on
+  namehash: Bytes32;               // bytes32 - transferred entry (the token id as a namehash)
+  from: Address;                   // address - previous owner, lowercase (zero address for mints)
+  to: Address;                     // address - new owner, lowercase (zero address for burns)
+  blockNumber: number;             // Block of the Transfer
+  logIndex: number;                // Log index of the Transfer
+  transactionHash: Bytes32;        // Transaction of the Transfer
+  timestamp?: number;              // Block timestamp (seconds), unset until known
+}
+
+// Point in time of an ownership query: the end of a block, or a moment (Unix seconds)
+export type OwnershipPoint = { blockNumber: number } | { timestamp: number };
+
+// Owner of an entry at a point in time
+export interface OwnerAt {
+  namehash: Bytes32;               // bytes32 - the entry
+  owner: Address | null;           // address - owner at that point (null before the mint and after a burn)
+  since: OwnershipRecord | null;   // Transfer that made it the owner (null if there was none yet)
+}
+
+// Period in which an address owned an entry
+export interface OwnershipPeriod {
+  namehash: Bytes32;               // bytes32 - the owned entry
+  fullName?: string;               // Full name of the entry, if known
+  acquired: OwnershipRecord | null; // Transfer to the address (null if it is not stored)
+  released: OwnershipRecord | null; // Transfer away from the address (null if it still owns the entry)
+}
+
+// Value of a note set by a Note event (note history)
+export interface NoteRevision {
+  chainId: number;                 // Chain of the deployment the Note was emitted on
+  namehash: Bytes32;               // bytes32 - entry the note belongs to (the Note's parenthash)
+  label: string;                   // Note label (e.g. '~ip')
+  notehash: Bytes32;               // bytes32 - namehash of the note
+  data: Bytes;                     // bytes - value of the note
+  blockNumber: number;             // Block of the Note
+  logIndex: number;                // Log index of the Note
+  transactionHash: Bytes32;        // Transaction of the Note
+  timestamp?: number;              // Block timestamp (seconds), unset until known
+}
+
+// Note value as bytes and, when it is readable UTF-8, as text
+export interface NoteValue {
+  hex: Bytes;                      // bytes - the raw value
+  length: number;                  // Length in bytes
+  text: string | null;             // UTF-8 text (null for binary values such as IP addresses and ports)
+}
+
+// Differences between two revisions of a note
+export interface NoteDiff {
+  label: string;                   // Note label
+  from: NoteRevision;              // Older revision
+  to: NoteRevision;                // Newer revision
+  before: NoteValue;               // Value of the older revision
+  after: NoteValue;                // Value of the newer revision
+  changed: boolean;                // Whether the values differ
+  changedRanges: { offset: number; length: number }[]; // Byte ranges that differ (compared position by position)
+}
+
+// Kind of fact anomaly: a later Fact event of an already set fact, with another value or the same one
+export type FactAnomalyKind = 'conflicting-value' | 'repeated-value';
+
+// Fact event that tried to set a fact again (facts are write-once; the entry keeps the first value)
+export interface FactAnomaly {
+  chainId: number;                 // Chain of the deployment the Fact was emitted on
+  kind: FactAnomalyKind;           // Whether the value differs from the kept one
+  namehash: Bytes32;               // bytes32 - entry the fact belongs to (the Fact's parenthash)
+  label: string;                   // Fact label
+  facthash: Bytes32;               // bytes32 - namehash of the fact
+  data: Bytes;                     // bytes - value that was not applied
+  blockNumber: number;             // Block of the Fact
+  logIndex: number;                // Log index of the Fact
+  transactionHash: Bytes32;        // Transaction of the Fact
+  timestamp?: number;              // Block timestamp (seconds), unset until known
+  kept: {                          // First Fact of the label, whose value the entry keeps
+    data: Bytes;
+    blockNumber: number;
+    logIndex: number;
+    transactionHash: Bytes32;
+  };
+  createdAt?: Date;                // Set by mongoose timestamps (when the anomaly was found)
+}
+
+// HyperMap contract deployment on one chain (see src/lib/services/deployments.ts)
+export interface Deployment {
+  name: string;                    // Registry key, selected with HYPERMAP_DEPLOYMENT
+  chainId: number;                 // Chain id
+  contractAddress: Address;        // HyperMap contract address
+  deploymentBlock: number;         // First block of the deployment (where indexing starts)
+  envPrefix: string;               // Prefix of the RPC variables (<prefix>_RPC_URLS, <prefix>_RPC_URL, <prefix>_WS_URL)
+  abi: string;                     // ABI file in src/abi
+}
+
+// Pipeline stages that keep their own indexing checkpoint
+export type PipelineStage = 'extract' | 'index' | 'materialize';
+
+// Indexing checkpoint (last fully processed block per chain, contract and stage)
+export interface IndexerCheckpoint {
+  chainId: number;                 // Chain the checkpoint applies to
+  contractAddress: Address;        // Contract address (lowercase)
+  stage: PipelineStage;            // Pipeline stage that owns the checkpoint
+  lastBlock: number;               // Last block of the last completed chunk
+  updatedAt?: Date;                // Set by mongoose timestamps
+}
+
+// Block header kept for reorg detection (window of recent blocks)
+export interface BlockHeader {
+  chainId: number;                 // Chain the block belongs to
+  blockNumber: number;             // Block number
+  blockHash: Bytes32;              // bytes32 - hash seen when the block was ingested
+  timestamp?: number;              // Block timestamp (seconds)
+}
+
+// Block whose stored hash no longer matches the canonical chain
+export interface OrphanedBlock {
+  blockNumber: number;             // Block number
+  storedHash: Bytes32;             // bytes32 - hash stored at ingestion time
+  canonicalHash: Bytes32 | null;   // bytes32 - current canonical hash (null if the block no longer exists)
+}
+
+// Record of a detected chain reorganization and the rollback applied for it
+export interface ReorgRecord {
+  chainId: number;                 // Chain the reorg happened on
+  forkBlock: number;               // First block that was rolled back
+  headBlock: number;               // Chain head when the reorg was detected
+  orphanedBlocks: OrphanedBlock[]; // Stored blocks found to be orphaned
+  removedEventIds: string[];       // Ids (txHash_logIndex) of events deleted by the rollback
+  affectedEntries: Bytes32[];      // Namehashes of entries re-derived by the rollback
+  createdAt?: Date;                // Set by mongoose timestamps (detection time)
+}
+
+// Finality of a stored event (pending until its block is final)
+export type Finality = 'pending' | 'finalized';
+
+// Block tags an RPC can report the final block with
+export type FinalityTag = 'safe' | 'finalized';
+
+// How the final block is determined (CONFIRMATION_DEPTH and FINALITY_TAG)
+export interface FinalityPolicy {
+  confirmationDepth: number;       // Blocks below the head before a block is final
+  tag: FinalityTag | null;         // Block tag asked for the final block instead (falls back to the depth)
+}
+
+// Persistent store for block headers used by the event service's timestamp cache
+export interface BlockHeaderStore {
+  getTimestamps(blockNumbers: number[]): Promise<Map<number, number>>; // Known timestamps by block number
+  saveHeaders(headers: BlockHeader[]): Promise<void>;                  // Persist newly fetched headers
+}
+
+// Transaction and receipt fields stored on the events of a transaction
+export interface TransactionDetails {
+  transactionHash: Bytes32;        // bytes32 - transaction the details belong to
+  txFrom: Address;                 // Sender (lowercase)
+  txTo: Address | null;            // Called address (lowercase, null for contract creations)
+  gasUsed: string;                 // Gas used (decimal string)
+  effectiveGasPrice: string;       // Price paid per gas in wei (decimal string)
+  txStatus: number;                // Receipt status (1 = success, 0 = reverted)
+}
+
+// Result of adding transaction details to the stored events that have none
+export interface EnrichmentResult {
+  updatedEvents: number;           // Events that got transaction details
+  updatedTransactions: number;     // Transactions looked up
+  viaOtherContracts: number;       // Transactions that called the contract through another address (e.g. a TBA)
+  reverted: number;                // Transactions with a failed receipt status
+  failedTransactions: number;      // Transactions that could not be looked up
+}
+
+// Contract log as returned by eth_getLogs, archived so events can be decoded again without RPC
+export interface RawLog {
+  chainId: number;                 // Chain id
+  address: Address;                // Emitting contract (lowercase)
+  blockNumber: number;             // Block number
+  blockHash: Bytes32;              // Block hash
+  transactionHash: Bytes32;        // Transaction hash
+  transactionIndex: number;        // Position of the transaction in the block
+  logIndex: number;                // Position of the log in the block
+  topics: Bytes32[];               // Event signature and indexed arguments
+  data: Bytes;                     // ABI-encoded non-indexed arguments
+  timestamp?: number;              // Block timestamp, when known at archive time
+}
+
+// Archive of raw logs (the MongoDB rawlogs collection or NDJSON files)
+export interface RawLogArchive {
+  saveLogs(logs: RawLog[]): Promise<void>;                           // Add logs (replacing logs with the same id)
+  getLogs(fromBlock: number, toBlock: number): Promise<RawLog[]>;   // Logs of a block range in chain order
+  getLastBlock(): Promise<number | null>;                            // Newest archived block
+  removeFromBlock(blockNumber: number): Promise<void>;               // Drop logs from a block onwards (reorgs)
+}
+
+// Log that could not be decoded into an event, kept until a retry decodes it
+export interface QuarantinedLog extends RawLog {
+  error: string;                   // Decoding error of the last attempt
+  abiVersion: string;              // Version (hash) of the ABI tried in the last attempt
+  attempts?: number;               // Decoding attempts so far
+  createdAt?: Date;                // Set by mongoose timestamps (first failure)
+  updatedAt?: Date;                // Set by mongoose timestamps (last failure)
+}
+
+// Dead-letter store for logs that fail to decode
+export interface QuarantineStore {
+  quarantineLogs(logs: QuarantinedLog[]): Promise<void>;            // Add logs, or count another failed attempt
+}
+
+// Where ingestion reads contract logs from (RPC, or exported files for offline runs)
+export interface LogSource {
+  readonly name: string;                                            // Shown in script output
+  readonly provider: ethers.JsonRpcProvider | null;                 // Provider for timestamps and reorg checks (null offline)
+  getHeadBlock(): Promise<number>;                                  // Newest block the source can serve
+  getLogs(fromBlock: number, toBlock: number): Promise<any[]>;      // Contract logs of a block range in chain order
+}
+
+// Command-line option of a CLI command
+export interface CliOption {
+  name: string;                    // Flag name (--name, --name=<value> or --name <value>)
+  type: 'string' | 'number' | 'block' | 'boolean'; // 'block' is a block number or 'latest'
+  description: string;             // Shown by --help
+  value?: string;                  // Value placeholder shown by --help (e.g. '<block>')
+  alias?: string;                  // Short flag (e.g. 'c' for -c)
+}
+
+// Action of a CLI command that does several things (npm run hypermap -- backfill plan)
+export interface CliAction {
+  name: string;                    // Action name, given as the first argument after the command
+  description: string;             // Shown by --help
+}
+
+// Parsed option values of a CLI command, by option name (and the action as 'action')
+export type CliValues = Record<string, string | number | boolean | undefined>;
+
+// Outcome of a CLI command ('partial' when part of the work failed)
+export type CliStatus = 'ok' | 'partial' | 'failed';
+
+// Result of a CLI command run, printed as JSON with --json
+export interface CliResult {
+  status: CliStatus;               // Decides the exit code
+  data: Record<string, unknown>;   // Machine-readable summary of the run
+}
+
+// Subcommand of the hypermap CLI (also runnable as its own npm script)
+export interface CliCommand {
+  name: string;                    // Subcommand name (npm run hypermap -- <name>)
+  script: string;                  // npm script running only this command
+  summary: string;                 // One-line description for the command list and --help
+  options: CliOption[];            // Command options (the global options are added by the CLI)
+  actions?: CliAction[];           // Actions of the command; one must be given unless there is a default
+  defaultAction?: string;          // Action run when none is given
+  run(values: CliValues): Promise<CliResult>;
+}
+
+// Expected entry state in a fixture (the fields the pipeline derives from events)
+export type FixtureEntry = Pick<HypermapEntry, 'namehash' | 'label' | 'parentHash' | 'owner' | 'gene' | 'notes' | 'facts'>;
+
+// Recorded JSON-RPC responses of a block range, served by the mock RPC server
+export interface RpcFixture {
+  chainId: number;                 // Chain the responses were recorded on
+  address: Address;                // Contract the logs were filtered by
+  fromBlock: number;               // First recorded block
+  toBlock: number;                 // Last recorded block (the mock's chain head)
+  logs: any[];                     // eth_getLogs results (hex quantities, as returned by the RPC)
+  blocks: any[];                   // eth_getBlockByNumber results (without transactions) of the blocks with logs and the last block
+  transactions?: any[];            // eth_getTransactionByHash results served by the mock (optional, not recorded)
+  receipts?: any[];                // eth_getTransactionReceipt results served by the mock (optional, not recorded)
+  recordedAt?: string;             // ISO date of the recording
+  expected?: {
+    events: Record<string, number>; // Event count by type
+    entries?: FixtureEntry[];       // Entry state after indexing the range
+  };
+}
+
+// RPC endpoint in the provider pool
+export interface RpcEndpointConfig {
+  url: string;                     // JSON-RPC endpoint URL
+  weight: number;                  // Relative share of requests when healthy
+}
+
+// Health of an RPC endpoint in the provider pool
+export interface RpcEndpointHealth {
+  label: string;                   // Endpoint label (host only, no API keys)
+  weight: number;                  // Configured weight
+  requests: number;                // Requests sent by this process
+  failures: number;                // Failed requests
+  errorRate: number;               // Recent error rate (0-1, moving average)
+  avgLatencyMs: number;            // Recent latency of successful requests
+  score: number;                   // Current selection score (0 while cooling down)
+  coolingDown: boolean;            // Skipped after recent failures
+  lastError?: string;              // Last error message
+}
+
+// Category of an RPC error, deciding how it is retried
+export type RpcErrorCategory = 'rate-limited' | 'range-too-large' | 'transient' | 'permanent';
+
+// Retry counters for one error category
+export interface RetryMetrics {
+  category: RpcErrorCategory;      // Error category
+  errors: number;                  // Errors seen in this category
+  retries: number;                 // Errors that were retried
+  failures: number;                // Errors that were given up on (not retryable or out of attempts)
+}
+
+// State of a backfill range lease
+export type LeaseStatus = 'pending' | 'claimed' | 'done' | 'failed';
+
+// Block range of a parallel backfill, claimed and processed by one worker at a time
+export interface RangeLease {
+  _id?: string;                    // Set by MongoDB
+  chainId: number;                 // Chain id
+  contractAddress: Address;        // Contract address (lowercase)
+  fromBlock: number;               // First block of the lease
+  toBlock: number;                 // Last block of the lease
+  status: LeaseStatus;             // Lease state
+  owner: string | null;            // Worker id holding the lease
+  expiresAt: Date | null;          // Claim expiry; expired claims are taken over by other workers
+  attempts: number;                // Number of claims so far
+  eventCount: number;              // Events stored when completed
+  lastError?: string;              // Error of the last failed attempt
+  completedAt?: Date;              // Completion time
+}
+
+// Lease counts of a backfill plan
+export interface LeaseSummary {
+  total: number;                   // Planned leases
+  pending: number;                 // Waiting for a worker
+  claimed: number;                 // Held by a worker (not expired)
+  expired: number;                 // Claimed but expired (worker crashed or stalled)
+  done: number;                    // Completed
+  failed: number;                  // Gave up after LEASE_MAX_ATTEMPTS
+  fromBlock: number | null;        // First planned block
+  toBlock: number | null;          // Last planned block
+}
+
+// State of an extraction job
+export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// Log line of an extraction job
+export interface JobLogEntry {
+  at: Date;                        // Time of the log line
+  message: string;                 // Log message
+}
+
+// Block range extraction run by the server's job worker (created from the dashboard)
+export interface ExtractionJob {
+  _id?: string;                    // Set by MongoDB
+  chainId: number;                 // Chain id
+  contractAddress: Address;        // Contract address (lowercase)
+  fromBlock: number;               // First block of the job
+  toBlock: number | null;          // Last block of the job (null: follow the chain head)
+  targetBlock: number | null;      // Last block as of the latest chunk (the chain head when toBlock is null)
+  nextBlock: number;               // First block of the next chunk
+  status: JobStatus;               // Job state
+  owner: string | null;            // Worker id running the job
+  heartbeatAt: Date | null;        // Last sign of life of the worker; stale running jobs are taken over
+  chunks: number;                  // Chunks processed so far
+  eventsFound: number;             // Events found so far
+  eventsStored: number;            // New events stored so far
+  logs: JobLogEntry[];             // Latest JOB_LOG_LIMIT log lines
+  error?: string;                  // Error of a failed job
+  completedAt?: Date;              // Time the job completed, failed or was cancelled
+  createdAt?: Date;                // Set by mongoose timestamps
+  updatedAt?: Date;                // Set by mongoose timestamps
+}
+
+// Result of one chunk of an extraction job
+export interface JobChunkResult {
+  status: 'running' | 'completed' | 'error'; // More chunks to go, end reached, or failed
+  message: string;                 // Summary of the chunk
+  targetBlock: number;             // Last block of the job as resolved for this chunk
+  currentBlock: number;            // Last block of the chunk
+  eventsFound: number;             // Events found in the chunk
+  eventsStored: number;            // New events stored from the chunk
+  nextStartBlock?: number;         // First block of the next chunk (unset when the end is reached)
+  error?: string;                  // Error of a failed chunk
+}
+
+// Block range recorded in the coverage ledger
+export interface CoverageRange {
+  chainId: number;                 // Chain id
+  contractAddress: Address;        // Contract address (lowercase)
+  stage: PipelineStage;            // Stage that scanned the range ('extract' stores events, 'index' also entries)
+  fromBlock: number;               // First block of the range
+  toBlock: number;                 // Last block of the range
+  status: 'scanned' | 'failed';    // Completed, or given up after retries
+  error?: string;                  // Error of a failed range
+  updatedAt?: Date;                // Set by mongoose timestamps
+}
+
+// Block range that has not been scanned completely
+export interface CoverageGap {
+  fromBlock: number;               // First block of the gap
+  toBlock: number;                 // Last block of the gap
+  reason: 'unscanned' | 'failed';  // Never scanned, or a scan of it failed
+  error?: string;                  // Last error recorded for the gap
+}
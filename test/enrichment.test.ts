@@ -0,0 +1,144 @@
+/**
+ * Tests for the transaction enrichment (src/lib/services/enrichment.ts) against the
+ * mock RPC server. The test that stores the details needs a MongoDB database: set
+ * TEST_MONGODB_URI to a database whose name contains 'test' (it is dropped).
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { ethers } from 'ethers';
+import { createProvider } from '../src/lib/services/events.js';
+import { createMockRpcServer } from '../src/lib/services/mock-rpc.js';
+import { getTransactionDetails, enrichStoredEvents } from '../src/lib/services/enrichment.js';
+import { initMongoConnection, storeEvents, getEventsInBlockRange } from '../src/lib/services/mongodb.js';
+import { RpcProviderPool } from '../src/lib/services/provider-pool.js';
+import { CONTRACT_ADDRESS, DEFAULT_CHAIN_ID } from '../src/constants.js';
+import { HypermapEvent, RpcFixture } from '../src/types/index.js';
+
+const mongoUri = process.env.TEST_MONGODB_URI;
+const skipDatabase = !mongoUri
+  ? 'TEST_MONGODB_URI is not set'
+  : !/test/i.test(new URL(mongoUri).pathname) ? 'the TEST_MONGODB_URI database name does not contain "test"' : false;
+
+const BLOCK = 100;
+const SENDER = '0x00000000000000000000000000000000000000aa';
+const SUCCEEDED = ethers.id('tx-succeeded');
+const REVERTED = ethers.id('tx-reverted');
+
+// Transaction as returned by eth_getTransactionByHash
+function transaction(hash: string, index: number) {
+  return {
+    hash,
+    blockHash: ethers.id(`mock-block-${BLOCK}`),
+    blockNumber: ethers.toQuantity(BLOCK),
+    transactionIndex: ethers.toQuantity(index),
+    type: '0x2',
+    from: SENDER,
+    to: CONTRACT_ADDRESS.toLowerCase(),
+    nonce: ethers.toQuantity(index),
+    gas: '0x30000',
+    maxFeePerGas: '0x100',
+    maxPriorityFeePerGas: '0x1',
+    gasPrice: '0x64',
+    value: '0x0',
+    input: '0x',
+    chainId: ethers.toQuantity(DEFAULT_CHAIN_ID),
+    accessList: [],
+    v: '0x0',
+    r: ethers.id('r'),
+    s: ethers.toQuantity(1),
+    yParity: '0x0'
+  };
+}
+
+// Receipt as returned by eth_getTransactionReceipt
+function receipt(hash: string, index: number, status: number) {
+  return {
+    transactionHash: hash,
+    transactionIndex: ethers.toQuantity(index),
+    blockHash: ethers.id(`mock-block-${BLOCK}`),
+    blockNumber: ethers.toQuantity(BLOCK),
+    type: '0x2',
+    from: SENDER,
+    to: CONTRACT_ADDRESS.toLowerCase(),
+    contractAddress: null,
+    gasUsed: '0x5208',
+    cumulativeGasUsed: '0x5208',
+    effectiveGasPrice: '0x64',
+    logs: [],
+    logsBloom: ethers.zeroPadValue('0x', 256),
+    status: ethers.toQuantity(status)
+  };
+}
+
+const fixture: RpcFixture = {
+  chainId: DEFAULT_CHAIN_ID,
+  address: CONTRACT_ADDRESS,
+  fromBlock: BLOCK,
+  toBlock: BLOCK + 10,
+  logs: [],
+  blocks: [],
+  transactions: [transaction(SUCCEEDED, 0), transaction(REVERTED, 1)],
+  receipts: [receipt(SUCCEEDED, 0, 1), receipt(REVERTED, 1, 0)]
+};
+
+const server = createMockRpcServer(fixture);
+let provider: RpcProviderPool;
+
+before(async () => {
+  provider = createProvider(await server.start());
+  if (!skipDatabase) await initMongoConnection(mongoUri!);
+});
+
+after(async () => {
+  provider.destroy();
+  await server.stop();
+  if (skipDatabase) return;
+  await mongoose.connection.dropDatabase();
+  await mongoose.disconnect();
+});
+
+test('getTransactionDetails reads the status of a reverted receipt', async () => {
+  const details = await getTransactionDetails(provider, [SUCCEEDED, REVERTED]);
+
+  assert.deepEqual(details.get(SUCCEEDED), {
+    transactionHash: SUCCEEDED,
+    txFrom: SENDER,
+    txTo: CONTRACT_ADDRESS.toLowerCase(),
+    gasUsed: '21000',
+    effectiveGasPrice: '100',
+    txStatus: 1
+  });
+  assert.equal(details.get(REVERTED)?.txStatus, 0);
+});
+
+test('getTransactionDetails maps unknown transactions to null', async () => {
+  const unknown = ethers.id('tx-unknown');
+  const details = await getTransactionDetails(provider, [unknown]);
+
+  assert.equal(details.get(unknown), null);
+});
+
+test('enrichStoredEvents stores a reverted receipt with txStatus 0', { skip: skipDatabase }, async () => {
+  const events: HypermapEvent[] = [SUCCEEDED, REVERTED].map((transactionHash, index) => ({
+    chainId: DEFAULT_CHAIN_ID,
+    blockNumber: BLOCK,
+    blockHash: ethers.id(`mock-block-${BLOCK}`),
+    transactionHash,
+    transactionIndex: index,
+    logIndex: index,
+    timestamp: 1740000000,
+    eventType: 'Zero',
+    zeroTba: SENDER
+  }));
+  await storeEvents(events);
+
+  const result = await enrichStoredEvents(provider);
+  const stored: HypermapEvent[] = await getEventsInBlockRange(BLOCK, BLOCK);
+
+  assert.equal(result.updatedEvents, 2);
+  assert.equal(result.reverted, 1);
+  assert.equal(stored.find(event => event.transactionHash === SUCCEEDED)?.txStatus, 1);
+  assert.equal(stored.find(event => event.transactionHash === REVERTED)?.txStatus, 0);
+});
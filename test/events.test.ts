@@ -0,0 +1,31 @@
+/**
+ * Tests for the log decoding (src/lib/services/events.ts)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { createContract, parseLogsToEvents } from '../src/lib/services/events.js';
+
+// A Transfer log as returned by ethers v6 (log index in `index`)
+function transferLog(index: number) {
+  const contract = createContract();
+  const { topics, data } = contract.interface.encodeEventLog('Transfer', [ethers.ZeroAddress, ethers.ZeroAddress, 1n]);
+  return {
+    address: contract.target,
+    topics,
+    data,
+    blockNumber: 100,
+    blockHash: ethers.id('block-100'),
+    transactionHash: ethers.id('tx'),
+    transactionIndex: 0,
+    index,
+    timestamp: 1740000000
+  };
+}
+
+test('parseLogsToEvents keeps the log index of the first log of a block', async () => {
+  const events = await parseLogsToEvents([transferLog(0), transferLog(1)], createContract(), null);
+
+  assert.deepEqual(events.map(event => event.logIndex), [0, 1]);
+});
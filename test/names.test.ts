@@ -0,0 +1,58 @@
+/**
+ * Tests for the name helpers (src/lib/services/names.ts)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  encodeLabelKey,
+  decodeLabelKey,
+  decodeLabelKeys,
+  tokenIdToNamehash,
+  namehashToTokenId,
+  getNamehash
+} from '../src/lib/services/names.js';
+
+test('encodeLabelKey escapes the characters MongoDB does not allow in keys', () => {
+  assert.equal(encodeLabelKey('~ip'), '~ip');
+  assert.equal(encodeLabelKey('a.b'), 'a%2Eb');
+  assert.equal(encodeLabelKey('$price'), '%24price');
+  assert.equal(encodeLabelKey('100%'), '100%25');
+  assert.equal(encodeLabelKey('nul\0'), 'nul%00');
+});
+
+test('encodeLabelKey encodes the empty label as a lone escape character', () => {
+  assert.equal(encodeLabelKey(''), '%');
+  assert.equal(decodeLabelKey('%'), '');
+});
+
+test('decodeLabelKey reverses encodeLabelKey', () => {
+  for (const label of ['', '~ip', 'a.b.c', '$set', '%2E', '%', '.$%\0', 'ünïcödé.🙂']) {
+    assert.equal(decodeLabelKey(encodeLabelKey(label)), label);
+  }
+});
+
+test('decodeLabelKey leaves unknown escapes alone', () => {
+  assert.equal(decodeLabelKey('%41%2e'), '%41%2e');
+});
+
+test('decodeLabelKeys decodes every key of a map', () => {
+  assert.deepEqual(decodeLabelKeys({ 'a%2Eb': 1, '%': 2, '~ip': 3 }), { 'a.b': 1, '': 2, '~ip': 3 });
+  assert.deepEqual(decodeLabelKeys(undefined), {});
+});
+
+test('tokenIdToNamehash pads the token id to 32 bytes', () => {
+  assert.equal(tokenIdToNamehash('1'), '0x' + '0'.repeat(63) + '1');
+  assert.equal(tokenIdToNamehash(255n), '0x' + '0'.repeat(62) + 'ff');
+  assert.equal(tokenIdToNamehash('0x10'), '0x' + '0'.repeat(62) + '10');
+});
+
+test('tokenIdToNamehash and namehashToTokenId round trip', () => {
+  const namehash = getNamehash('test.os');
+  const tokenId = namehashToTokenId(namehash);
+
+  assert.equal(tokenId, BigInt(namehash).toString());
+  assert.equal(tokenIdToNamehash(tokenId), namehash);
+  assert.equal(ethers.dataLength(tokenIdToNamehash(tokenId)), 32);
+});
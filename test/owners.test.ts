@@ -0,0 +1,75 @@
+/**
+ * Tests for the entry owners set by Transfer events (src/lib/services/mongodb.ts).
+ * They need a MongoDB database: set TEST_MONGODB_URI to a database whose name
+ * contains 'test' (it is dropped when the tests end).
+ */
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { ethers } from 'ethers';
+import { initMongoConnection, processEventsToEntries, getEntry } from '../src/lib/services/mongodb.js';
+import { getChildNamehash, getLabelhash, namehashToTokenId } from '../src/lib/services/names.js';
+import { DEFAULT_CHAIN_ID, ROOT_HASH } from '../src/constants.js';
+import { MintEvent, TransferEvent } from '../src/types/index.js';
+
+const mongoUri = process.env.TEST_MONGODB_URI;
+const skip = !mongoUri
+  ? 'TEST_MONGODB_URI is not set'
+  : !/test/i.test(new URL(mongoUri).pathname) ? 'the TEST_MONGODB_URI database name does not contain "test"' : false;
+
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const BOB = '0x00000000000000000000000000000000000000b0';
+
+before(async () => {
+  if (!skip) await initMongoConnection(mongoUri!);
+});
+
+after(async () => {
+  if (skip) return;
+  await mongoose.connection.dropDatabase();
+  await mongoose.disconnect();
+});
+
+function eventFields(blockNumber: number, logIndex: number) {
+  return {
+    chainId: DEFAULT_CHAIN_ID,
+    blockNumber,
+    blockHash: ethers.id(`block-${blockNumber}`),
+    transactionHash: ethers.id(`tx-${blockNumber}-${logIndex}`),
+    transactionIndex: 0,
+    logIndex,
+    timestamp: 1740000000 + blockNumber
+  };
+}
+
+function mint(blockNumber: number, label: string): MintEvent {
+  const labelBytes = ethers.hexlify(ethers.toUtf8Bytes(label));
+  const labelhash = getLabelhash(labelBytes);
+  return {
+    ...eventFields(blockNumber, 0),
+    eventType: 'Mint',
+    parenthash: ROOT_HASH,
+    childhash: getChildNamehash(ROOT_HASH, labelhash),
+    labelhash,
+    label,
+    labelBytes,
+    integrityIssues: []
+  };
+}
+
+function transfer(blockNumber: number, logIndex: number, namehash: string, from: string, to: string): TransferEvent {
+  return { ...eventFields(blockNumber, logIndex), eventType: 'Transfer', from, to, id: namehashToTokenId(namehash) };
+}
+
+test('the latest Transfer sets the owner when Transfers are processed in reverse order', { skip }, async () => {
+  const minted = mint(100, 'owners-reverse');
+  await processEventsToEntries([minted]);
+
+  await processEventsToEntries([transfer(200, 1, minted.childhash, ALICE, BOB)]);
+  await processEventsToEntries([transfer(200, 0, minted.childhash, ethers.ZeroAddress, ALICE)]);
+
+  const entry = await getEntry(minted.childhash);
+  assert.equal(entry?.owner, BOB);
+  assert.equal(entry?.lastUpdateBlock, 200);
+});
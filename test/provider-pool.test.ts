@@ -0,0 +1,67 @@
+/**
+ * Tests for the RPC provider pool (src/lib/services/provider-pool.ts) against two
+ * mock RPC servers (src/lib/services/mock-rpc.ts)
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockRpcServer } from '../src/lib/services/mock-rpc.js';
+import { RpcProviderPool, parseRpcEndpoints } from '../src/lib/services/provider-pool.js';
+import { CONTRACT_ADDRESS, DEFAULT_CHAIN_ID } from '../src/constants.js';
+import { RpcFixture } from '../src/types/index.js';
+
+const fixture: RpcFixture = {
+  chainId: DEFAULT_CHAIN_ID,
+  address: CONTRACT_ADDRESS,
+  fromBlock: 100,
+  toBlock: 200,
+  logs: [],
+  blocks: []
+};
+
+const healthy = createMockRpcServer(fixture);
+const failing = createMockRpcServer(fixture);
+after(async () => {
+  await healthy.stop();
+  await failing.stop();
+});
+
+test('parseRpcEndpoints reads urls with optional weights', () => {
+  assert.deepEqual(parseRpcEndpoints(' https://a.example/key|3, https://b.example ,,https://c.example|0'), [
+    { url: 'https://a.example/key', weight: 3 },
+    { url: 'https://b.example', weight: 1 },
+    { url: 'https://c.example', weight: 1 }
+  ]);
+});
+
+test('requests fail over to the healthy endpoint and the failed one comes back after its cooldown', async () => {
+  const healthyUrl = await healthy.start();
+  const failingUrl = await failing.start();
+  const failingPort = Number(new URL(failingUrl).port);
+  await failing.stop(); // Connections to it are refused until it starts again
+
+  // The failing endpoint's weight makes it the first choice whenever it is not cooling down
+  const pool = new RpcProviderPool(parseRpcEndpoints(`${failingUrl}|1000000,${healthyUrl}|1`), DEFAULT_CHAIN_ID, { staticNetwork: true });
+  try {
+    assert.equal(await pool.send('eth_blockNumber', []), '0xc8');
+    const [down, up] = pool.getHealth();
+    assert.equal(down.failures, 1);
+    assert.equal(down.coolingDown, true);
+    assert.equal(up.failures, 0);
+
+    // While it cools down (1s after the first failure) requests go to the healthy endpoint only
+    await failing.start(failingPort);
+    for (let i = 0; i < 3; i++) {
+      assert.equal(await pool.send('eth_blockNumber', []), '0xc8');
+    }
+    assert.equal(failing.getStats().requests, 0);
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    assert.equal(pool.getHealth()[0].coolingDown, false);
+    assert.equal(await pool.send('eth_blockNumber', []), '0xc8');
+    assert.equal(failing.getStats().requests, 1);
+    assert.equal(pool.getHealth()[0].failures, 1);
+  } finally {
+    pool.destroy();
+  }
+});
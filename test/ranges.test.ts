@@ -0,0 +1,84 @@
+/**
+ * Tests for the range planner (src/lib/services/ranges.ts)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRangePlanner, getSuggestedRangeSize } from '../src/lib/services/ranges.js';
+
+const RANGE_ERROR = { code: -32005, message: 'block range too large' };
+
+test('getSuggestedRangeSize reads the range suggested by the provider', () => {
+  assert.equal(getSuggestedRangeSize(new Error('Log response size exceeded. this block range should work: [0x1, 0x7d0]')), 2000);
+  assert.equal(getSuggestedRangeSize({ message: 'You can make eth_getLogs requests with up to a 2K block range' }), 2000);
+  assert.equal(getSuggestedRangeSize({ message: 'You can make eth_getLogs requests with up to a 500 block range' }), 500);
+  assert.equal(getSuggestedRangeSize({ error: { message: 'exceed maximum block range: 5000' } }), 5000);
+  assert.equal(getSuggestedRangeSize({ message: 'maximum range of 1024 exceeded' }), 1024);
+});
+
+test('getSuggestedRangeSize returns null when no range is mentioned', () => {
+  assert.equal(getSuggestedRangeSize(new Error('query returned more than 10000 results')), null);
+  assert.equal(getSuggestedRangeSize(null), null);
+});
+
+test('nextEnd never passes the end of the requested range', () => {
+  const planner = createRangePlanner({ initialChunkSize: 1000, minChunkSize: 10, maxChunkSize: 10000 });
+
+  assert.equal(planner.nextEnd(100, 100000), 1099);
+  assert.equal(planner.nextEnd(100, 500), 500);
+});
+
+test('the window doubles after a run of successes and stops at the maximum', () => {
+  const planner = createRangePlanner({ initialChunkSize: 1000, minChunkSize: 10, maxChunkSize: 3000, growthSuccesses: 2 });
+
+  planner.recordSuccess();
+  assert.equal(planner.chunkSize, 1000);
+  planner.recordSuccess();
+  assert.equal(planner.chunkSize, 2000);
+  planner.recordSuccess();
+  planner.recordSuccess();
+  assert.equal(planner.chunkSize, 3000);
+  planner.recordSuccess();
+  planner.recordSuccess();
+  assert.equal(planner.chunkSize, 3000);
+});
+
+test('a range error halves the window down to the minimum', () => {
+  const planner = createRangePlanner({ initialChunkSize: 1000, minChunkSize: 300, maxChunkSize: 10000 });
+
+  assert.equal(planner.recordRangeError(RANGE_ERROR), true);
+  assert.equal(planner.chunkSize, 500);
+  assert.equal(planner.recordRangeError(RANGE_ERROR), true);
+  assert.equal(planner.chunkSize, 300);
+  assert.equal(planner.recordRangeError(RANGE_ERROR), false);
+  assert.equal(planner.chunkSize, 300);
+});
+
+test('a range error resets the run of successes', () => {
+  const planner = createRangePlanner({ initialChunkSize: 1000, minChunkSize: 10, maxChunkSize: 10000, growthSuccesses: 2 });
+
+  planner.recordSuccess();
+  planner.recordRangeError(RANGE_ERROR);
+  planner.recordSuccess();
+  assert.equal(planner.chunkSize, 500);
+  planner.recordSuccess();
+  assert.equal(planner.chunkSize, 1000);
+});
+
+test('a suggested range becomes the new maximum', () => {
+  const planner = createRangePlanner({ initialChunkSize: 20000, minChunkSize: 100, maxChunkSize: 100000, growthSuccesses: 1 });
+
+  assert.equal(planner.recordRangeError({ message: 'eth_getLogs is limited to a 2K block range. this block range should work: [0x1, 0x7d0]' }), true);
+  assert.equal(planner.chunkSize, 2000);
+
+  planner.recordSuccess();
+  assert.equal(planner.chunkSize, 2000);
+});
+
+test('errors that are not range errors leave the window alone', () => {
+  const planner = createRangePlanner({ initialChunkSize: 1000, minChunkSize: 10, maxChunkSize: 10000 });
+
+  assert.equal(planner.recordRangeError({ code: 429, message: 'Too Many Requests' }), false);
+  assert.equal(planner.recordRangeError(new Error('execution reverted')), false);
+  assert.equal(planner.chunkSize, 1000);
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for the RPC error classification (src/lib/services/retry.ts)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyRpcError, getRetryMetrics, recordRetryMetric, resetRetryMetrics } from '../src/lib/services/retry.js';
+
+test('classifyRpcError recognizes range errors', () => {
+  assert.equal(classifyRpcError(new Error('query returned more than 10000 results')), 'range-too-large');
+  assert.equal(classifyRpcError({ code: -32005, message: 'block range too large: max 2000 blocks' }), 'range-too-large');
+  assert.equal(classifyRpcError({ error: { code: -32600, message: 'Log response size exceeded.' } }), 'range-too-large');
+});
+
+test('classifyRpcError reports range errors before rate limits', () => {
+  assert.equal(classifyRpcError({ code: 429, message: 'exceed maximum block range: 500' }), 'range-too-large');
+});
+
+test('classifyRpcError recognizes rate limits', () => {
+  assert.equal(classifyRpcError({ code: 429, message: 'Too Many Requests' }), 'rate-limited');
+  assert.equal(classifyRpcError(new Error('server response 429')), 'rate-limited');
+  assert.equal(classifyRpcError({ info: { error: { code: -32005, message: "You've exceeded your compute units per second capacity" } } }), 'rate-limited');
+});
+
+test('classifyRpcError recognizes transient failures', () => {
+  assert.equal(classifyRpcError({ code: 'TIMEOUT', message: 'request timeout' }), 'transient');
+  assert.equal(classifyRpcError({ code: 'NETWORK_ERROR' }), 'transient');
+  assert.equal(classifyRpcError({ message: 'fetch failed', cause: { code: 'ECONNREFUSED' } }), 'transient');
+  assert.equal(classifyRpcError(new Error('socket hang up')), 'transient');
+  assert.equal(classifyRpcError('502 Bad Gateway'), 'transient');
+});
+
+test('classifyRpcError treats anything else as permanent', () => {
+  assert.equal(classifyRpcError(new Error('execution reverted')), 'permanent');
+  assert.equal(classifyRpcError({ code: -32601, message: 'the method eth_foo does not exist/is not available' }), 'permanent');
+  assert.equal(classifyRpcError(null), 'permanent');
+  assert.equal(classifyRpcError(undefined), 'permanent');
+});
+
+test('resetRetryMetrics clears the counters', () => {
+  recordRetryMetric('transient', true);
+  recordRetryMetric('transient', false);
+  assert.deepEqual(getRetryMetrics().find(metric => metric.category === 'transient'), { category: 'transient', errors: 2, retries: 1, failures: 1 });
+
+  resetRetryMetrics();
+  assert.ok(getRetryMetrics().every(metric => metric.errors === 0 && metric.retries === 0 && metric.failures === 0));
+});
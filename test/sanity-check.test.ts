@@ -0,0 +1,95 @@
+/**
+ * End-to-end tests of the ingestion against fixtures served by the mock RPC server
+ * (scripts/sanity-check.ts). fixtures/sanity-generated.json is a small generated fixture
+ * (Mint, Fact, Note and Transfer logs) that is always checked; the entry state is only
+ * checked against a MongoDB database: set TEST_MONGODB_URI to a database whose name
+ * contains 'test' (it is dropped). The recorded fixture is checked when it is present;
+ * record it with npm run record-fixture and store its expected results with
+ * npm run sanity-check -- --db=<uri> --write-expected (see docs/SANITY_CHECKS.md).
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { sanityCheckCommand } from '../scripts/sanity-check.js';
+import { FixtureEntry, RpcFixture } from '../src/types/index.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const generatedFixture = path.resolve(__dirname, '..', 'fixtures', 'sanity-generated.json');
+const recordedFixture = path.resolve(__dirname, '..', 'fixtures', 'sanity-27430000.json');
+
+const mongoUri = process.env.TEST_MONGODB_URI;
+const skipDatabase = !mongoUri
+  ? 'TEST_MONGODB_URI is not set'
+  : !/test/i.test(new URL(mongoUri).pathname) ? 'the TEST_MONGODB_URI database name does not contain "test"' : false;
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hypermap-test-'));
+after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+function readFixture(): RpcFixture {
+  return JSON.parse(fs.readFileSync(generatedFixture, 'utf8'));
+}
+
+function writeFixture(name: string, fixture: RpcFixture): string {
+  const fixturePath = path.join(tmpDir, name);
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+  return fixturePath;
+}
+
+test('a fixture scans to its expected events through the injected faults', async () => {
+  const result = await sanityCheckCommand.run({ fixture: generatedFixture });
+  const data = result.data as any;
+
+  assert.equal(result.status, 'ok');
+  assert.deepEqual(data.eventCounts, { Fact: 2, Mint: 2, Note: 3, Transfer: 3 });
+  assert.ok(data.mockServer.rangeErrors > 0, 'the mock server rejected no ranges');
+  assert.ok(data.mockServer.rateLimited > 0, 'the mock server rate limited no requests');
+});
+
+test('a fixture scans to its expected events without faults', async () => {
+  const result = await sanityCheckCommand.run({ fixture: generatedFixture, 'no-faults': true });
+  const data = result.data as any;
+
+  assert.equal(result.status, 'ok');
+  assert.equal(data.mockServer.rangeErrors, 0);
+  assert.deepEqual(data.retryMetrics, [], 'the retry metrics of an earlier run were reported');
+});
+
+test('the check fails when the events differ from the expected counts', async () => {
+  const fixture = readFixture();
+  fixture.expected = { events: { Fact: 2, Mint: 2, Note: 2, Transfer: 3 } };
+  const result = await sanityCheckCommand.run({ fixture: writeFixture('wrong-counts.json', fixture), 'no-faults': true });
+
+  assert.equal(result.status, 'failed');
+});
+
+test('indexing a fixture through a reorg leaves the expected entries', { skip: skipDatabase }, async () => {
+  const result = await sanityCheckCommand.run({ fixture: generatedFixture, db: mongoUri });
+  const data = result.data as any;
+  const byLabel = new Map<string, FixtureEntry>(data.entries.map((entry: FixtureEntry) => [entry.label, entry]));
+  const sanity = byLabel.get('sanity');
+  const child = byLabel.get('child');
+
+  assert.equal(result.status, 'ok');
+  assert.ok(data.checks.some((check: any) => check.name === 'entry names' && check.passed));
+  assert.equal(sanity?.owner, '0x00000000000000000000000000000000000000aa');
+  assert.deepEqual(sanity?.facts, { '!version': '0x31' });
+  assert.deepEqual(sanity?.notes, { '~ip': '0x3132372e302e302e31' });
+  // The child was transferred and its note set twice: the latest values win
+  assert.equal(child?.parentHash, sanity?.namehash);
+  assert.equal(child?.owner, '0x00000000000000000000000000000000000000bb');
+  assert.deepEqual(child?.facts, { '!kind': '0x6e6f6465' });
+  assert.deepEqual(child?.notes, { '~ip': '0x31302e302e302e32' });
+});
+
+test('the recorded fixture scans to its expected events', {
+  skip: fs.existsSync(recordedFixture) ? false : 'fixtures/sanity-27430000.json has not been recorded (npm run record-fixture -- --from=27430000 --to=27434999)'
+}, async () => {
+  const result = await sanityCheckCommand.run({ fixture: recordedFixture });
+
+  assert.equal(result.status, 'ok');
+});